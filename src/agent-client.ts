@@ -0,0 +1,182 @@
+import {
+  ActionName,
+  ActionPayload,
+  ActionResults,
+  ErrorCode,
+  EventMessage,
+  EventType,
+  HelloResult,
+  PROTOCOL_VERSION,
+  RequestId,
+  ServerMessage,
+} from "./protocol.js";
+
+/**
+ * Typed client for the agent's WebSocket protocol. Payloads, results and
+ * events are typed from protocol.ts, the same definitions the agent validates
+ * against. Works in browsers (cookie auth) and in Node with the `ws` package:
+ *
+ *   const client = new AgentClient("ws://localhost:3000", {
+ *     createSocket: (url) => new WebSocket(url, { headers: { Authorization: `Bearer ${token}` } }),
+ *   });
+ *   await client.connect();
+ *   const page = await client.call("list_files", { folder: "VIDEOS", limit: 20 });
+ */
+
+// Method syntax makes the event parameter bivariant, so handlers typed with the browser's or `ws`'s own event types fit
+type Handler<E> = { handle(event: E): void }["handle"];
+
+// The parts of a WebSocket the client uses; the browser's WebSocket and `ws` both fit
+export interface SocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: Handler<unknown> | null;
+  onclose: Handler<unknown> | null;
+  onerror: Handler<unknown> | null;
+  onmessage: Handler<{ data: unknown }> | null;
+}
+
+export interface AgentClientOptions {
+  createSocket?: (url: string) => SocketLike; // defaults to the global WebSocket
+  client?: string; // name announced in the hello handshake
+  timeoutMs?: number; // per call; 0 disables
+  backend?: string; // storage backend every call acts on; defaults to the agent's default backend
+}
+
+export type ClientErrorCode = ErrorCode | "timeout" | "disconnected";
+
+export class AgentRequestError extends Error {
+  constructor(
+    readonly code: ClientErrorCode,
+    message: string,
+    readonly action?: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "AgentRequestError";
+  }
+}
+
+// Actions whose payload has no required fields can be called without one
+type PayloadArgs<A extends ActionName> = {} extends ActionPayload<A> ? [payload?: ActionPayload<A>] : [payload: ActionPayload<A>];
+
+interface Pending {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const OPEN = 1;
+
+export class AgentClient {
+  private socket: SocketLike | null = null;
+  private nextId = 1;
+  private pending = new Map<RequestId, Pending>();
+  private listeners = new Map<EventType, Set<(event: EventMessage) => void>>();
+
+  // Filled in by connect(): what the server speaks and what this user may do
+  hello: HelloResult | null = null;
+  socketId: string | null = null;
+
+  constructor(
+    private url: string,
+    private options: AgentClientOptions = {}
+  ) {}
+
+  // Open the socket and complete the hello handshake
+  async connect(): Promise<HelloResult> {
+    const socket = (this.options.createSocket ?? defaultSocket)(this.url);
+    this.socket = socket;
+
+    socket.onmessage = (event) => this.receive(String(event.data));
+    await new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new AgentRequestError("disconnected", `Could not connect to ${this.url}`));
+      socket.onclose = () => reject(new AgentRequestError("disconnected", `Connection to ${this.url} closed`));
+    });
+    socket.onclose = () => this.disconnected();
+
+    const hello = await this.call("hello", { version: PROTOCOL_VERSION, client: this.options.client });
+    if (!hello.versions.includes(PROTOCOL_VERSION)) {
+      this.close();
+      throw new AgentRequestError("unsupported_version", `Server speaks protocol ${hello.versions.join(", ")}, client ${PROTOCOL_VERSION}`);
+    }
+    this.hello = hello;
+    return hello;
+  }
+
+  call<A extends ActionName>(action: A, ...[payload]: PayloadArgs<A>): Promise<ActionResults[A]> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== OPEN) {
+      return Promise.reject(new AgentRequestError("disconnected", "Not connected", action));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const pending: Pending = { resolve: (result) => resolve(result as ActionResults[A]), reject };
+      const timeoutMs = this.options.timeoutMs ?? 30000;
+      if (timeoutMs > 0) {
+        pending.timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new AgentRequestError("timeout", `${action} timed out after ${timeoutMs}ms`, action));
+        }, timeoutMs);
+      }
+      this.pending.set(id, pending);
+      socket.send(JSON.stringify({ v: PROTOCOL_VERSION, id, backend: this.options.backend, action, payload: payload ?? {} }));
+    });
+  }
+
+  // Listen for one kind of server event; returns a function that stops listening
+  on<E extends EventType>(type: E, listener: (event: EventMessage<E>) => void): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    const untyped = listener as (event: EventMessage) => void;
+    set.add(untyped);
+    this.listeners.set(type, set);
+    return () => set.delete(untyped);
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.disconnected();
+  }
+
+  private receive(data: string): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message.type === "response" || message.type === "error") {
+      const pending = message.id !== undefined ? this.pending.get(message.id) : undefined;
+      if (!pending) return; // replies to requests sent by someone else's code on this socket
+      this.pending.delete(message.id!);
+      if (pending.timer) clearTimeout(pending.timer);
+
+      if (message.type === "response") pending.resolve(message.result);
+      else pending.reject(new AgentRequestError(message.code, message.message, message.action, message.details));
+      return;
+    }
+
+    if (message.type === "connected") this.socketId = message.socketId;
+    this.listeners.get(message.type)?.forEach((listener) => listener(message));
+  }
+
+  private disconnected(): void {
+    this.socket = null;
+    this.socketId = null;
+    for (const [id, pending] of this.pending) {
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.reject(new AgentRequestError("disconnected", "Connection closed"));
+      this.pending.delete(id);
+    }
+  }
+}
+
+function defaultSocket(url: string): SocketLike {
+  const WebSocketImpl = (globalThis as { WebSocket?: new (url: string) => SocketLike }).WebSocket;
+  if (!WebSocketImpl) throw new Error("No global WebSocket here; pass createSocket (e.g. using the ws package)");
+  return new WebSocketImpl(url);
+}
@@ -2,1164 +2,4063 @@
 
 import express, { Request, Response } from "express";
 import { WebSocketServer, WebSocket } from "ws";
-import { createServer } from "http";
+import { createServer, IncomingMessage } from "http";
+import { randomUUID } from "crypto";
+import { createRequire } from "module";
 import * as path from "path";
 import * as fs from "fs";
-import { MCPFileClient, FileInfo, FolderListing } from "./mcp-client.js";
+import {
+  CONFLICT_POLICIES,
+  ConflictError,
+  ConflictPolicy,
+  FileInfo,
+  FileLocation,
+  FolderListing,
+  MCPError,
+  TransferResult,
+} from "./mcp-client.js";
+import { Backend, BackendRegistry, copyBetween } from "./backends.js";
+import { RecordingUpdate } from "./recordings.js";
+import { publicStream, redactStreamUrl, StreamHealthUpdate } from "./stream-health.js";
+import { PresetUpdate } from "./stream-presets.js";
+import { folderForUpload, PartialUploadError, receiveMultipartUpload, StreamUploadResult, streamUpload } from "./uploads.js";
+import { UploadSessionError, UploadSessionErrorCode } from "./upload-sessions.js";
+import { fileETag, isNotModified, mimeTypeFor, parseRange, pipeFileRange, rangeStillValid } from "./downloads.js";
+import { AuthContext, AuthError, AuthService, SESSION_COOKIE, SESSION_TTL_MS } from "./auth.js";
+import { AgentAction, assertAllowed, folderScope, ForbiddenError, grantsFor, isAllowed, isAllowedAnywhere, loadPolicy, Role } from "./permissions.js";
+import { ThumbnailError, thumbnailWidth } from "./thumbnails.js";
+import { flattenListings, ListQueryError, paginate, parseListQuery, wantsPage } from "./listing.js";
+import { SearchResult } from "./search.js";
+import { parseStoragePath, StoragePath, StoragePathError } from "./paths.js";
+import { MAX_TREE_DEPTH, readTree } from "./tree.js";
+import { BatchResult, parseBatch, runBatch } from "./batch.js";
+import {
+  ARCHIVE_QUEUE_THRESHOLD,
+  ArchiveEntry,
+  archiveFilename,
+  ArchiveFormat,
+  ArchiveQueue,
+  archiveSize,
+  folderEntries,
+  parseArchiveFormat,
+  parseArchiveSelection,
+  selectionEntries,
+  writeArchive,
+} from "./archives.js";
+import { TicketExpiredError, withDownloadTicket } from "./download-queue.js";
+import { parseTopics, WATCH_TOPICS, WatchTopic } from "./watcher.js";
+import {
+  ACTION_SCHEMAS,
+  ActionName,
+  ErrorCode,
+  EVENT_TYPES,
+  HelloResult,
+  parseRequest,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  requestId,
+  SUPPORTED_VERSIONS,
+} from "./protocol.js";
+import { SchemaError } from "./schema.js";
+import { findRoute, openApiDocument, undocumentedRoutes, validateRequest } from "./openapi.js";
+import { auditTarget, AuditLog, toCsv, toJsonLines } from "./audit.js";
+import { getExplorerHTML } from "./explorer.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+      backendName?: string; // from an /api/b/:backend/... path
+      backend?: Backend;
+    }
+  }
+}
 
 const app = express();
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
+const wss = new WebSocketServer({ noServer: true });
 
 const PORT = parseInt(process.env.PORT || "3000");
-const mcpClient = new MCPFileClient();
+const AGENT_VERSION = "1.1.0";
+const backends = new BackendRegistry({
+  maxAttempts: parseInt(process.env.MCP_RECONNECT_MAX_ATTEMPTS || "0"),
+  maxDelayMs: parseInt(process.env.MCP_RECONNECT_MAX_DELAY_MS || "30000"),
+});
+const auth = new AuthService();
+const audit = new AuditLog();
+const archiveQueue = new ArchiveQueue();
 
 // Middleware
-app.use(express.json({ limit: "100mb" }));
-app.use(express.urlencoded({ extended: true, limit: "100mb" }));
+// /api/b/:backend/... is the whole API against one named backend; plain /api/... goes to the default one
+app.use((req: Request, res: Response, next) => {
+  const match = /^\/api\/b\/([^/?]+)(?=[/?]|$)/.exec(req.url);
+  if (match) {
+    req.backendName = decodeURIComponent(match[1]);
+    req.url = "/api" + req.url.slice(match[0].length);
+  }
+  next();
+});
+
+// Streaming upload routes read the raw request body themselves, so keep the parsers off it
+const STREAMING_ROUTES = [/^\/api\/upload\/stream$/, /^\/api\/uploads\/[^/]+\/chunk$/];
+
+function unlessStreaming(parser: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => (STREAMING_ROUTES.some((route) => route.test(req.path)) ? next() : parser(req, res, next));
+}
+
+app.use(unlessStreaming(express.json({ limit: "100mb" })));
+app.use(unlessStreaming(express.urlencoded({ extended: true, limit: "100mb" })));
+
+// Audit every REST call that changes something, once its response is sent, signed in or not
+app.use("/api", (req: Request, res: Response, next) => {
+  if (req.method === "GET" || req.method === "HEAD") return next();
+  const found = findRoute(req.method, req.baseUrl + req.path);
+  // Chunks are part of an upload; the session's open and complete are recorded instead
+  if (found?.route.id === "appendUploadChunk") return next();
+
+  res.on("finish", () => {
+    const failed = res.statusCode >= 400;
+    audit.record({
+      actor: req.auth?.user.username ?? (found?.route.id === "login" && typeof req.body?.username === "string" ? req.body.username : null),
+      ip: req.ip ?? "",
+      via: "rest",
+      action: found ? found.route.action ?? found.route.id : "unknown",
+      backend: req.backend?.name,
+      target: res.locals.auditTarget ?? auditTarget({ ...(req.query as object), ...req.body, ...found?.params }),
+      request: `${req.method} ${req.originalUrl.split("?")[0]}`,
+      result: failed ? "error" : "ok",
+      status: res.statusCode,
+      ...(failed && typeof res.locals.auditError === "string" && { error: res.locals.auditError }),
+    });
+  });
+  next();
+});
+
+// Everything under /api needs a session cookie or API token, except signing in
+app.use("/api", (req: Request, res: Response, next) => {
+  if (req.path === "/auth/login") return next();
+
+  const context = auth.authenticate(req.headers);
+  if (!context) {
+    res.status(401).json({ error: "Authentication required", code: "unauthorized" });
+    return;
+  }
+  req.auth = context;
+  next();
+});
+
+app.use("/api", (req: Request, res: Response, next) => {
+  try {
+    req.backend = backends.get(req.backendName);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Requests must match the OpenAPI document (openapi.ts) before any route sees them
+app.use("/api", (req: Request, res: Response, next) => {
+  try {
+    validateRequest(req.method, req.baseUrl + req.path, req);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Route guard backed by the same action table the WebSocket handler checks
+function permit(action: AgentAction, folderOf?: (req: Request) => string | undefined): express.RequestHandler {
+  return (req, res, next) => {
+    try {
+      assertAllowed(req.auth!.user.role, action, folderScope(folderOf?.(req)));
+      next();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
 
-// WebSocket clients for real-time updates
-const wsClients = new Set<WebSocket>();
+// Actions that only read; every other WebSocket action is recorded in the audit log
+const UNAUDITED_ACTIONS = new Set<string>([
+  "hello",
+  "list_backends",
+  "list_files",
+  "list_images",
+  "list_videos",
+  "get_tree",
+  "download",
+  "get_info",
+  "get_tools",
+  "search",
+  "get_queue_status",
+  "check_ticket",
+  "get_download_queue_status",
+  "subscribe",
+  "unsubscribe",
+  "get_active_streams",
+  "get_stream_health",
+  "list_recordings",
+  "list_recording_schedules",
+  "list_stream_presets",
+] satisfies ActionName[]);
+
+// WebSocket clients for real-time updates, keyed to the identity they authenticated as
+const wsClients = new Map<WebSocket, AuthContext>();
+// The same sockets by the id each is told on connect, so an HTTP request can name the socket to report to
+const socketsById = new Map<string, WebSocket>();
+// Watch topics each socket subscribed to, by backend name
+const subscriptions = new Map<WebSocket, Map<string, Set<WatchTopic>>>();
+
+// The read action a subscriber to each topic needs
+const TOPIC_ACTIONS: Record<WatchTopic, AgentAction> = {
+  queue: "get_queue_status",
+  downloads: "get_download_queue_status",
+  streams: "get_active_streams",
+};
+
+// Authenticate the upgrade itself so anonymous sockets never join the broadcast set
+server.on("upgrade", (req, socket, head) => {
+  const context = auth.authenticate(req.headers);
+  if (!context) {
+    socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, context, req));
+});
+
+// Drop sockets whose session was signed out or whose token was revoked
+auth.on("revoked", (credentialId: string) => {
+  wsClients.forEach((context, client) => {
+    if (context.credential.id === credentialId) client.close(4001, "Credential revoked");
+  });
+});
 
-wss.on("connection", (ws) => {
-  console.log("[WebSocket] Client connected");
-  wsClients.add(ws);
+wss.on("connection", (ws: WebSocket, context: AuthContext, req: IncomingMessage) => {
+  console.log(`[WebSocket] Client connected (${context.user.username})`);
+  const socketId = randomUUID();
+  const ip = req.socket.remoteAddress ?? "";
+  wsClients.set(ws, context);
+  socketsById.set(socketId, ws);
 
   ws.on("close", () => {
     console.log("[WebSocket] Client disconnected");
     wsClients.delete(ws);
+    socketsById.delete(socketId);
+    subscriptions.get(ws)?.forEach((topics, name) => topics.forEach((topic) => backends.get(name).stateWatcher.release(topic)));
+    subscriptions.delete(ws);
   });
 
   ws.on("message", async (data) => {
+    let message: unknown;
     try {
-      const message = JSON.parse(data.toString());
-      await handleAgentMessage(ws, message);
-    } catch (error) {
-      ws.send(JSON.stringify({ type: "error", message: "Invalid message format" }));
+      message = JSON.parse(data.toString());
+    } catch {
+      ws.send(JSON.stringify({ type: "error", code: "invalid_message", message: "Messages must be JSON" }));
+      return;
     }
+    await handleAgentMessage(ws, context, message, ip);
   });
 
-  // Send connection status
-  ws.send(JSON.stringify({ type: "status", connected: mcpClient.isConnected() }));
+  // Send the socket's id and every backend's connection status
+  ws.send(JSON.stringify({ type: "connected", socketId, protocol: PROTOCOL_VERSION }));
+  backends.all().forEach((backend) => ws.send(JSON.stringify({ type: "status", backend: backend.name, ...backend.client.getStatus() })));
 });
 
-// Broadcast to all WebSocket clients
-function broadcast(message: object): void {
+function watchBackend(backend: Backend): void {
+  // Relay supervisor state changes (connected, reconnecting, gave up) to every client
+  backend.client.on("status", (status) => {
+    broadcast({ type: "status", backend: backend.name, ...status });
+
+    // Anything may have changed while we were away, so re-index from a full listing
+    if (status.state === "connected") {
+      backend.searchIndex.rebuild().catch((error) => console.error(`[Search] Could not build index of ${backend.name}:`, (error as Error).message));
+      void backend.presets.autoStart();
+    }
+  });
+
+  // Recordings and schedules report each transition; a finished recording is a new file
+  backend.recordings.on("update", (update: RecordingUpdate) => {
+    broadcast({ type: "stream_update", backend: backend.name, ...update }, update.folder ? [update.folder] : []);
+    if (update.action === "record_finished") notifyFileChanged(backend, "upload", update.filename!, update.folder as StoragePath);
+  });
+
+  // Preset changes, and the streams presets start or stop (a rotated or revoked ingest key stops its stream)
+  backend.presets.on("update", (update: PresetUpdate) => {
+    broadcast({ type: "stream_preset", backend: backend.name, ...update });
+    if (update.action === "start") broadcast({ type: "stream_update", backend: backend.name, action: "start", source: update.preset.source, streamId: update.streamId });
+    else if (update.streamId) broadcast({ type: "stream_update", backend: backend.name, action: "stop", streamId: update.streamId });
+  });
+
+  // Stream state changes from the health checks, including automatic restarts
+  backend.streams.on("update", (update: StreamHealthUpdate) => {
+    broadcast({ type: "stream_health", backend: backend.name, ...update });
+  });
+
+  // Push watcher deltas to the sockets subscribed to that topic on this backend
+  backend.stateWatcher.on("delta", (topic: WatchTopic, changes: unknown[]) => {
+    const data = JSON.stringify({ type: "state_delta", backend: backend.name, topic, changes });
+    subscriptions.forEach((byBackend, client) => {
+      if (byBackend.get(backend.name)?.has(topic) && client.readyState === WebSocket.OPEN) client.send(data);
+    });
+  });
+}
+
+// Broadcast to all WebSocket clients; an event naming folders only goes to those who may read every one of them
+function broadcast(message: object, folders: string[] = []): void {
   const data = JSON.stringify(message);
-  wsClients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+  wsClients.forEach((context, client) => {
+    if (client.readyState === WebSocket.OPEN && canRead(context, folders)) {
       client.send(data);
     }
   });
 }
 
+// Checked against the account as it is now, so a role change applies to open sockets at once
+function canRead(context: AuthContext, folders: string[]): boolean {
+  if (folders.length === 0) return true;
+  const role = auth.getUser(context.user.id)?.role;
+  if (role === undefined) return false;
+  try {
+    return folders.every((folder) => isAllowed(role, "download", folderScope(folder)));
+  } catch {
+    return false; // not a path the storage server would have acted on
+  }
+}
+
+// Folder an action operates on, for folder-scoped grants
+function actionFolder(action: string, payload: unknown): string | undefined {
+  const { filename, type, folder, parentFolder, path, to } = (payload ?? {}) as Record<string, string | undefined>;
+  if (action === "upload") return folderForUpload(filename || "", type);
+  // Moves and copies are checked against where the file ends up; transferFile checks the source
+  if (action === "move_file" || action === "copy_file") return to ?? folder;
+  // Presets are checked against their recording target
+  if (action === "create_stream_preset" || action === "update_stream_preset") return (payload as { record?: { folder?: string } }).record?.folder;
+  return folder ?? parentFolder ?? path;
+}
+
+type FileChangeAction = "upload" | "delete" | "create_directory" | "move" | "rename" | "copy" | "tag";
+
+// `filename`/`folder` are where the file is now; moves, renames and copies also carry where it came from
+interface FileChange {
+  backend: Backend;
+  action: FileChangeAction;
+  filename: string;
+  folder: StoragePath;
+  from?: FileLocation;
+  fromBackend?: Backend; // set when `from` is on another backend
+  tags?: string[];
+}
+
+// Receives each change an operation makes; batches collect them instead of broadcasting one by one
+type ChangeSink = (change: FileChange) => void;
+
+function changeEvent({ backend, action, filename, folder, from, fromBackend, tags }: FileChange): object {
+  if (action === "tag") return { type: "tags_changed", backend: backend.name, filename, folder, tags };
+  return {
+    type: "file_changed",
+    backend: backend.name,
+    action,
+    filename,
+    folder,
+    ...(from && { from, to: { folder, filename } }),
+    ...(fromBackend && { fromBackend: fromBackend.name }),
+  };
+}
+
+// The folders a change event reveals: where the file is, and where it came from
+function changeFolders({ folder, from }: FileChange): string[] {
+  return from ? [folder, from.folder] : [folder];
+}
+
+// Announce a storage change to clients and keep derived caches in step with it
+function announce(change: FileChange): void {
+  applyFileChange(change);
+  broadcast(changeEvent(change), changeFolders(change));
+}
+
+function notifyFileChanged(backend: Backend, action: FileChangeAction, filename: string, folder: StoragePath, from?: FileLocation): void {
+  announce({ backend, action, filename, folder, from });
+}
+
+function applyFileChange({ backend, action, filename, folder, from, fromBackend }: FileChange): void {
+  // Tags are already in the index by the time their change is announced
+  if (action === "tag") return;
+
+  const { thumbnails, searchIndex } = backend;
+
+  if (action === "delete") {
+    thumbnails.purge(folder, filename).catch(() => undefined);
+  } else if (action !== "create_directory") {
+    // The destination may have been overwritten, so drop old renders before warming the new one
+    thumbnails.purge(folder, filename).then(() => thumbnails.warm(folder, filename), () => undefined);
+  }
+  if (from && action !== "copy") {
+    thumbnails.purge(from.folder, from.filename).catch(() => undefined);
+  }
+
+  // A copy from another backend has no source in this backend's index; transferFile carried its tags over
+  searchIndex.apply(action, filename, folder, fromBackend ? undefined : from).catch((error) => {
+    console.error(`[Search] Could not index ${folder}/${filename}:`, (error as Error).message);
+  });
+}
+
+// Search shared by /api/search and the search action; hits in folders the role can't read are left out
+function searchFiles(backend: Backend, role: Role, params: Record<string, unknown>): SearchResult {
+  const limit = params.limit === undefined ? 50 : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    throw new ListQueryError("limit must be an integer between 1 and 500");
+  }
+  return backend.searchIndex.search(String(params.q ?? ""), limit, (file) => isAllowed(role, "download", file.folder));
+}
+
+async function setTags(
+  backend: Backend,
+  filename: string,
+  folder: StoragePath,
+  tags: unknown,
+  onChange: ChangeSink = announce
+): Promise<string[]> {
+  if (!Array.isArray(tags)) throw new ListQueryError("tags must be an array of strings");
+  const saved = await backend.searchIndex.setTags(folder, filename, tags);
+  onChange({ backend, action: "tag", filename, folder, tags: saved });
+  return saved;
+}
+
+/**
+ * Listing shared by /api/files|images|videos and the list_* actions. With any of
+ * limit/cursor/sort/order/type/q it returns a FilePage; otherwise the raw MCP shape.
+ */
+async function listFolder(backend: Backend, kind: "files" | "images" | "videos", params: Record<string, unknown>): Promise<unknown> {
+  const { client } = backend;
+  const paged = wantsPage(params);
+  const query = paged ? parseListQuery(params) : undefined;
+  const folder = !params.folder || params.folder === "all" ? "all" : parseStoragePath(params.folder);
+
+  const listings =
+    kind === "images"
+      ? [await client.listImages()]
+      : kind === "videos"
+        ? [await client.listVideos()]
+        : await client.listFiles(folder);
+
+  if (!query) return kind === "files" ? listings : listings[0];
+  const listed = kind === "images" ? parseStoragePath("IMAGES") : kind === "videos" ? parseStoragePath("VIDEOS") : folder;
+  return paginate(flattenListings(listings, listed), query);
+}
+
+/**
+ * Move, rename or copy shared by the REST routes and the *_file actions.
+ * Route guards already checked `write` on the destination; taking a file out
+ * of another folder also needs `delete` there, replacing one needs `delete`
+ * at the destination, and copying needs `read` on the source. A copy with
+ * `toBackend` lands on that backend instead, tags and all.
+ */
+async function transferFile(
+  backend: Backend,
+  role: Role,
+  kind: "move" | "rename" | "copy",
+  params: Record<string, unknown>,
+  onChange: ChangeSink = announce
+): Promise<TransferResult> {
+  const from: FileLocation = { folder: parseStoragePath(params.folder), filename: String(params.filename ?? "") };
+  const to: FileLocation = {
+    folder: kind === "rename" ? from.folder : parseStoragePath(params.to ?? from.folder),
+    filename: String(params.newName ?? (kind === "rename" ? "" : from.filename)),
+  };
+
+  const onConflict = (params.onConflict ?? "fail") as ConflictPolicy;
+  if (!CONFLICT_POLICIES.includes(onConflict)) {
+    throw new ListQueryError(`onConflict must be one of ${CONFLICT_POLICIES.join(", ")}`);
+  }
+
+  if (kind === "copy") assertAllowed(role, "download", from.folder);
+  if (kind === "move" && to.folder !== from.folder) assertAllowed(role, "delete", from.folder);
+  if (onConflict === "overwrite") assertAllowed(role, "delete", to.folder);
+
+  const target = kind === "copy" && params.toBackend !== undefined ? backends.get(String(params.toBackend)) : backend;
+  if (target !== backend) {
+    const result = await copyBetween(backend, target, from, to, onConflict);
+    await target.searchIndex.setTags(result.to.folder, result.to.filename, backend.searchIndex.getTags(from.folder, from.filename));
+    onChange({ backend: target, action: "copy", filename: result.to.filename, folder: result.to.folder, from: result.from, fromBackend: backend });
+    return result;
+  }
+
+  const { client } = backend;
+  const result =
+    kind === "copy"
+      ? await client.copyFile(from, to, onConflict)
+      : kind === "rename"
+        ? await client.renameFile(from.folder, from.filename, to.filename, onConflict)
+        : await client.moveFile(from, to, onConflict);
+
+  onChange({ backend, action: kind, filename: result.to.filename, folder: result.to.folder, from: result.from });
+  return result;
+}
+
+/**
+ * Batch shared by /api/batch and the batch action. Each item is checked
+ * against the caller's role on its own, and all resulting changes go out as
+ * one `file_changed` event with action "batch" once the batch is done.
+ */
+async function runBatchOperations(backend: Backend, role: Role, body: unknown): Promise<BatchResult> {
+  const operations = parseBatch(body);
+  const changes: FileChange[] = [];
+  const collect: ChangeSink = (change) => {
+    applyFileChange(change);
+    changes.push(change);
+  };
+
+  const result = await runBatch(operations, async (operation) => {
+    const folder = parseStoragePath(operation.folder);
+    switch (operation.op) {
+      case "delete":
+        assertAllowed(role, "delete", folder);
+        await backend.client.deleteFile(operation.filename, folder);
+        collect({ backend, action: "delete", filename: operation.filename, folder });
+        return undefined;
+      case "move":
+      case "copy":
+        assertAllowed(role, `${operation.op}_file`, folderScope(operation.to ?? operation.folder));
+        return transferFile(backend, role, operation.op, { ...operation }, collect);
+      case "tag":
+        assertAllowed(role, "set_tags", folder);
+        return { tags: await setTags(backend, operation.filename, folder, operation.tags, collect) };
+    }
+  });
+
+  // Each socket hears about the changes in folders it may read
+  wsClients.forEach((context, client) => {
+    const visible = changes.filter((change) => canRead(context, changeFolders(change)));
+    if (visible.length > 0 && client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ type: "file_changed", backend: backend.name, action: "batch", changes: visible.map(changeEvent) }));
+    }
+  });
+  return result;
+}
+
+/**
+ * Run `transfer` inside one of the MCP server's download slots, so it counts
+ * against maxConcurrent. The request simply stays open while the ticket is
+ * queued; if it names one of the caller's sockets (`?socket=`, the id from the
+ * socket's `connected` message) that socket gets a `download_ticket` event
+ * whenever the position or ETA moves, when the slot is granted and when it is
+ * released.
+ */
+async function inDownloadSlot(
+  req: Request,
+  res: Response,
+  filename: string,
+  folder: StoragePath | undefined,
+  transfer: () => Promise<void>
+): Promise<void> {
+  const notify = ticketNotifier(req, filename, folder);
+  const gone = new AbortController();
+  res.on("close", () => gone.abort());
+
+  let ticketId: string | undefined;
+  let last = "";
+  let outcome = "released";
+  try {
+    await withDownloadTicket(req.backend!.client, filename, folder, transfer, {
+      signal: gone.signal,
+      onUpdate: (ticket) => {
+        ticketId = ticket.ticketId;
+        const update = { ticketId, status: ticket.status, position: ticket.position, waitTime: ticket.waitTime };
+        if (JSON.stringify(update) === last) return;
+        last = JSON.stringify(update);
+        notify(update);
+      },
+    });
+  } catch (error) {
+    if (error instanceof TicketExpiredError) outcome = "expired";
+    throw error;
+  } finally {
+    if (ticketId) notify({ ticketId, status: outcome });
+  }
+}
+
+/**
+ * Run an archive `transfer` in one of the agent's archive slots. The socket named
+ * by `?socket=` gets the same download_ticket events as a queued file download,
+ * under an agent-side ticket id that /api/queue/ticket doesn't know.
+ */
+async function inArchiveSlot(
+  req: Request,
+  res: Response,
+  filename: string,
+  folder: StoragePath | undefined,
+  transfer: () => Promise<void>
+): Promise<void> {
+  const notify = ticketNotifier(req, filename, folder);
+  const gone = new AbortController();
+  res.on("close", () => gone.abort());
+
+  const ticketId = `archive-${randomUUID()}`;
+  try {
+    await archiveQueue.run(
+      () => {
+        notify({ ticketId, status: "granted" });
+        return transfer();
+      },
+      { signal: gone.signal, onQueued: (position) => notify({ ticketId, status: "queued", position }) }
+    );
+  } finally {
+    notify({ ticketId, status: "released" });
+  }
+}
+
+// Sends download_ticket events for `filename` to the socket named by `?socket=`, if any
+function ticketNotifier(req: Request, filename: string, folder: StoragePath | undefined): (event: object) => void {
+  const socket = requestSocket(req);
+  return (event) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "download_ticket", filename, folder, ...event }));
+  };
+}
+
+// The caller's own socket named by `?socket=`; ids of other users' sockets are ignored
+function requestSocket(req: Request): WebSocket | undefined {
+  const socket = typeof req.query.socket === "string" ? socketsById.get(req.query.socket) : undefined;
+  return socket && wsClients.get(socket)?.user.id === req.auth!.user.id ? socket : undefined;
+}
+
+/**
+ * Stream an archive as an attachment. Archives past ARCHIVE_QUEUE_THRESHOLD
+ * wait for a slot in the agent's archive queue first.
+ */
+async function sendArchive(
+  req: Request,
+  res: Response,
+  entries: ArchiveEntry[],
+  basename: string,
+  format: ArchiveFormat,
+  folder?: StoragePath
+): Promise<void> {
+  const role = req.auth!.user.role;
+  for (const entryFolder of new Set(entries.map((entry) => entry.folder))) {
+    assertAllowed(role, "download", entryFolder);
+  }
+
+  const filename = archiveFilename(basename, format);
+  const send = () => {
+    res.attachment(filename);
+    return writeArchive(req.backend!.client, entries, format, res);
+  };
+
+  if (archiveSize(entries) < ARCHIVE_QUEUE_THRESHOLD) {
+    await send();
+    return;
+  }
+  await inArchiveSlot(req, res, filename, folder, send);
+}
+
+function archiveFailed(res: Response, error: unknown): void {
+  if (res.headersSent || res.destroyed) {
+    // Mid-stream failure or the client left: all we can do is cut the connection
+    console.error("[Agent] Archive stream failed:", (error as Error).message);
+    res.destroy();
+    return;
+  }
+  sendError(res, error);
+}
+
+/**
+ * Add watch topics for a socket. Each one is answered with a `state_snapshot`
+ * of its current state, which the `state_delta` events that follow apply to;
+ * re-subscribing just sends a fresh snapshot. Topics are per backend.
+ */
+async function subscribe(ws: WebSocket, backend: Backend, role: Role, payload: unknown): Promise<WatchTopic[]> {
+  const topics = parseTopics((payload as { topics?: unknown } | undefined)?.topics);
+  topics.forEach((topic) => assertAllowed(role, TOPIC_ACTIONS[topic]));
+
+  const { stateWatcher } = backend;
+  const current = socketTopics(ws, backend);
+  for (const topic of topics) {
+    const state = await stateWatcher.retain(topic);
+    if (ws.readyState !== WebSocket.OPEN) {
+      // Closed while we were reading: its close handler has already let go of the rest
+      stateWatcher.release(topic);
+      break;
+    }
+    // Only a socket's first subscription to a topic keeps it watched; repeats just get the snapshot
+    if (current.has(topic)) stateWatcher.release(topic);
+    current.add(topic);
+    ws.send(JSON.stringify({ type: "state_snapshot", backend: backend.name, topic, state }));
+  }
+  return [...current];
+}
+
+function unsubscribe(ws: WebSocket, backend: Backend, payload: unknown): WatchTopic[] {
+  const topics = parseTopics((payload as { topics?: unknown } | undefined)?.topics);
+  const current = socketTopics(ws, backend);
+  for (const topic of topics) {
+    if (current.delete(topic)) backend.stateWatcher.release(topic);
+  }
+  return [...current];
+}
+
+function socketTopics(ws: WebSocket, backend: Backend): Set<WatchTopic> {
+  const byBackend = subscriptions.get(ws) ?? new Map<string, Set<WatchTopic>>();
+  subscriptions.set(ws, byBackend);
+  const topics = byBackend.get(backend.name) ?? new Set<WatchTopic>();
+  byBackend.set(backend.name, topics);
+  return topics;
+}
+
+// Tree shared by /api/tree and the get_tree action
+async function folderTree(backend: Backend, params: Record<string, unknown>): Promise<unknown> {
+  const depth = params.depth === undefined ? 1 : Number(params.depth);
+  if (!Number.isInteger(depth) || depth < 0 || depth > MAX_TREE_DEPTH) {
+    throw new ListQueryError(`depth must be an integer between 0 and ${MAX_TREE_DEPTH}`);
+  }
+  return readTree(backend.client, parseStoragePath(params.path), depth);
+}
+
 // Handle agent messages via WebSocket
-async function handleAgentMessage(ws: WebSocket, message: { action: string; payload?: unknown }): Promise<void> {
-  const { action, payload } = message;
+async function handleAgentMessage(ws: WebSocket, context: AuthContext, message: unknown, ip: string): Promise<void> {
+  const id = requestId(message);
+  const action = typeof (message as { action?: unknown } | null)?.action === "string" ? (message as { action: string }).action : undefined;
+  const { backend: backendName, payload } = (message ?? {}) as { backend?: string; payload?: Record<string, unknown> };
+  let target: string | undefined; // set by an action whose payload doesn't name what it changed
+  const record = (error?: unknown) => {
+    if (!action || UNAUDITED_ACTIONS.has(action)) return;
+    audit.record({
+      actor: context.user.username,
+      ip,
+      via: "websocket",
+      action,
+      backend: typeof backendName === "string" ? backendName : backends.get().name,
+      target: target ?? auditTarget(payload ?? {}),
+      result: error === undefined ? "ok" : "error",
+      ...(error !== undefined && { error: describeError(error).message }),
+    });
+  };
 
   try {
+    // Re-read the account so role changes and deletions apply to open sockets too
+    const user = auth.getUser(context.user.id);
+    if (!user) {
+      ws.close(4001, "Account removed");
+      return;
+    }
+    const request = parseRequest(message);
+    assertAllowed(user.role, request.action, folderScope(actionFolder(request.action, request.payload)));
+    const backend = backends.get(request.backend);
+    const { client } = backend;
+
     let result: unknown;
 
-    switch (action) {
+    switch (request.action) {
+      case "hello":
+        result = helloResult(user);
+        break;
+
       case "connect":
-        await mcpClient.connect();
+        await client.connect();
         result = { success: true };
-        broadcast({ type: "status", connected: true });
+        break;
+
+      case "list_backends":
+        result = backends.all().map((each) => each.summary());
         break;
 
       case "list_files":
-        result = await mcpClient.listFiles((payload as { folder?: string })?.folder as "IMAGES" | "VIDEOS" | "root" | "all");
+        result = await listFolder(backend, "files", request.payload);
         break;
 
       case "list_images":
-        result = await mcpClient.listImages();
+        result = await listFolder(backend, "images", request.payload);
         break;
 
       case "list_videos":
-        result = await mcpClient.listVideos();
+        result = await listFolder(backend, "videos", request.payload);
+        break;
+
+      case "get_tree":
+        result = await folderTree(backend, request.payload);
         break;
 
-      case "upload":
-        const { filename, content, type } = payload as { filename: string; content: string; type?: string };
+      case "upload": {
+        const { filename, content, type } = request.payload;
         if (type === "image") {
-          result = await mcpClient.uploadImage(filename, content);
+          result = await client.uploadImage(filename, content);
         } else if (type === "video") {
-          result = await mcpClient.uploadVideo(filename, content);
+          result = await client.uploadVideo(filename, content);
         } else {
-          result = await mcpClient.uploadFile(filename, content, "base64");
+          result = await client.uploadFile(filename, content, "base64");
         }
-        broadcast({ type: "file_changed", action: "upload", filename });
+        notifyFileChanged(backend, "upload", filename, folderForUpload(filename, type));
+        target = `${folderForUpload(filename, type)}/${filename}`;
         break;
+      }
 
       case "download":
-        const { filename: dlFilename, folder } = payload as { filename: string; folder?: string };
-        result = await mcpClient.downloadFile(dlFilename, folder as "IMAGES" | "VIDEOS" | "root");
+        result = await client.downloadFile(request.payload.filename, parseStoragePath(request.payload.folder));
         break;
 
-      case "delete":
-        const { filename: delFilename, folder: delFolder } = payload as { filename: string; folder?: string };
-        result = await mcpClient.deleteFile(delFilename, delFolder as "IMAGES" | "VIDEOS" | "root");
-        broadcast({ type: "file_changed", action: "delete", filename: delFilename });
+      case "delete": {
+        const { filename, folder } = request.payload;
+        const deletedFrom = parseStoragePath(folder);
+        result = await client.deleteFile(filename, deletedFrom);
+        notifyFileChanged(backend, "delete", filename, deletedFrom);
+        break;
+      }
+
+      case "move_file":
+        result = await transferFile(backend, user.role, "move", request.payload);
+        break;
+
+      case "rename_file":
+        result = await transferFile(backend, user.role, "rename", request.payload);
+        break;
+
+      case "copy_file":
+        result = await transferFile(backend, user.role, "copy", request.payload);
+        break;
+
+      case "batch":
+        result = await runBatchOperations(backend, user.role, request.payload);
         break;
 
       case "get_info":
-        const { filename: infoFilename, folder: infoFolder } = payload as { filename: string; folder?: string };
-        result = await mcpClient.getFileInfo(infoFilename, infoFolder as "IMAGES" | "VIDEOS" | "root");
+        result = await client.getFileInfo(request.payload.filename, parseStoragePath(request.payload.folder));
         break;
 
       case "get_tools":
-        result = await mcpClient.getTools();
+        result = await client.getTools();
+        break;
+
+      case "call_tool": {
+        const { name, arguments: args } = request.payload;
+        result = await client.invokeTool(name, args ?? {});
+        break;
+      }
+
+      case "search":
+        result = searchFiles(backend, user.role, request.payload);
+        break;
+
+      case "set_tags": {
+        const { filename, folder, tags } = request.payload;
+        result = { tags: await setTags(backend, filename, parseStoragePath(folder), tags) };
         break;
+      }
 
       // ═══════════════════════════════════════════════════════════════════════════
       // 🌀 BRANDYFICATION QUEUE & STREAMING ACTIONS
       // ═══════════════════════════════════════════════════════════════════════════
 
-      case "create_directory":
-        const { name: dirName, parentFolder } = payload as { name: string; parentFolder?: string };
-        result = await mcpClient.createDirectory(dirName, parentFolder as "IMAGES" | "VIDEOS" | "root");
-        broadcast({ type: "file_changed", action: "create_directory", filename: dirName });
+      case "create_directory": {
+        const { name, parentFolder } = request.payload;
+        const parentPath = parseStoragePath(parentFolder);
+        result = await client.createDirectory(name, parentPath);
+        notifyFileChanged(backend, "create_directory", name, parentPath);
         break;
+      }
 
       case "get_queue_status":
-        result = await mcpClient.getQueueStatus();
+        result = await client.getQueueStatus();
         break;
 
-      case "join_download_queue":
-        const { filename: queueFilename, folder: queueFolder } = payload as { filename: string; folder?: string };
-        result = await mcpClient.joinDownloadQueue(queueFilename, queueFolder as "IMAGES" | "VIDEOS" | "root");
-        broadcast({ type: "queue_update", action: "join", filename: queueFilename });
+      case "join_download_queue": {
+        const { filename, folder } = request.payload;
+        result = await client.joinDownloadQueue(filename, parseStoragePath(folder));
+        broadcast({ type: "queue_update", backend: backend.name, action: "join", filename });
         break;
+      }
 
       case "check_ticket":
-        const { ticketId } = payload as { ticketId: string };
-        result = await mcpClient.checkTicket(ticketId);
+        result = await client.checkTicket(request.payload.ticketId);
         break;
 
       case "get_download_queue_status":
-        result = await mcpClient.getDownloadQueueStatus();
+        result = await client.getDownloadQueueStatus();
+        break;
+
+      case "subscribe":
+        result = { topics: await subscribe(ws, backend, user.role, request.payload) };
+        break;
+
+      case "unsubscribe":
+        result = { topics: unsubscribe(ws, backend, request.payload) };
         break;
 
       case "get_active_streams":
-        result = await mcpClient.getActiveStreams();
+        result = (await client.getActiveStreams()).map(publicStream);
+        break;
+
+      case "start_stream": {
+        const { source, type } = request.payload;
+        result = publicStream(await backend.streams.startStream(source, type));
+        broadcast({ type: "stream_update", backend: backend.name, action: "start", source: redactStreamUrl(source) });
+        break;
+      }
+
+      case "stop_stream": {
+        const { streamId } = request.payload;
+        result = await backend.streams.stopStream(streamId);
+        broadcast({ type: "stream_update", backend: backend.name, action: "stop", streamId });
+        break;
+      }
+
+      case "get_stream_health":
+        result = backend.streams.list();
+        break;
+
+      case "list_stream_presets":
+        result = backend.presets.list();
+        break;
+
+      case "create_stream_preset":
+        result = await backend.presets.create(request.payload);
+        break;
+
+      case "update_stream_preset": {
+        const { presetId, ...input } = request.payload;
+        result = await backend.presets.replace(presetId, input);
+        break;
+      }
+
+      case "delete_stream_preset":
+        await backend.presets.remove(request.payload.presetId);
+        result = { success: true };
+        break;
+
+      case "start_stream_preset":
+        result = await backend.presets.start(request.payload.presetId, { record: request.payload.record });
+        break;
+
+      case "rotate_ingest_key":
+        result = await backend.presets.rotateKey(request.payload.presetId);
+        break;
+
+      case "revoke_ingest_key":
+        result = await backend.presets.revokeKey(request.payload.presetId);
         break;
 
-      case "start_stream":
-        const { source, type: streamType } = payload as { source: string; type: "rtmp" | "rtsp" };
-        result = await mcpClient.startStream(source, streamType);
-        broadcast({ type: "stream_update", action: "start", source });
+      case "record_stream": {
+        const { streamId, ...options } = request.payload;
+        result = await backend.recordings.start(streamId, options);
+        break;
+      }
+
+      case "stop_recording":
+        result = await backend.recordings.stopRecording(request.payload.streamId);
+        break;
+
+      case "list_recordings":
+        result = backend.recordings.list();
+        break;
+
+      case "list_recording_schedules":
+        result = backend.recordings.schedulesList();
         break;
 
-      case "stop_stream":
-        const { streamId } = payload as { streamId: string };
-        result = await mcpClient.stopStream(streamId);
-        broadcast({ type: "stream_update", action: "stop", streamId });
+      case "schedule_recording":
+        result = await backend.recordings.addSchedule(request.payload);
         break;
 
-      default:
-        throw new Error(`Unknown action: ${action}`);
+      case "delete_recording_schedule":
+        await backend.recordings.removeSchedule(request.payload.scheduleId);
+        result = { success: true };
+        break;
     }
 
-    ws.send(JSON.stringify({ type: "response", action, result }));
+    record();
+    ws.send(JSON.stringify({ type: "response", id, action: request.action, result }));
   } catch (error) {
-    ws.send(JSON.stringify({ type: "error", action, message: (error as Error).message }));
+    record(error);
+    ws.send(JSON.stringify({ type: "error", id, action, ...wsError(error) }));
   }
 }
 
-// REST API Endpoints
-app.get("/api/status", (req: Request, res: Response) => {
-  res.json({ connected: mcpClient.isConnected() });
-});
+// Structured error for a WebSocket reply: the same code and details a REST caller gets
+function wsError(error: unknown): { code: ErrorCode; message: string; details?: unknown } {
+  const { code, message, details } = describeError(error);
+  // Upload session codes only come from the REST upload routes
+  return { code: (code as ErrorCode | undefined) ?? "internal_error", message, ...(details && { details }) };
+}
 
-app.post("/api/connect", async (req: Request, res: Response) => {
-  try {
-    await mcpClient.connect();
-    broadcast({ type: "status", connected: true });
-    res.json({ success: true });
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+// Handshake reply: protocol versions and what this user can do over the socket
+function helloResult(user: { username: string; role: Role }): HelloResult {
+  return {
+    protocol: PROTOCOL_VERSION,
+    versions: SUPPORTED_VERSIONS,
+    server: `brandyfication-agent/${AGENT_VERSION}`,
+    user: { username: user.username, role: user.role },
+    backends: backends.all().map((backend) => backend.summary()),
+    actions: (Object.keys(ACTION_SCHEMAS) as ActionName[]).filter((action) => isAllowedAnywhere(user.role, action)),
+    events: EVENT_TYPES,
+    topics: WATCH_TOPICS,
+  };
+}
+
+interface ErrorDescription {
+  status: number;
+  code?: ErrorCode | UploadSessionErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One mapping from errors to what callers see, shared by REST and WebSocket:
+ * the HTTP status, a stable code and any details that help recover (where a
+ * payload went wrong, the file in the way, the offset to resume from).
+ */
+function describeError(error: unknown, fallbackStatus = 500): ErrorDescription {
+  const message = (error as Error).message;
+  if (error instanceof ConflictError) {
+    return { status: error.status, code: error.code, message, ...(error.location && { details: { location: error.location } }) };
   }
-});
+  if (error instanceof PartialUploadError) {
+    const described = describeError(error.error, fallbackStatus);
+    return { ...described, details: { ...described.details, files: error.completed } };
+  }
+  if (error instanceof SchemaError) return { status: error.status, code: error.code, message, details: { path: error.path } };
+  if (error instanceof UploadSessionError) {
+    return { status: error.status, code: error.code, message, ...(error.offset !== undefined && { details: { offset: error.offset } }) };
+  }
+  if (
+    error instanceof MCPError ||
+    error instanceof ProtocolError ||
+    error instanceof ForbiddenError ||
+    error instanceof ListQueryError ||
+    error instanceof StoragePathError ||
+    error instanceof TicketExpiredError
+  ) {
+    return { status: error.status, code: error.code, message };
+  }
+  if (error instanceof AuthError || error instanceof ThumbnailError) return { status: error.status, message };
+  return { status: fallbackStatus, message };
+}
 
-app.get("/api/files", async (req: Request, res: Response) => {
+// Send a JSON error: { error, code?, ...details } with the status describeError picks
+function sendError(res: Response, error: unknown, status = 500): void {
+  const { status: statusCode, code, message, details } = describeError(error, status);
+  res.locals.auditError = message;
+  res.status(statusCode).json({ error: message, code, ...details });
+}
+
+// Authentication
+app.post("/api/auth/login", async (req: Request, res: Response) => {
   try {
-    const folder = (req.query.folder as string) || "all";
-    const result = await mcpClient.listFiles(folder as "IMAGES" | "VIDEOS" | "root" | "all");
-    res.json(result);
+    const { username, password } = req.body;
+    const { sessionId, user } = await auth.login(username, password);
+    res.cookie(SESSION_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: req.secure,
+      maxAge: SESSION_TTL_MS,
+    });
+    res.json({ success: true, user: { ...user, grants: grantsFor(user.role) } });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/images", async (req: Request, res: Response) => {
-  try {
-    const result = await mcpClient.listImages();
-    res.json(result);
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+app.post("/api/auth/logout", (req: Request, res: Response) => {
+  if (req.auth?.credential.kind === "session") {
+    auth.logout(req.auth.credential.id);
   }
+  res.clearCookie(SESSION_COOKIE);
+  res.json({ success: true });
 });
 
-app.get("/api/videos", async (req: Request, res: Response) => {
-  try {
-    const result = await mcpClient.listVideos();
-    res.json(result);
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
-  }
+app.get("/api/auth/me", (req: Request, res: Response) => {
+  res.json({ ...req.auth!.user, grants: grantsFor(req.auth!.user.role) });
 });
 
-app.get("/api/file/:folder/:filename", async (req: Request, res: Response) => {
+app.post("/api/auth/password", async (req: Request, res: Response) => {
   try {
-    const { folder, filename } = req.params;
-    const content = await mcpClient.downloadFile(filename, folder as "IMAGES" | "VIDEOS" | "root", "base64");
-    
-    // Determine MIME type
-    const ext = path.extname(filename).toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg",
-      ".gif": "image/gif", ".bmp": "image/bmp", ".webp": "image/webp",
-      ".svg": "image/svg+xml", ".ico": "image/x-icon", ".mp4": "video/mp4",
-      ".tiff": "image/tiff", ".avif": "image/avif", ".heic": "image/heic",
-    };
-    const mimeType = mimeTypes[ext] || "application/octet-stream";
-
-    const buffer = Buffer.from(content, "base64");
-    res.setHeader("Content-Type", mimeType);
-    res.setHeader("Content-Length", buffer.length);
-    res.send(buffer);
+    const { credential } = req.auth!;
+    await auth.changePassword(req.auth!.user.id, req.body.password, credential.kind === "session" ? credential.id : undefined);
+    res.json({ success: true });
   } catch (error) {
-    res.status(404).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.post("/api/upload", async (req: Request, res: Response) => {
-  try {
-    const { filename, content, type } = req.body;
-    let result: string;
-
-    if (type === "image") {
-      result = await mcpClient.uploadImage(filename, content);
-    } else if (type === "video") {
-      result = await mcpClient.uploadVideo(filename, content);
-    } else {
-      result = await mcpClient.uploadFile(filename, content, "base64");
-    }
-
-    broadcast({ type: "file_changed", action: "upload", filename });
-    res.json({ success: true, message: result });
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
-  }
+app.get("/api/auth/tokens", (req: Request, res: Response) => {
+  res.json(auth.listTokens(req.auth!.user.id));
 });
 
-app.delete("/api/file/:folder/:filename", async (req: Request, res: Response) => {
+app.post("/api/auth/tokens", async (req: Request, res: Response) => {
   try {
-    const { folder, filename } = req.params;
-    const result = await mcpClient.deleteFile(filename, folder as "IMAGES" | "VIDEOS" | "root");
-    broadcast({ type: "file_changed", action: "delete", filename });
-    res.json({ success: true, message: result });
+    const { token, info } = await auth.createToken(req.auth!.user.id, req.body.name);
+    res.status(201).json({ ...info, token });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/tools", async (req: Request, res: Response) => {
+app.delete("/api/auth/tokens/:tokenId", async (req: Request, res: Response) => {
   try {
-    const tools = await mcpClient.getTools();
-    res.json(tools);
+    await auth.revokeToken(req.auth!.user.id, req.params.tokenId);
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🌀 BRANDYFICATION QUEUE & STREAMING API ENDPOINTS
-// ═══════════════════════════════════════════════════════════════════════════════
+app.get("/api/auth/users", permit("manage_users"), (req: Request, res: Response) => {
+  res.json(auth.listUsers());
+});
 
-app.post("/api/directory", async (req: Request, res: Response) => {
+app.post("/api/auth/users", permit("manage_users"), async (req: Request, res: Response) => {
   try {
-    const { name, parentFolder } = req.body;
-    const result = await mcpClient.createDirectory(name, parentFolder);
-    broadcast({ type: "file_changed", action: "create_directory", filename: name });
-    res.json({ success: true, message: result });
+    const { username, password, role } = req.body;
+    const user = await auth.createUser(username, password, role);
+    res.status(201).json(user);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/queue", async (req: Request, res: Response) => {
+app.patch("/api/auth/users/:userId", permit("manage_users"), async (req: Request, res: Response) => {
   try {
-    const status = await mcpClient.getQueueStatus();
-    res.json(status);
+    res.json(await auth.setRole(req.params.userId, req.body.role));
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.post("/api/queue/join", async (req: Request, res: Response) => {
+app.delete("/api/auth/users/:userId", permit("manage_users"), async (req: Request, res: Response) => {
   try {
-    const { filename, folder } = req.body;
-    const ticket = await mcpClient.joinDownloadQueue(filename, folder);
-    broadcast({ type: "queue_update", action: "join", filename });
-    res.json(ticket);
+    await auth.deleteUser(req.params.userId);
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/queue/ticket/:ticketId", async (req: Request, res: Response) => {
+// Audit log: newest first, as JSON, or as a JSON Lines or CSV download
+app.get("/api/audit", permit("view_audit"), async (req: Request, res: Response) => {
   try {
-    const { ticketId } = req.params;
-    const status = await mcpClient.checkTicket(ticketId);
-    res.json(status);
+    const { action, actor, since, limit, format } = req.query as Record<string, string | undefined>;
+    const sinceDate = since ? new Date(since) : undefined;
+    if (sinceDate && Number.isNaN(sinceDate.getTime())) throw new SchemaError("must be an ISO 8601 date", "query.since");
+    const entries = await audit.query({ action, actor, since: sinceDate, limit: limit ? Number(limit) : undefined });
+
+    if (format === "jsonl" || format === "csv") {
+      res.attachment(`audit-${new Date().toISOString().slice(0, 10)}.${format}`);
+      res.type(format === "csv" ? "text/csv" : "application/x-ndjson");
+      res.send(format === "csv" ? toCsv(entries) : toJsonLines(entries));
+      return;
+    }
+    res.json(entries);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/queue/downloads", async (req: Request, res: Response) => {
+// REST API Endpoints
+app.get("/api/openapi.json", (req: Request, res: Response) => {
+  res.json(openApiDocument(AGENT_VERSION));
+});
+
+app.get("/api/status", permit("connect"), (req: Request, res: Response) => {
+  res.json(req.backend!.client.getStatus());
+});
+
+// Every configured backend with its connection status, for picking one
+app.get("/api/backends", permit("list_backends"), (req: Request, res: Response) => {
+  res.json(backends.all().map((backend) => backend.summary()));
+});
+
+app.post("/api/connect", permit("connect"), async (req: Request, res: Response) => {
   try {
-    const status = await mcpClient.getDownloadQueueStatus();
-    res.json(status);
+    await req.backend!.client.connect();
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.get("/api/streams", async (req: Request, res: Response) => {
+app.get("/api/files", permit("list_files", (req) => req.query.folder as string), async (req: Request, res: Response) => {
   try {
-    const streams = await mcpClient.getActiveStreams();
-    res.json(streams);
+    const result = await listFolder(req.backend!, "files", req.query);
+    res.json(result);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.post("/api/streams/start", async (req: Request, res: Response) => {
+app.get("/api/images", permit("list_images", () => "IMAGES"), async (req: Request, res: Response) => {
   try {
-    const { source, type } = req.body;
-    const stream = await mcpClient.startStream(source, type);
-    broadcast({ type: "stream_update", action: "start", source });
-    res.json(stream);
+    const result = await listFolder(req.backend!, "images", req.query);
+    res.json(result);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-app.post("/api/streams/:streamId/stop", async (req: Request, res: Response) => {
+app.get("/api/videos", permit("list_videos", () => "VIDEOS"), async (req: Request, res: Response) => {
   try {
-    const { streamId } = req.params;
-    const result = await mcpClient.stopStream(streamId);
-    broadcast({ type: "stream_update", action: "stop", streamId });
-    res.json({ success: true, message: result });
+    const result = await listFolder(req.backend!, "videos", req.query);
+    res.json(result);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    sendError(res, error);
   }
 });
 
-// Serve the frontend
-app.get("/", (req: Request, res: Response) => {
-  res.send(getFrontendHTML());
+// Directory tree for browsing, e.g. /api/tree?path=VIDEOS/shoot-1&depth=2
+app.get("/api/tree", permit("get_tree", (req) => req.query.path as string), async (req: Request, res: Response) => {
+  try {
+    res.json(await folderTree(req.backend!, req.query));
+  } catch (error) {
+    sendError(res, error);
+  }
 });
 
-// Frontend HTML
-function getFrontendHTML(): string {
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>BRANDYFICATION Agent</title>
-  <style>
-    :root {
-      --bg: #0a0a0f;
-      --bg-card: #12121a;
-      --bg-hover: #1a1a25;
-      --primary: #8b5cf6;
-      --primary-dark: #7c3aed;
-      --secondary: #06b6d4;
-      --text: #e2e8f0;
-      --text-muted: #64748b;
-      --border: #1e293b;
-      --success: #22c55e;
-      --error: #ef4444;
-      --warning: #f59e0b;
+app.get("/api/file/:folder/:filename", permit("download", (req) => req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const { filename } = req.params;
+    const fileFolder = parseStoragePath(req.params.folder);
+    const info = await req.backend!.client.getFileInfo(filename, fileFolder);
+    const etag = fileETag(info);
+    const lastModified = info.modified ? new Date(info.modified).toUTCString() : undefined;
+    // ?queued=1 waits for a download queue slot before any bytes are read
+    const transfer = (task: () => Promise<void>) =>
+      req.query.queued === "1" ? inDownloadSlot(req, res, filename, fileFolder, task) : task();
+
+    res.setHeader("Content-Type", info.mimeType || mimeTypeFor(filename));
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Cache-Control", "no-cache");
+    if (etag) res.setHeader("ETag", etag);
+    if (lastModified) res.setHeader("Last-Modified", lastModified);
+
+    if (isNotModified(req.headers, etag, info.modified)) {
+      res.status(304).end();
+      return;
     }
 
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-
-    body {
-      font-family: 'Segoe UI', system-ui, sans-serif;
-      background: var(--bg);
-      color: var(--text);
-      min-height: 100vh;
+    const size = info.size;
+    if (size === undefined) {
+      // Without a size we cannot range; fall back to a whole-file read
+      await transfer(async () => {
+        const buffer = Buffer.from(await req.backend!.client.downloadFile(filename, fileFolder, "base64"), "base64");
+        res.setHeader("Content-Length", buffer.length);
+        res.send(buffer);
+      });
+      return;
     }
 
-    .container { max-width: 1400px; margin: 0 auto; padding: 1.5rem; }
+    let start = 0;
+    let end = size - 1;
+    const range = rangeStillValid(req.headers, etag, info.modified) ? parseRange(req.headers.range, size) : undefined;
 
-    header {
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      padding: 1rem 0;
-      border-bottom: 1px solid var(--border);
-      margin-bottom: 1.5rem;
+    if (range === "unsatisfiable") {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      res.status(416).end();
+      return;
     }
-
-    .logo {
-      display: flex;
-      align-items: center;
-      gap: 0.75rem;
-      font-size: 1.5rem;
-      font-weight: 700;
-      background: linear-gradient(135deg, var(--primary), var(--secondary));
-      -webkit-background-clip: text;
-      -webkit-text-fill-color: transparent;
+    if (range) {
+      ({ start, end } = range);
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
     }
 
-    .status {
-      display: flex;
-      align-items: center;
-      gap: 0.5rem;
-      padding: 0.5rem 1rem;
-      border-radius: 9999px;
-      font-size: 0.875rem;
+    res.setHeader("Content-Length", size === 0 ? 0 : end - start + 1);
+    if (req.method === "HEAD" || size === 0) {
+      res.end();
+      return;
     }
 
-    .status.connected { background: rgba(34, 197, 94, 0.1); color: var(--success); }
-    .status.disconnected { background: rgba(239, 68, 68, 0.1); color: var(--error); }
-
-    .status-dot {
-      width: 8px;
-      height: 8px;
-      border-radius: 50%;
-      animation: pulse 2s infinite;
+    await transfer(() => pipeFileRange(req.backend!.client, filename, fileFolder, res, start, end));
+  } catch (error) {
+    if (res.headersSent || res.destroyed) {
+      // Mid-stream failure or the client left: all we can do is cut the connection
+      console.error("[Agent] File stream failed:", (error as Error).message);
+      res.destroy();
+      return;
     }
+    sendError(res, error);
+  }
+});
 
-    .status.connected .status-dot { background: var(--success); }
-    .status.disconnected .status-dot { background: var(--error); }
+// A whole folder (and everything below it) as one download: /api/archive?folder=VIDEOS/shoot-1&format=zip
+app.get("/api/archive", permit("download_archive", (req) => req.query.folder as string), async (req: Request, res: Response) => {
+  try {
+    const folder = parseStoragePath(req.query.folder);
+    const format = parseArchiveFormat(req.query.format);
+    const entries = await folderEntries(req.backend!.client, folder);
+    await sendArchive(req, res, entries, folder.split("/").pop()!, format, folder);
+  } catch (error) {
+    archiveFailed(res, error);
+  }
+});
 
-    @keyframes pulse {
-      0%, 100% { opacity: 1; }
-      50% { opacity: 0.5; }
-    }
+// A selection as one download: body { files: [{ folder, filename }], format?, name? }
+app.post("/api/archive", permit("download_archive"), async (req: Request, res: Response) => {
+  try {
+    const files = parseArchiveSelection(req.body);
+    const format = parseArchiveFormat(req.body.format);
+    const entries = await selectionEntries(req.backend!.client, files);
+    const name = typeof req.body.name === "string" ? req.body.name.replace(/[^\w .-]/g, "").trim() : "";
+    await sendArchive(req, res, entries, name || "selection", format);
+  } catch (error) {
+    archiveFailed(res, error);
+  }
+});
 
-    .toolbar {
-      display: flex;
-      gap: 1rem;
-      margin-bottom: 1.5rem;
-      flex-wrap: wrap;
+app.get("/api/thumb/:folder/:filename", permit("download", (req) => req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const { filename } = req.params;
+    const thumbnail = await req.backend!.thumbnails.get(parseStoragePath(req.params.folder), filename, thumbnailWidth(Number(req.query.w)));
+
+    res.setHeader("ETag", thumbnail.etag);
+    res.setHeader("Cache-Control", "private, no-cache");
+    if (isNotModified(req.headers, thumbnail.etag)) {
+      res.status(304).end();
+      return;
     }
+    res.type("image/webp").sendFile(thumbnail.file, { etag: false, lastModified: false, cacheControl: false });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .btn {
-      display: inline-flex;
-      align-items: center;
-      gap: 0.5rem;
-      padding: 0.625rem 1.25rem;
-      border-radius: 8px;
-      font-size: 0.875rem;
-      font-weight: 500;
-      cursor: pointer;
-      border: none;
-      transition: all 0.2s;
-    }
+app.post("/api/upload", permit("upload", (req) => folderForUpload(req.body.filename || "", req.body.type)), async (req: Request, res: Response) => {
+  try {
+    const { filename, content, type } = req.body;
+    let result: string;
 
-    .btn-primary {
-      background: var(--primary);
-      color: white;
+    if (type === "image") {
+      result = await req.backend!.client.uploadImage(filename, content);
+    } else if (type === "video") {
+      result = await req.backend!.client.uploadVideo(filename, content);
+    } else {
+      result = await req.backend!.client.uploadFile(filename, content, "base64");
     }
 
-    .btn-primary:hover { background: var(--primary-dark); }
+    notifyFileChanged(req.backend!, "upload", filename, folderForUpload(filename, type));
+    res.locals.auditTarget = `${folderForUpload(filename, type)}/${filename}`;
+    res.json({ success: true, message: result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .btn-secondary {
-      background: var(--bg-card);
-      color: var(--text);
-      border: 1px solid var(--border);
+// Streaming upload: multipart/form-data, or a raw body with ?filename=&type=&folder=
+app.post("/api/upload/stream", async (req: Request, res: Response) => {
+  try {
+    if (req.is("multipart/form-data")) {
+      const stored = (results: StreamUploadResult[]) => {
+        results.forEach((result) => notifyFileChanged(req.backend!, "upload", result.filename, result.folder));
+        res.locals.auditTarget = results.map((result) => `${result.folder}/${result.filename}`).join(", ");
+      };
+      try {
+        const results = await receiveMultipartUpload(req, req.backend!.client, (folder) =>
+          assertAllowed(req.auth!.user.role, "upload", folder)
+        );
+        stored(results);
+        res.json({ success: true, files: results });
+      } catch (error) {
+        // Files stored before the failure stay; announce them and list them in the error body
+        if (error instanceof PartialUploadError) stored(error.completed);
+        throw error;
+      }
+      return;
     }
 
-    .btn-secondary:hover { background: var(--bg-hover); }
-
-    .btn-secondary.active {
-      border-color: var(--primary);
-      color: var(--primary);
+    const filename = (req.query.filename as string) || req.header("x-filename");
+    if (!filename) {
+      res.status(400).json({ error: "filename is required" });
+      return;
     }
 
-    .tabs {
-      display: flex;
-      gap: 0.5rem;
-      margin-bottom: 1.5rem;
-      border-bottom: 1px solid var(--border);
-      padding-bottom: 0.5rem;
-    }
+    const folder = folderForUpload(filename, req.query.type as string, req.header("content-type"), req.query.folder);
+    assertAllowed(req.auth!.user.role, "upload", folder);
+    const result = await streamUpload(req.backend!.client, filename, folder, req);
+    notifyFileChanged(req.backend!, "upload", filename, folder);
+    res.json({ success: true, files: [result] });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .tab {
-      padding: 0.5rem 1rem;
-      border-radius: 6px;
-      cursor: pointer;
-      font-size: 0.875rem;
-      color: var(--text-muted);
-      transition: all 0.2s;
+// Resumable upload sessions: open → PUT chunks at the acknowledged offset → complete
+app.post("/api/uploads", permit("upload", (req) => folderForUpload(req.body.filename || "", req.body.type, req.body.mimeType, req.body.folder)), async (req: Request, res: Response) => {
+  try {
+    const { filename, type, mimeType, size } = req.body;
+    if (!filename) {
+      res.status(400).json({ error: "filename is required" });
+      return;
     }
+    const folder = folderForUpload(filename, type, mimeType, req.body.folder);
+    const session = await req.backend!.uploadSessions.open(filename, folder, typeof size === "number" ? size : undefined, req.auth!.user.id);
+    res.status(201).json(session);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .tab:hover { color: var(--text); background: var(--bg-card); }
-    .tab.active { color: var(--primary); background: rgba(139, 92, 246, 0.1); }
+app.get("/api/uploads/:id", (req: Request, res: Response) => {
+  try {
+    res.json(req.backend!.uploadSessions.get(req.params.id, req.auth!.user.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .grid {
-      display: grid;
-      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
-      gap: 1rem;
-    }
+// Chunks, completion and abort are checked against the folder the session was opened for
+const sessionFolder = (req: Request) => req.backend!.uploadSessions.get(req.params.id, req.auth!.user.id).folder;
 
-    .file-card {
-      background: var(--bg-card);
-      border: 1px solid var(--border);
-      border-radius: 12px;
-      overflow: hidden;
-      transition: all 0.2s;
-      cursor: pointer;
+app.put("/api/uploads/:id/chunk", permit("upload", sessionFolder), async (req: Request, res: Response) => {
+  try {
+    const offset = Number(req.query.offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      res.status(400).json({ error: "offset must be a non-negative integer" });
+      return;
     }
+    const length = req.header("content-length") ? Number(req.header("content-length")) : undefined;
+    const session = await req.backend!.uploadSessions.append(req.params.id, req.auth!.user.id, offset, req, length);
+    res.json(session);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-card:hover {
-      border-color: var(--primary);
-      transform: translateY(-2px);
-    }
+app.post("/api/uploads/:id/complete", permit("upload", sessionFolder), async (req: Request, res: Response) => {
+  try {
+    const { session, message } = await req.backend!.uploadSessions.complete(req.params.id, req.auth!.user.id, req.body?.checksum);
+    notifyFileChanged(req.backend!, "upload", session.filename, session.folder);
+    res.locals.auditTarget = `${session.folder}/${session.filename}`;
+    res.json({ success: true, message, filename: session.filename, folder: session.folder, bytes: session.offset });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-preview {
-      aspect-ratio: 16/10;
-      background: var(--bg);
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      overflow: hidden;
-    }
+app.delete("/api/uploads/:id", permit("upload", sessionFolder), async (req: Request, res: Response) => {
+  try {
+    await req.backend!.uploadSessions.abort(req.params.id, req.auth!.user.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-preview img, .file-preview video {
-      width: 100%;
-      height: 100%;
-      object-fit: cover;
-    }
+app.delete("/api/file/:folder/:filename", permit("delete", (req) => req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const { filename } = req.params;
+    const folder = parseStoragePath(req.params.folder);
+    const result = await req.backend!.client.deleteFile(filename, folder);
+    notifyFileChanged(req.backend!, "delete", filename, folder);
+    res.json({ success: true, message: result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-preview .placeholder {
-      font-size: 3rem;
-      opacity: 0.3;
-    }
+app.get("/api/tools", permit("get_tools"), async (req: Request, res: Response) => {
+  try {
+    const tools = await req.backend!.client.getTools();
+    res.json(tools);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-info {
-      padding: 0.75rem;
-    }
+// Any MCP tool by name: body { arguments }, checked against the tool's inputSchema
+app.post("/api/tools/:name/call", permit("call_tool"), async (req: Request, res: Response) => {
+  try {
+    res.json(await req.backend!.client.invokeTool(req.params.name, req.body.arguments ?? {}));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-name {
-      font-size: 0.875rem;
-      font-weight: 500;
-      white-space: nowrap;
-      overflow: hidden;
-      text-overflow: ellipsis;
-      margin-bottom: 0.25rem;
-    }
+// Server-side reorganizing: body { to?, newName?, onConflict?: "fail" | "overwrite" | "suffix" }
+app.post("/api/file/:folder/:filename/move", permit("move_file", (req) => req.body.to ?? req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const result = await transferFile(req.backend!, req.auth!.user.role, "move", { ...req.body, ...req.params });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    .file-meta {
-      font-size: 0.75rem;
-      color: var(--text-muted);
+app.post("/api/file/:folder/:filename/rename", permit("rename_file", (req) => req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const result = await transferFile(req.backend!, req.auth!.user.role, "rename", { ...req.body, ...req.params });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/file/:folder/:filename/copy", permit("copy_file", (req) => req.body.to ?? req.params.folder), async (req: Request, res: Response) => {
+  try {
+    const result = await transferFile(req.backend!, req.auth!.user.role, "copy", { ...req.body, ...req.params });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Many deletes/moves/copies/tags in one request: body { operations: [{ op, folder, filename, ... }] }
+app.post("/api/batch", permit("batch"), async (req: Request, res: Response) => {
+  try {
+    res.json(await runBatchOperations(req.backend!, req.auth!.user.role, req.body));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Search, e.g. /api/search?q=beach type:video size>100MB modified:<2026-01-01
+app.get("/api/search", permit("search"), (req: Request, res: Response) => {
+  try {
+    res.json(searchFiles(req.backend!, req.auth!.user.role, req.query));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/tags/:folder/:filename", permit("download", (req) => req.params.folder), (req: Request, res: Response) => {
+  try {
+    res.json({ tags: req.backend!.searchIndex.getTags(parseStoragePath(req.params.folder), req.params.filename) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.put("/api/tags/:folder/:filename", permit("set_tags", (req) => req.params.folder), async (req: Request, res: Response) => {
+  try {
+    res.json({ tags: await setTags(req.backend!, req.params.filename, parseStoragePath(req.params.folder), req.body.tags) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌀 BRANDYFICATION QUEUE & STREAMING API ENDPOINTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+app.post("/api/directory", permit("create_directory", (req) => req.body.parentFolder), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+    const parentFolder = parseStoragePath(req.body.parentFolder);
+    const result = await req.backend!.client.createDirectory(name, parentFolder);
+    notifyFileChanged(req.backend!, "create_directory", name, parentFolder);
+    res.json({ success: true, message: result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/queue", permit("get_queue_status"), async (req: Request, res: Response) => {
+  try {
+    const status = await req.backend!.client.getQueueStatus();
+    res.json(status);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/queue/join", permit("join_download_queue", (req) => req.body.folder), async (req: Request, res: Response) => {
+  try {
+    const { filename } = req.body;
+    const ticket = await req.backend!.client.joinDownloadQueue(filename, parseStoragePath(req.body.folder));
+    broadcast({ type: "queue_update", backend: req.backend!.name, action: "join", filename });
+    res.json(ticket);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/queue/ticket/:ticketId", permit("check_ticket"), async (req: Request, res: Response) => {
+  try {
+    const { ticketId } = req.params;
+    const status = await req.backend!.client.checkTicket(ticketId);
+    res.json(status);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/queue/downloads", permit("get_download_queue_status"), async (req: Request, res: Response) => {
+  try {
+    const status = await req.backend!.client.getDownloadQueueStatus();
+    res.json(status);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/streams", permit("get_active_streams"), async (req: Request, res: Response) => {
+  try {
+    const streams = await req.backend!.client.getActiveStreams();
+    res.json(streams.map(publicStream));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/streams/start", permit("start_stream"), async (req: Request, res: Response) => {
+  try {
+    const { source, type } = req.body;
+    const stream = await req.backend!.streams.startStream(source, type);
+    broadcast({ type: "stream_update", backend: req.backend!.name, action: "start", source: redactStreamUrl(source) });
+    res.json(publicStream(stream));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/streams/:streamId/stop", permit("stop_stream"), async (req: Request, res: Response) => {
+  try {
+    const { streamId } = req.params;
+    const result = await req.backend!.streams.stopStream(streamId);
+    broadcast({ type: "stream_update", backend: req.backend!.name, action: "stop", streamId });
+    res.json({ success: true, message: result });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/streams/health", permit("get_stream_health"), (req: Request, res: Response) => {
+  res.json(req.backend!.streams.list());
+});
+
+app.post("/api/streams/:streamId/record", permit("record_stream", (req) => req.body?.folder), async (req: Request, res: Response) => {
+  try {
+    const { folder, name } = req.body ?? {};
+    const recording = await req.backend!.recordings.start(req.params.streamId, { folder, name });
+    res.status(201).json(recording);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.delete("/api/streams/:streamId/record", permit("stop_recording"), async (req: Request, res: Response) => {
+  try {
+    res.json(await req.backend!.recordings.stopRecording(req.params.streamId));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/recordings", permit("list_recordings"), (req: Request, res: Response) => {
+  res.json(req.backend!.recordings.list());
+});
+
+app.get("/api/recording-schedules", permit("list_recording_schedules"), (req: Request, res: Response) => {
+  res.json(req.backend!.recordings.schedulesList());
+});
+
+app.post("/api/recording-schedules", permit("schedule_recording", (req) => req.body?.folder), async (req: Request, res: Response) => {
+  try {
+    const schedule = await req.backend!.recordings.addSchedule(ACTION_SCHEMAS.schedule_recording.parse(req.body, "body"));
+    res.status(201).json(schedule);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.delete("/api/recording-schedules/:scheduleId", permit("delete_recording_schedule"), async (req: Request, res: Response) => {
+  try {
+    await req.backend!.recordings.removeSchedule(req.params.scheduleId);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/stream-presets", permit("list_stream_presets"), (req: Request, res: Response) => {
+  res.json(req.backend!.presets.list());
+});
+
+app.post("/api/stream-presets", permit("create_stream_preset", (req) => req.body?.record?.folder), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await req.backend!.presets.create(ACTION_SCHEMAS.create_stream_preset.parse(req.body, "body")));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.put("/api/stream-presets/:presetId", permit("update_stream_preset", (req) => req.body?.record?.folder), async (req: Request, res: Response) => {
+  try {
+    res.json(await req.backend!.presets.replace(req.params.presetId, ACTION_SCHEMAS.create_stream_preset.parse(req.body, "body")));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.delete("/api/stream-presets/:presetId", permit("delete_stream_preset"), async (req: Request, res: Response) => {
+  try {
+    await req.backend!.presets.remove(req.params.presetId);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/stream-presets/:presetId/start", permit("start_stream_preset"), async (req: Request, res: Response) => {
+  try {
+    res.json(await req.backend!.presets.start(req.params.presetId, { record: req.body?.record }));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/stream-presets/:presetId/ingest-key", permit("rotate_ingest_key"), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await req.backend!.presets.rotateKey(req.params.presetId));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.delete("/api/stream-presets/:presetId/ingest-key", permit("revoke_ingest_key"), async (req: Request, res: Response) => {
+  try {
+    res.json(await req.backend!.presets.revokeKey(req.params.presetId));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// A live stream's HLS playlist and segments, relayed from the storage server: /api/streams/abc/hls/ is the playlist
+app.get("/api/streams/:streamId/hls/:path(*)", permit("watch_stream"), async (req: Request, res: Response) => {
+  try {
+    await req.backend!.hls.relay(req.params.streamId, req.params.path ?? "", req, res);
+  } catch (error) {
+    if (res.headersSent || res.destroyed) {
+      console.error("[Agent] HLS relay failed:", (error as Error).message);
+      res.destroy();
+      return;
+    }
+    sendError(res, error);
+  }
+});
+
+// Serve the frontend
+app.get("/", (req: Request, res: Response) => {
+  res.send(getFrontendHTML());
+});
+
+// Interactive API documentation; signs in through the frontend's session cookie
+app.get("/api-explorer", (req: Request, res: Response) => {
+  res.send(getExplorerHTML());
+});
+
+// hls.js for the stream player in browsers without native HLS, served from node_modules rather than a CDN
+const HLS_SCRIPT = (() => {
+  try {
+    return createRequire(import.meta.url).resolve("hls.js/dist/hls.min.js");
+  } catch {
+    return undefined;
+  }
+})();
+
+app.get("/vendor/hls.min.js", (req: Request, res: Response) => {
+  if (!HLS_SCRIPT) {
+    res.status(404).end();
+    return;
+  }
+  res.sendFile(HLS_SCRIPT, { maxAge: "7d" });
+});
+
+// Every /api route Express knows, for checking against the OpenAPI document
+function registeredRoutes(): { method: string; path: string }[] {
+  const stack = (app._router?.stack ?? []) as { route?: { path: string; methods: Record<string, boolean> } }[];
+  return stack.flatMap(({ route }) =>
+    route && route.path.startsWith("/api/")
+      ? Object.keys(route.methods).filter((method) => method !== "_all").map((method) => ({ method, path: route.path }))
+      : []
+  );
+}
+
+// Frontend HTML
+function getFrontendHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>BRANDYFICATION Agent</title>
+  <style>
+    :root {
+      --bg: #0a0a0f;
+      --bg-card: #12121a;
+      --bg-hover: #1a1a25;
+      --primary: #8b5cf6;
+      --primary-dark: #7c3aed;
+      --secondary: #06b6d4;
+      --text: #e2e8f0;
+      --text-muted: #64748b;
+      --border: #1e293b;
+      --success: #22c55e;
+      --error: #ef4444;
+      --warning: #f59e0b;
+    }
+
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+
+    body {
+      font-family: 'Segoe UI', system-ui, sans-serif;
+      background: var(--bg);
+      color: var(--text);
+      min-height: 100vh;
+    }
+
+    .container { max-width: 1400px; margin: 0 auto; padding: 1.5rem; }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1rem 0;
+      border-bottom: 1px solid var(--border);
+      margin-bottom: 1.5rem;
+    }
+
+    .logo {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      font-size: 1.5rem;
+      font-weight: 700;
+      background: linear-gradient(135deg, var(--primary), var(--secondary));
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+
+    .header-actions {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+    }
+
+    .user-name { font-size: 0.875rem; color: var(--text-muted); }
+
+    .login-form {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+    }
+
+    .login-form input {
+      padding: 0.625rem 1rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .login-error { color: var(--error); font-size: 0.75rem; min-height: 1rem; }
+
+    .status {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 1rem;
+      border-radius: 9999px;
+      font-size: 0.875rem;
+    }
+
+    .status.connected { background: rgba(34, 197, 94, 0.1); color: var(--success); }
+    .status.disconnected { background: rgba(239, 68, 68, 0.1); color: var(--error); }
+    .status.reconnecting { background: rgba(245, 158, 11, 0.1); color: var(--warning); }
+
+    .status-dot {
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+      animation: pulse 2s infinite;
+    }
+
+    .status.connected .status-dot { background: var(--success); }
+    .status.disconnected .status-dot { background: var(--error); }
+    .status.reconnecting .status-dot { background: var(--warning); }
+
+    @keyframes pulse {
+      0%, 100% { opacity: 1; }
+      50% { opacity: 0.5; }
+    }
+
+    .toolbar {
+      display: flex;
+      gap: 1rem;
+      margin-bottom: 1.5rem;
+      flex-wrap: wrap;
+    }
+
+    .btn {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.625rem 1.25rem;
+      border-radius: 8px;
+      font-size: 0.875rem;
+      font-weight: 500;
+      cursor: pointer;
+      border: none;
+      text-decoration: none;
+      transition: all 0.2s;
+    }
+
+    .btn-primary {
+      background: var(--primary);
+      color: white;
+    }
+
+    .btn-primary:hover { background: var(--primary-dark); }
+
+    .btn-secondary {
+      background: var(--bg-card);
+      color: var(--text);
+      border: 1px solid var(--border);
+    }
+
+    .btn-secondary:hover { background: var(--bg-hover); }
+
+    .btn-secondary.active {
+      border-color: var(--primary);
+      color: var(--primary);
+    }
+
+    .select {
+      padding: 0.625rem 1rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg-card);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .search-input {
+      flex: 1;
+      min-width: 220px;
+      padding: 0.625rem 1rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg-card);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .search-input:focus { outline: none; border-color: var(--primary); }
+
+    .breadcrumbs {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin-bottom: 1rem;
+      font-size: 0.875rem;
+      color: var(--text-muted);
+    }
+
+    .crumb {
+      padding: 0.25rem 0.5rem;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+
+    .crumb:hover { color: var(--text); background: var(--bg-hover); }
+    .crumb.current { color: var(--text); cursor: default; background: none; }
+
+    .tabs {
+      display: flex;
+      gap: 0.5rem;
+      margin-bottom: 1.5rem;
+      border-bottom: 1px solid var(--border);
+      padding-bottom: 0.5rem;
+    }
+
+    .tab {
+      padding: 0.5rem 1rem;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 0.875rem;
+      color: var(--text-muted);
+      transition: all 0.2s;
+    }
+
+    .tab:hover { color: var(--text); background: var(--bg-card); }
+    .tab.active { color: var(--primary); background: rgba(139, 92, 246, 0.1); }
+
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+      gap: 1rem;
+    }
+
+    .file-card {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      overflow: hidden;
+      transition: all 0.2s;
+      cursor: pointer;
+    }
+
+    .file-card:hover {
+      border-color: var(--primary);
+      transform: translateY(-2px);
+    }
+
+    .file-card.selected {
+      border-color: var(--primary);
+      box-shadow: 0 0 0 2px var(--primary);
+    }
+
+    .selection-bar {
+      display: none;
+      align-items: center;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+      margin-bottom: 1rem;
+      padding: 0.5rem 0.75rem;
+      background: var(--bg-card);
+      border: 1px solid var(--primary);
+      border-radius: 8px;
+      font-size: 0.875rem;
+    }
+
+    .selection-bar.active { display: flex; }
+    .selection-bar .count { margin-right: auto; }
+
+    .file-preview {
+      aspect-ratio: 16/10;
+      background: var(--bg);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      overflow: hidden;
+    }
+
+    .file-preview img, .file-preview video {
+      width: 100%;
+      height: 100%;
+      object-fit: cover;
+    }
+
+    .file-preview { position: relative; }
+
+    .play-badge {
+      position: absolute;
+      right: 0.5rem;
+      bottom: 0.5rem;
+      padding: 0.125rem 0.5rem;
+      border-radius: 4px;
+      font-size: 0.75rem;
+      background: rgba(0, 0, 0, 0.6);
+      color: white;
+    }
+
+    .file-preview .placeholder {
+      font-size: 3rem;
+      opacity: 0.3;
+    }
+
+    .file-info {
+      padding: 0.75rem;
+    }
+
+    .file-name {
+      font-size: 0.875rem;
+      font-weight: 500;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      margin-bottom: 0.25rem;
+    }
+
+    .file-meta {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+
+    .file-tags {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin-top: 0.375rem;
+    }
+
+    .tag-chip {
+      padding: 0.125rem 0.5rem;
+      border-radius: 999px;
+      background: var(--bg);
+      color: var(--text-muted);
+      font-size: 0.7rem;
+      cursor: pointer;
+    }
+
+    .tag-chip:hover { color: var(--text); background: var(--bg-hover); }
+
+    .modal {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.8);
+      display: none;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+      padding: 2rem;
+    }
+
+    .modal.active { display: flex; }
+
+    .modal-content {
+      background: var(--bg-card);
+      border-radius: 16px;
+      max-width: 90vw;
+      max-height: 90vh;
+      overflow: auto;
+    }
+
+    .modal-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1rem 1.5rem;
+      border-bottom: 1px solid var(--border);
+    }
+
+    .modal-body { padding: 1.5rem; }
+
+    .modal-body img, .modal-body video {
+      max-width: 100%;
+      max-height: 70vh;
+      border-radius: 8px;
+    }
+
+    .live-bar {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      margin-top: 0.75rem;
+      font-size: 0.875rem;
+      color: var(--text-muted);
+    }
+
+    .live-badge {
+      padding: 0.125rem 0.5rem;
+      border-radius: 4px;
+      font-weight: 700;
+      font-size: 0.75rem;
+      background: var(--border);
+      color: var(--text-muted);
+    }
+
+    .live-badge.on { background: var(--error); color: white; }
+    .live-bar .btn { margin-left: auto; }
+
+    .close-btn {
+      background: none;
+      border: none;
+      color: var(--text-muted);
+      font-size: 1.5rem;
+      cursor: pointer;
+    }
+
+    .close-btn:hover { color: var(--text); }
+
+    .upload-zone {
+      border: 2px dashed var(--border);
+      border-radius: 12px;
+      padding: 3rem;
+      text-align: center;
+      cursor: pointer;
+      transition: all 0.2s;
+      margin-bottom: 1.5rem;
+    }
+
+    .upload-zone:hover, .upload-zone.dragover {
+      border-color: var(--primary);
+      background: rgba(139, 92, 246, 0.05);
+    }
+
+    .upload-icon { font-size: 3rem; margin-bottom: 1rem; }
+
+    .upload-progress {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+    }
+
+    .upload-row-header {
+      display: flex;
+      justify-content: space-between;
+      gap: 1rem;
+      font-size: 0.75rem;
+      margin-bottom: 0.25rem;
+    }
+
+    .upload-row-name {
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .upload-row-status { color: var(--text-muted); white-space: nowrap; }
+    .upload-row.done .upload-row-status { color: var(--success); }
+    .upload-row.failed .upload-row-status { color: var(--error); }
+
+    .progress {
+      height: 6px;
+      border-radius: 9999px;
+      background: var(--bg);
+      overflow: hidden;
+    }
+
+    .progress-bar {
+      height: 100%;
+      width: 0;
+      background: linear-gradient(90deg, var(--primary), var(--secondary));
+      transition: width 0.2s;
+    }
+    .upload-text { color: var(--text-muted); }
+
+    .empty-state {
+      text-align: center;
+      padding: 4rem 2rem;
+      color: var(--text-muted);
+    }
+
+    .empty-state .icon { font-size: 4rem; margin-bottom: 1rem; opacity: 0.3; }
+
+    .toast {
+      position: fixed;
+      bottom: 2rem;
+      right: 2rem;
+      padding: 1rem 1.5rem;
+      border-radius: 8px;
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      display: none;
+      animation: slideIn 0.3s ease;
+    }
+
+    .toast.show { display: block; }
+    .toast.success { border-color: var(--success); }
+    .toast.error { border-color: var(--error); }
+
+    @keyframes slideIn {
+      from { transform: translateX(100%); opacity: 0; }
+      to { transform: translateX(0); opacity: 1; }
+    }
+
+    .file-actions {
+      display: flex;
+      gap: 0.5rem;
+      padding: 0.5rem 0.75rem;
+      border-top: 1px solid var(--border);
+    }
+
+    .action-btn {
+      flex: 1;
+      padding: 0.375rem;
+      border: none;
+      border-radius: 4px;
+      background: var(--bg);
+      color: var(--text-muted);
+      cursor: pointer;
+      font-size: 0.75rem;
+    }
+
+    .action-btn:hover { color: var(--text); background: var(--bg-hover); }
+    .action-btn.delete:hover { color: var(--error); }
+    .action-menu { flex: 0 0 auto; width: 2.5rem; text-align: center; appearance: none; }
+
+    /* 🌀 BRANDYFICATION Queue & Streaming Styles */
+    .queue-panel, .stream-panel {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      padding: 1.5rem;
+      margin-bottom: 1.5rem;
+    }
+
+    .queue-stats {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
+      gap: 1rem;
+      margin-bottom: 1rem;
+    }
+
+    .stat-card {
+      background: var(--bg);
+      padding: 1rem;
+      border-radius: 8px;
+      text-align: center;
+    }
+
+    .stat-value {
+      font-size: 2rem;
+      font-weight: 700;
+      background: linear-gradient(135deg, var(--primary), var(--secondary));
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+
+    .stat-label {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+      margin-top: 0.25rem;
+    }
+
+    .stream-list {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+    }
+
+    .stream-item {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      background: var(--bg);
+      padding: 1rem;
+      border-radius: 8px;
+    }
+
+    .stream-info {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+    }
+
+    .stream-icon {
+      width: 40px;
+      height: 40px;
+      border-radius: 8px;
+      background: rgba(139, 92, 246, 0.1);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 1.25rem;
+    }
+
+    .stream-name {
+      font-weight: 500;
+    }
+
+    .stream-type {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+
+    .input-group {
+      display: flex;
+      gap: 0.5rem;
+      margin-top: 1rem;
+    }
+
+    .input-group input {
+      flex: 1;
+      padding: 0.625rem 1rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .input-group input:focus {
+      outline: none;
+      border-color: var(--primary);
+    }
+
+    .input-group select {
+      padding: 0.625rem 1rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .ticket-badge {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.25rem;
+      padding: 0.25rem 0.5rem;
+      border-radius: 4px;
+      font-size: 0.75rem;
+      background: rgba(139, 92, 246, 0.1);
+      color: var(--primary);
+    }
+
+    .health-badge { background: rgba(148, 163, 184, 0.15); color: var(--text-muted); }
+    .health-badge.live { background: rgba(34, 197, 94, 0.15); color: var(--success); }
+    .health-badge.stalled, .health-badge.reconnecting { background: rgba(234, 179, 8, 0.15); color: #eab308; }
+    .health-badge.failed { background: rgba(239, 68, 68, 0.15); color: var(--error); }
+
+    .panel-title {
+      font-size: 1.125rem;
+      font-weight: 600;
+      margin-bottom: 1rem;
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .tools-layout {
+      display: grid;
+      grid-template-columns: minmax(200px, 280px) 1fr;
+      gap: 1.5rem;
+      align-items: start;
+    }
+
+    .tool-item { cursor: pointer; text-align: left; border: 1px solid transparent; color: var(--text); font: inherit; }
+    .tool-item.active { border-color: var(--primary); }
+
+    .tool-field { display: flex; flex-direction: column; gap: 0.25rem; margin-bottom: 0.75rem; font-size: 0.875rem; }
+    .tool-field .hint { font-size: 0.75rem; color: var(--text-muted); }
+
+    .tool-field input, .tool-field select, .tool-field textarea {
+      padding: 0.5rem 0.75rem;
+      border-radius: 8px;
+      border: 1px solid var(--border);
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.875rem;
+    }
+
+    .tool-field textarea { min-height: 5rem; font-family: ui-monospace, monospace; }
+    .tool-field input[type="checkbox"] { align-self: flex-start; }
+
+    .tool-result pre {
+      background: var(--bg);
+      padding: 1rem;
+      border-radius: 8px;
+      font-size: 0.8125rem;
+      white-space: pre-wrap;
+      word-break: break-word;
+      margin-top: 0.75rem;
+    }
+
+    .tool-result img { max-width: 100%; border-radius: 8px; margin-top: 0.75rem; }
+    .tool-result.error pre { color: var(--error); }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <div class="logo">
+        <span>📁</span>
+        <span>BRANDYFICATION Agent</span>
+      </div>
+      <div class="header-actions">
+        <div class="status disconnected" id="status">
+          <span class="status-dot"></span>
+          <span id="status-text">Disconnected</span>
+        </div>
+        <select class="select" id="backend-select" title="Storage backend" style="display: none;" onchange="switchBackend(this.value)"></select>
+        <span class="user-name" id="user-name"></span>
+        <a class="btn btn-secondary" href="/api-explorer" target="_blank" rel="noopener">📘 API</a>
+        <button class="btn btn-secondary" id="logout-btn" style="display: none;" onclick="logout()">Sign out</button>
+      </div>
+    </header>
+
+    <div class="toolbar">
+      <button class="btn btn-primary" onclick="connectToServer()">
+        <span>🔌</span> Connect
+      </button>
+      <button class="btn btn-primary" id="upload-btn" onclick="openUploadModal()">
+        <span>📤</span> Upload
+      </button>
+      <button class="btn btn-secondary" onclick="refreshFiles()">
+        <span>🔄</span> Refresh
+      </button>
+      <button class="btn btn-secondary" id="new-folder-btn" onclick="createFolder()">
+        <span>📁</span> New folder
+      </button>
+      <button class="btn btn-secondary" onclick="downloadFolderArchive()" title="Download this folder as a ZIP">
+        <span>🗜️</span> Download ZIP
+      </button>
+      <select class="select" id="sort-select" onchange="setSort(this.value)">
+        <option value="name:asc">Name A→Z</option>
+        <option value="name:desc">Name Z→A</option>
+        <option value="modified:desc">Newest first</option>
+        <option value="modified:asc">Oldest first</option>
+        <option value="size:desc">Largest first</option>
+        <option value="size:asc">Smallest first</option>
+      </select>
+      <input class="search-input" id="search-input" type="search" placeholder="Search… e.g. beach type:video size>100MB modified:<2026-01-01" oninput="onSearchInput(this.value)">
+    </div>
+
+    <div class="tabs">
+      <div class="tab active" data-folder="all" onclick="switchTab('all')">All Files</div>
+      <div class="tab" data-folder="IMAGES" onclick="switchTab('IMAGES')">🖼️ Images</div>
+      <div class="tab" data-folder="VIDEOS" onclick="switchTab('VIDEOS')">🎬 Videos</div>
+      <div class="tab" data-folder="queue" onclick="switchTab('queue')">📥 Queue</div>
+      <div class="tab" data-folder="streams" onclick="switchTab('streams')">📡 Streams</div>
+      <div class="tab" data-folder="tools" id="tools-tab" style="display: none;" onclick="switchTab('tools')">🧰 Tools</div>
+    </div>
+
+    <!-- Queue Panel (hidden by default) -->
+    <div id="queue-panel" class="queue-panel" style="display: none;">
+      <h3 class="panel-title">📥 Download Queue</h3>
+      <div class="queue-stats" id="queue-stats">
+        <div class="stat-card">
+          <div class="stat-value" id="queue-active">0</div>
+          <div class="stat-label">Active</div>
+        </div>
+        <div class="stat-card">
+          <div class="stat-value" id="queue-waiting">0</div>
+          <div class="stat-label">Waiting</div>
+        </div>
+        <div class="stat-card">
+          <div class="stat-value" id="queue-max">5</div>
+          <div class="stat-label">Max Concurrent</div>
+        </div>
+      </div>
+      <div id="queue-list" class="stream-list"></div>
+      <h3 class="panel-title">📤 Active Transfers</h3>
+      <div id="transfer-list" class="stream-list"></div>
+      <h3 class="panel-title">⬇️ Your Downloads</h3>
+      <div id="my-downloads" class="stream-list"></div>
+    </div>
+
+    <!-- Streams Panel (hidden by default) -->
+    <div id="streams-panel" class="stream-panel" style="display: none;">
+      <h3 class="panel-title">📡 Active Streams</h3>
+      <div id="streams-list" class="stream-list">
+        <div class="empty-state" style="padding: 2rem;">
+          <div class="icon">📡</div>
+          <p>No active streams</p>
+        </div>
+      </div>
+      <div class="input-group" id="stream-controls">
+        <select id="stream-preset" onchange="pickPreset()">
+          <option value="">Custom source…</option>
+        </select>
+        <input type="text" id="stream-source" placeholder="rtmp://server/app/stream or rtsp://camera/stream">
+        <select id="stream-type">
+          <option value="rtmp">RTMP (OBS)</option>
+          <option value="rtsp">RTSP (Camera)</option>
+        </select>
+        <button class="btn btn-primary" onclick="startStream()">▶️ Start</button>
+      </div>
+      <h3 class="panel-title" style="margin-top: 1.5rem;">📋 Stream Presets</h3>
+      <div id="presets-list" class="stream-list"></div>
+      <div class="input-group" id="preset-controls">
+        <input type="text" id="preset-name" placeholder="Name, e.g. Front door" style="flex: 0.6;">
+        <input type="text" id="preset-source" placeholder="rtsp://camera/stream, or rtmp://server/app to push with a key">
+        <select id="preset-type">
+          <option value="rtsp">RTSP</option>
+          <option value="rtmp">RTMP</option>
+        </select>
+        <input type="text" id="preset-folder" placeholder="Record to (optional)" style="flex: 0.5;">
+        <label style="display:flex; align-items:center; gap:0.25rem; font-size:0.875rem;"><input type="checkbox" id="preset-autostart"> Auto-start</label>
+        <button class="btn btn-primary" onclick="savePreset()">💾 Save</button>
+      </div>
+      <h3 class="panel-title" style="margin-top: 1.5rem;">⏺️ Recordings</h3>
+      <div id="recordings-list" class="stream-list"></div>
+      <h3 class="panel-title" style="margin-top: 1.5rem;">🗓️ Recording Schedules</h3>
+      <div id="schedules-list" class="stream-list"></div>
+      <div class="input-group" id="schedule-controls">
+        <input type="text" id="schedule-source" placeholder="Source to record, e.g. rtsp://camera/stream">
+        <select id="schedule-type">
+          <option value="rtsp">RTSP</option>
+          <option value="rtmp">RTMP</option>
+        </select>
+        <input type="time" id="schedule-start" value="09:00" style="flex: 0;">
+        <input type="time" id="schedule-end" value="17:00" style="flex: 0;">
+        <select id="schedule-days">
+          <option value="">Every day</option>
+          <option value="1,2,3,4,5">Weekdays</option>
+          <option value="0,6">Weekends</option>
+        </select>
+        <button class="btn btn-primary" onclick="addSchedule()">🗓️ Schedule</button>
+      </div>
+    </div>
+
+    <!-- Tools Panel (admins only) -->
+    <div id="tools-panel" class="stream-panel" style="display: none;">
+      <h3 class="panel-title">🧰 MCP Tools</h3>
+      <div class="tools-layout">
+        <div id="tool-list" class="stream-list"></div>
+        <div id="tool-detail">
+          <div class="empty-state" style="padding: 2rem;"><p>Pick a tool to call it directly</p></div>
+        </div>
+      </div>
+    </div>
+
+    <div class="breadcrumbs" id="breadcrumbs"></div>
+
+    <div class="selection-bar" id="selection-bar">
+      <span class="count" id="selection-count"></span>
+      <button class="btn btn-secondary" onclick="batchSelected('move')">📦 Move</button>
+      <button class="btn btn-secondary" onclick="batchSelected('copy')">📄 Copy</button>
+      <button class="btn btn-secondary" onclick="batchSelected('tag')">🏷️ Tag</button>
+      <button class="btn btn-secondary" onclick="batchSelected('delete')">🗑️ Delete</button>
+      <button class="btn btn-secondary" onclick="downloadSelectionArchive()">🗜️ ZIP</button>
+      <button class="btn btn-secondary" onclick="clearSelection()">✕ Clear</button>
+    </div>
+
+    <div id="file-grid" class="grid">
+      <div class="empty-state">
+        <div class="icon">📂</div>
+        <p>Connect to the server to view files</p>
+      </div>
+    </div>
+    <div id="grid-sentinel"></div>
+  </div>
+
+  <!-- Upload Modal -->
+  <div class="modal" id="upload-modal">
+    <div class="modal-content" style="width: 500px;">
+      <div class="modal-header">
+        <h3>Upload File</h3>
+        <button class="close-btn" onclick="closeModal('upload-modal')">&times;</button>
+      </div>
+      <div class="modal-body">
+        <div class="upload-zone" id="upload-zone" onclick="document.getElementById('file-input').click()">
+          <div class="upload-icon">📁</div>
+          <p class="upload-text">Drop files here or click to browse</p>
+          <p class="upload-text" style="font-size: 0.75rem; margin-top: 0.5rem;">
+            Images: PNG, JPG, GIF, WEBP, SVG, etc.<br>
+            Videos: MP4, GIF
+          </p>
+        </div>
+        <input type="file" id="file-input" hidden multiple accept="image/*,video/mp4,.gif">
+        <div class="upload-progress" id="upload-progress"></div>
+      </div>
+    </div>
+  </div>
+
+  <!-- Preview Modal -->
+  <div class="modal" id="preview-modal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3 id="preview-title">File Preview</h3>
+        <button class="close-btn" onclick="closeModal('preview-modal')">&times;</button>
+      </div>
+      <div class="modal-body" id="preview-body"></div>
+    </div>
+  </div>
+
+  <!-- Login Modal -->
+  <div class="modal" id="login-modal" data-locked="true">
+    <div class="modal-content" style="width: 360px;">
+      <div class="modal-header">
+        <h3>Sign in</h3>
+      </div>
+      <div class="modal-body">
+        <form class="login-form" onsubmit="login(event)">
+          <input type="text" id="login-username" placeholder="Username" autocomplete="username" required>
+          <input type="password" id="login-password" placeholder="Password" autocomplete="current-password" required>
+          <div class="login-error" id="login-error"></div>
+          <button class="btn btn-primary" type="submit">Sign in</button>
+        </form>
+      </div>
+    </div>
+  </div>
+
+  <!-- Toast -->
+  <div class="toast" id="toast"></div>
+
+  <script>
+    let ws = null;
+    let socketId = null; // lets queued downloads report back to this socket
+    let currentFolder = 'all';
+    let currentPath = null; // set once the user drills into a directory
+    let files = [];
+
+    let currentUser = null;
+
+    // Any 401 means the session is gone: stop and ask the user to sign in again
+    const nativeFetch = window.fetch.bind(window);
+    window.fetch = async (...args) => {
+      if (typeof args[0] === 'string') args[0] = apiUrl(args[0]);
+      const res = await nativeFetch(...args);
+      if (res.status === 401 && !String(args[0]).startsWith('/api/auth/login')) showLogin();
+      return res;
+    };
+
+    // Initialize
+    document.addEventListener('DOMContentLoaded', () => {
+      setupDragDrop();
+      setupFileInput();
+      setupInfiniteScroll();
+      checkSession();
+    });
+
+    async function checkSession() {
+      const res = await nativeFetch('/api/auth/me');
+      if (res.ok) {
+        onSignedIn(await res.json());
+      } else {
+        showLogin();
+      }
+    }
+
+    async function onSignedIn(user) {
+      currentUser = user;
+      document.getElementById('user-name').textContent = user.username;
+      document.getElementById('logout-btn').style.display = '';
+      document.getElementById('upload-btn').style.display = user.grants.some(g => g.permissions.includes('write')) ? '' : 'none';
+      document.getElementById('stream-controls').style.display = can('stream') ? '' : 'none';
+      document.getElementById('schedule-controls').style.display = can('stream') ? '' : 'none';
+      document.getElementById('preset-controls').style.display = can('stream') ? '' : 'none';
+      document.getElementById('tools-tab').style.display = can('admin') ? '' : 'none';
+      renderBreadcrumbs();
+      closeModal('login-modal');
+      await loadBackends();
+      if (!ws) initWebSocket();
+    }
+
+    // Storage backends: API calls and subscriptions go to the selected one, events from the others are ignored
+    let backendList = [];
+    let currentBackend = null;
+    const backendStatus = {};
+
+    async function loadBackends() {
+      const res = await fetch('/api/backends');
+      if (!res.ok) return;
+      backendList = await res.json();
+      backendList.forEach(backend => { backendStatus[backend.name] = backend.status; });
+      const saved = localStorage.getItem('backend');
+      const fallback = backendList.find(backend => backend.default) || backendList[0];
+      currentBackend = backendList.some(backend => backend.name === saved) ? saved : fallback && fallback.name;
+      renderBackends();
+    }
+
+    function renderBackends() {
+      const select = document.getElementById('backend-select');
+      select.style.display = backendList.length > 1 ? '' : 'none';
+      select.innerHTML = backendList.map(backend =>
+        '<option value="' + escapeHtml(backend.name) + '">' + statusIcon(backendStatus[backend.name]) + ' ' + escapeHtml(backend.label) + '</option>'
+      ).join('');
+      select.value = currentBackend;
+      updateStatus(backendStatus[currentBackend] || { connected: false });
+    }
+
+    function statusIcon(status) {
+      if (status && status.connected) return '🟢';
+      if (status && (status.state === 'reconnecting' || status.state === 'connecting')) return '🟡';
+      return '🔴';
+    }
+
+    // '/api/files' becomes '/api/b/archive/files' while the archive backend is selected
+    function apiUrl(url) {
+      if (!currentBackend || !url.startsWith('/api/') || url.startsWith('/api/b/') || url.startsWith('/api/auth/') || url === '/api/backends') return url;
+      return '/api/b/' + encodeURIComponent(currentBackend) + url.slice(4);
+    }
+
+    function switchBackend(name) {
+      if (name === currentBackend) return;
+      // Topics are per backend: let go of the old one's before the tab subscribes on the new one
+      if (ws && ws.readyState === WebSocket.OPEN && watchedTopics.size) {
+        ws.send(JSON.stringify({ action: 'unsubscribe', backend: currentBackend, payload: { topics: [...watchedTopics] } }));
+      }
+      watchedTopics = new Set();
+      currentBackend = name;
+      localStorage.setItem('backend', name);
+      renderBackends();
+      switchTab(currentFolder);
+    }
+
+    // Mirrors the server policy so the UI only offers what the role allows; the server still enforces it
+    function can(permission, folder) {
+      if (!currentUser) return false;
+      const top = folder && folder !== 'all' ? folder.split('/')[0] : undefined;
+      return currentUser.grants.some(g =>
+        g.permissions.includes(permission) && (!g.folders || (top !== undefined && g.folders.includes(top)))
+      );
+    }
+
+    function showLogin() {
+      currentUser = null;
+      document.getElementById('user-name').textContent = '';
+      document.getElementById('logout-btn').style.display = 'none';
+      document.getElementById('login-modal').classList.add('active');
+      document.getElementById('login-username').focus();
+    }
+
+    async function login(event) {
+      event.preventDefault();
+      const errorEl = document.getElementById('login-error');
+      errorEl.textContent = '';
+
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: document.getElementById('login-username').value,
+          password: document.getElementById('login-password').value
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        errorEl.textContent = data.error || 'Sign in failed';
+        return;
+      }
+
+      document.getElementById('login-password').value = '';
+      onSignedIn(data.user);
     }
 
-    .modal {
-      position: fixed;
-      inset: 0;
-      background: rgba(0, 0, 0, 0.8);
-      display: none;
-      align-items: center;
-      justify-content: center;
-      z-index: 1000;
-      padding: 2rem;
+    async function logout() {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      if (ws) ws.close();
+      showLogin();
     }
 
-    .modal.active { display: flex; }
+    function initWebSocket() {
+      const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+      ws = new WebSocket(protocol + '//' + location.host);
 
-    .modal-content {
-      background: var(--bg-card);
-      border-radius: 16px;
-      max-width: 90vw;
-      max-height: 90vh;
-      overflow: auto;
+      ws.onopen = () => {
+        console.log('[WS] Connected');
+        // A new socket starts with no subscriptions
+        watchedTopics = new Set();
+        watchTab(currentFolder);
+      };
+      ws.onclose = () => {
+        ws = null;
+        socketId = null;
+        watchedTopics = new Set();
+        updateStatus({ connected: false });
+        if (!currentUser) return;
+        console.log('[WS] Disconnected, reconnecting...');
+        // The upgrade is rejected once the session expires, so re-check it before retrying
+        setTimeout(checkSession, 3000);
+      };
+
+      ws.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        handleWSMessage(data);
+      };
     }
 
-    .modal-header {
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      padding: 1rem 1.5rem;
-      border-bottom: 1px solid var(--border);
+    function handleWSMessage(data) {
+      if (data.type === 'status') {
+        backendStatus[data.backend] = data;
+        if (backendList.length) renderBackends();
+        if (data.backend === currentBackend && data.connected) refreshFiles();
+        return;
+      }
+      if (data.backend && data.backend !== currentBackend) return;
+
+      switch (data.type) {
+        case 'connected':
+          socketId = data.socketId;
+          break;
+        case 'response':
+          handleResponse(data);
+          break;
+        case 'file_changed':
+          if (data.action === 'batch') {
+            showToast(\`\${data.changes.length} file change(s)\`, 'success');
+            refreshFiles();
+          } else if (data.from) {
+            showToast(\`File \${data.action}: \${data.from.filename} → \${joinPath(data.to.folder, data.to.filename)}\`, 'success');
+            applyTransfer(data);
+          } else {
+            showToast(\`File \${data.action}: \${data.filename}\`, 'success');
+            refreshFiles();
+          }
+          break;
+        case 'tags_changed':
+          if (searchQuery) refreshFiles();
+          break;
+        case 'queue_update':
+          showToast(\`Queue \${data.action}: \${data.filename || ''}\`, 'success');
+          if (currentFolder === 'queue' && !watchedTopics.has('queue')) refreshQueue();
+          break;
+        case 'download_ticket':
+          handleDownloadTicket(data);
+          break;
+        case 'state_snapshot':
+          liveState[data.topic] = data.state;
+          renderTopic(data.topic);
+          break;
+        case 'state_delta':
+          applyChanges(data.topic, data.changes);
+          break;
+        case 'stream_update':
+          showToast(\`Stream \${data.action}: \${data.source || data.streamId || ''}\`, 'success');
+          if (currentFolder === 'streams' && !watchedTopics.has('streams')) refreshStreams();
+          if (currentFolder === 'streams' && data.action !== 'start' && data.action !== 'stop') refreshRecordings();
+          break;
+        case 'stream_health':
+          handleStreamHealth(data);
+          break;
+        case 'stream_preset':
+          presets = presets.filter(preset => preset.id !== data.preset.id);
+          if (data.action !== 'delete') presets = [...presets, data.preset].sort((a, b) => a.name.localeCompare(b.name));
+          renderPresets();
+          break;
+        case 'error':
+          showToast(data.message, 'error');
+          break;
+      }
     }
 
-    .modal-body { padding: 1.5rem; }
+    function handleResponse(data) {
+      if (data.action === 'list_files' || data.action === 'list_images' || data.action === 'list_videos') {
+        renderFiles(data.result);
+      }
+    }
 
-    .modal-body img, .modal-body video {
-      max-width: 100%;
-      max-height: 70vh;
-      border-radius: 8px;
+    function updateStatus(status) {
+      const statusEl = document.getElementById('status');
+      const statusText = document.getElementById('status-text');
+      
+      if (status.connected) {
+        statusEl.className = 'status connected';
+        statusText.textContent = 'Connected';
+      } else if (status.state === 'reconnecting' || status.state === 'connecting') {
+        statusEl.className = 'status reconnecting';
+        statusText.textContent = status.attempt ? \`Reconnecting (attempt \${status.attempt})...\` : 'Connecting...';
+      } else {
+        statusEl.className = 'status disconnected';
+        statusText.textContent = 'Disconnected';
+      }
     }
 
-    .close-btn {
-      background: none;
-      border: none;
-      color: var(--text-muted);
-      font-size: 1.5rem;
-      cursor: pointer;
+    async function connectToServer() {
+      try {
+        const res = await fetch('/api/connect', { method: 'POST' });
+        const data = await res.json();
+        if (data.success) {
+          showToast('Connected to MCP server', 'success');
+        }
+      } catch (error) {
+        showToast('Failed to connect', 'error');
+      }
     }
 
-    .close-btn:hover { color: var(--text); }
+    const PAGE_SIZE = 60;
+    let listSort = 'name';
+    let listOrder = 'asc';
+    let nextCursor = null;
+    let listGeneration = 0;
+    let loadingPage = false;
+    let searchQuery = '';
+    let searchTimer = null;
 
-    .upload-zone {
-      border: 2px dashed var(--border);
-      border-radius: 12px;
-      padding: 3rem;
-      text-align: center;
-      cursor: pointer;
-      transition: all 0.2s;
-      margin-bottom: 1.5rem;
+    // Reload from the first page; older in-flight page loads are discarded
+    async function refreshFiles() {
+      listGeneration++;
+      nextCursor = null;
+      loadingPage = false;
+      await loadPage(true);
     }
 
-    .upload-zone:hover, .upload-zone.dragover {
-      border-color: var(--primary);
-      background: rgba(139, 92, 246, 0.05);
+    async function loadPage(reset) {
+      if (loadingPage || (!reset && !nextCursor)) return;
+      const generation = listGeneration;
+      loadingPage = true;
+
+      try {
+        if (searchQuery) {
+          await runSearch(generation);
+          return;
+        }
+
+        let url = '/api/files?folder=' + currentFolder + '&';
+        if (currentFolder === 'IMAGES') url = '/api/images?';
+        if (currentFolder === 'VIDEOS') url = '/api/videos?';
+        if (currentPath) url = '/api/files?folder=' + encodeURIComponent(currentPath) + '&';
+
+        const params = new URLSearchParams({ limit: PAGE_SIZE, sort: listSort, order: listOrder });
+        if (!reset) params.set('cursor', nextCursor);
+
+        const res = await fetch(url + params);
+        const page = await res.json();
+        if (generation !== listGeneration) return;
+
+        nextCursor = page.nextCursor || null;
+        renderFileCards(page.items || [], !reset);
+      } catch (error) {
+        console.error('Failed to fetch files:', error);
+      } finally {
+        if (generation === listGeneration) loadingPage = false;
+      }
+
+      // Keep going if the page didn't fill the viewport
+      if (generation === listGeneration && nextCursor && sentinelVisible()) loadPage(false);
     }
 
-    .upload-icon { font-size: 3rem; margin-bottom: 1rem; }
-    .upload-text { color: var(--text-muted); }
+    // Search results replace the listing; the current tab narrows them to its folder
+    async function runSearch(generation) {
+      let q = searchQuery;
+      const scope = currentPath || (currentFolder === 'IMAGES' || currentFolder === 'VIDEOS' ? currentFolder : null);
+      if (scope) q += ' folder:"' + scope + '"';
+
+      const res = await fetch('/api/search?' + new URLSearchParams({ q, limit: 200 }));
+      const data = await res.json();
+      if (generation !== listGeneration) return;
+      if (!res.ok) {
+        showToast(data.error || 'Search failed', 'error');
+        return;
+      }
 
-    .empty-state {
-      text-align: center;
-      padding: 4rem 2rem;
-      color: var(--text-muted);
+      nextCursor = null;
+      renderFileCards(data.items || [], false);
     }
 
-    .empty-state .icon { font-size: 4rem; margin-bottom: 1rem; opacity: 0.3; }
+    function onSearchInput(value) {
+      clearTimeout(searchTimer);
+      searchTimer = setTimeout(() => {
+        searchQuery = value.trim();
+        refreshFiles();
+      }, 250);
+    }
 
-    .toast {
-      position: fixed;
-      bottom: 2rem;
-      right: 2rem;
-      padding: 1rem 1.5rem;
-      border-radius: 8px;
-      background: var(--bg-card);
-      border: 1px solid var(--border);
-      display: none;
-      animation: slideIn 0.3s ease;
+    function searchTag(tag) {
+      const input = document.getElementById('search-input');
+      input.value = 'tag:' + tag;
+      searchQuery = input.value;
+      refreshFiles();
     }
 
-    .toast.show { display: block; }
-    .toast.success { border-color: var(--success); }
-    .toast.error { border-color: var(--error); }
+    async function editTags(folder, filename) {
+      try {
+        const current = await (await fetch(fileUrl('tags', folder, filename))).json();
+        const input = prompt(\`Tags for "\${filename}" (comma separated)\`, (current.tags || []).join(', '));
+        if (input === null) return;
 
-    @keyframes slideIn {
-      from { transform: translateX(100%); opacity: 0; }
-      to { transform: translateX(0); opacity: 1; }
+        const res = await fetch(fileUrl('tags', folder, filename), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tags: input.split(',') })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        showToast('Tags saved: ' + filename, 'success');
+        refreshFiles();
+      } catch (error) {
+        showToast('Failed to save tags: ' + error.message, 'error');
+      }
     }
 
-    .file-actions {
-      display: flex;
-      gap: 0.5rem;
-      padding: 0.5rem 0.75rem;
-      border-top: 1px solid var(--border);
+    function setSort(value) {
+      [listSort, listOrder] = value.split(':');
+      refreshFiles();
     }
 
-    .action-btn {
-      flex: 1;
-      padding: 0.375rem;
-      border: none;
-      border-radius: 4px;
-      background: var(--bg);
-      color: var(--text-muted);
-      cursor: pointer;
-      font-size: 0.75rem;
+    function sentinelVisible() {
+      const rect = document.getElementById('grid-sentinel').getBoundingClientRect();
+      return rect.top < window.innerHeight + 400;
     }
 
-    .action-btn:hover { color: var(--text); background: var(--bg-hover); }
-    .action-btn.delete:hover { color: var(--error); }
+    function setupInfiniteScroll() {
+      const observer = new IntersectionObserver(entries => {
+        if (entries.some(e => e.isIntersecting)) loadPage(false);
+      }, { rootMargin: '400px' });
+      observer.observe(document.getElementById('grid-sentinel'));
+    }
 
-    /* 🌀 BRANDYFICATION Queue & Streaming Styles */
-    .queue-panel, .stream-panel {
-      background: var(--bg-card);
-      border: 1px solid var(--border);
-      border-radius: 12px;
-      padding: 1.5rem;
-      margin-bottom: 1.5rem;
+    // Legacy listing shape (array of folder listings), e.g. from the list_files WS action
+    function renderFiles(data) {
+      if (data && Array.isArray(data.items)) {
+        renderFileCards(data.items, false);
+        return;
+      }
+
+      let allFiles = [];
+      (Array.isArray(data) ? data : [data]).forEach(folder => {
+        const folderFiles = folder.files || folder.images || folder.videos || [];
+        folderFiles.forEach(f => {
+          allFiles.push({
+            ...f,
+            folder: folder.folder.includes('IMAGES') ? 'IMAGES' : 
+                    folder.folder.includes('VIDEOS') ? 'VIDEOS' : 'root'
+          });
+        });
+      });
+      renderFileCards(allFiles, false);
     }
 
-    .queue-stats {
-      display: grid;
-      grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
-      gap: 1rem;
-      margin-bottom: 1rem;
+    function renderFileCards(items, append) {
+      const grid = document.getElementById('file-grid');
+
+      if (!append && items.length === 0) {
+        grid.innerHTML = \`
+          <div class="empty-state" style="grid-column: 1/-1;">
+            <div class="icon">📂</div>
+            <p>No files found</p>
+          </div>
+        \`;
+        return;
+      }
+
+      const html = items.map(fileCardHTML).join('');
+      if (append) {
+        grid.insertAdjacentHTML('beforeend', html);
+      } else {
+        grid.innerHTML = html;
+      }
     }
 
-    .stat-card {
-      background: var(--bg);
-      padding: 1rem;
-      border-radius: 8px;
-      text-align: center;
+    function fileCardHTML(file) {
+      const isImage = isImageFile(file.name);
+      const isVideo = isVideoFile(file.name);
+      const thumbUrl = fileUrl('thumb', file.folder, file.name) + '?w=320';
+      if (file.type === 'directory') return folderCardHTML(file);
+
+      return \`
+        <div class="file-card\${selected.has(file.folder + '/' + file.name) ? ' selected' : ''}" data-key="\${file.folder}/\${file.name}" onclick="cardClick(event, '\${file.folder}', '\${file.name}')">
+          <div class="file-preview">
+            \${isImage || isVideo ? \`<img src="\${thumbUrl}" alt="\${file.name}" loading="lazy" onerror="showPlaceholder(this, \${isVideo})">\` :
+              \`<div class="placeholder">📄</div>\`}
+            \${isVideo ? '<span class="play-badge">▶</span>' : ''}
+          </div>
+          <div class="file-info">
+            <div class="file-name" title="\${file.name}">\${file.name}</div>
+            <div class="file-meta">\${file.sizeHuman ? file.sizeHuman + ' · ' : ''}\${file.mimeType || file.type || 'file'}</div>
+            \${file.tags && file.tags.length ? \`<div class="file-tags" onclick="event.stopPropagation()">\${file.tags.map(tag => \`<span class="tag-chip" onclick="searchTag('\${tag}')">#\${tag}</span>\`).join('')}</div>\` : ''}
+          </div>
+          <div class="file-actions" onclick="event.stopPropagation()">
+            <button class="action-btn" onclick="downloadFile('\${file.folder}', '\${file.name}')">⬇️ Download</button>
+            \${can('write', file.folder) ? \`<button class="action-btn" onclick="editTags('\${file.folder}', '\${file.name}')">🏷️ Tags</button>\` : ''}
+            \${can('delete', file.folder) ? \`<button class="action-btn delete" onclick="deleteFile('\${file.folder}', '\${file.name}')">🗑️ Delete</button>\` : ''}
+            \${can('write', file.folder) ? \`
+              <select class="action-btn action-menu" title="More" onchange="fileMenu(this, '\${file.folder}', '\${file.name}')">
+                <option value="">⋯</option>
+                <option value="rename">✏️ Rename</option>
+                <option value="move">📦 Move</option>
+                <option value="copy">📄 Copy</option>
+                \${backendList.length > 1 ? '<option value="copy-backend">🗄️ Copy to backend…</option>' : ''}
+              </select>\` : ''}
+          </div>
+        </div>
+      \`;
     }
 
-    .stat-value {
-      font-size: 2rem;
-      font-weight: 700;
-      background: linear-gradient(135deg, var(--primary), var(--secondary));
-      -webkit-background-clip: text;
-      -webkit-text-fill-color: transparent;
+    function folderCardHTML(dir) {
+      const target = joinPath(dir.folder, dir.name);
+      return \`
+        <div class="file-card" onclick="openFolder('\${target}')">
+          <div class="file-preview"><div class="placeholder">📁</div></div>
+          <div class="file-info">
+            <div class="file-name" title="\${dir.name}">\${dir.name}</div>
+            <div class="file-meta">Folder</div>
+          </div>
+        </div>
+      \`;
+    }
+
+    // Folder paths are relative to storage; "root" is the top
+    function joinPath(folder, name) {
+      return !folder || folder === 'root' ? name : folder + '/' + name;
+    }
+
+    // Paths contain "/", so the folder travels as one encoded segment
+    function fileUrl(kind, folder, filename) {
+      return apiUrl(\`/api/\${kind}/\${encodeURIComponent(folder)}/\${encodeURIComponent(filename)}\`);
+    }
+
+    // Multi-select: shift-click selects a range from the last clicked card, ctrl/cmd-click toggles one.
+    // While anything is selected, a plain click toggles too instead of opening the preview.
+    const selected = new Map();
+    let selectionAnchor = null;
+
+    function cardClick(event, folder, filename) {
+      const key = folder + '/' + filename;
+      if (event.shiftKey && selectionAnchor) {
+        selectRange(selectionAnchor, key);
+      } else if (event.shiftKey || event.ctrlKey || event.metaKey || selected.size > 0) {
+        toggleSelected(key, folder, filename);
+        selectionAnchor = key;
+      } else {
+        previewFile(folder, filename);
+        return;
+      }
+      renderSelection();
+    }
+
+    function toggleSelected(key, folder, filename) {
+      if (selected.has(key)) selected.delete(key);
+      else selected.set(key, { folder, filename });
+    }
+
+    function selectRange(fromKey, toKey) {
+      const cards = [...document.querySelectorAll('.file-card[data-key]')];
+      const a = cards.findIndex(c => c.dataset.key === fromKey);
+      const b = cards.findIndex(c => c.dataset.key === toKey);
+      if (a === -1 || b === -1) return;
+      cards.slice(Math.min(a, b), Math.max(a, b) + 1).forEach(card => {
+        const key = card.dataset.key;
+        const slash = key.lastIndexOf('/');
+        selected.set(key, { folder: key.slice(0, slash), filename: key.slice(slash + 1) });
+      });
+    }
+
+    function renderSelection() {
+      document.querySelectorAll('.file-card[data-key]').forEach(card => {
+        card.classList.toggle('selected', selected.has(card.dataset.key));
+      });
+      document.getElementById('selection-bar').classList.toggle('active', selected.size > 0);
+      document.getElementById('selection-count').textContent = selected.size + ' selected';
+    }
+
+    function clearSelection() {
+      selected.clear();
+      selectionAnchor = null;
+      renderSelection();
+    }
+
+    async function batchSelected(op) {
+      const items = [...selected.values()];
+      if (items.length === 0) return;
+
+      const extra = {};
+      if (op === 'delete' && !confirm(\`Delete \${items.length} file(s)?\`)) return;
+      if (op === 'move' || op === 'copy') {
+        const to = prompt(\`\${op === 'move' ? 'Move' : 'Copy'} \${items.length} file(s) to folder\`, uploadFolder() || 'root');
+        if (to === null) return;
+        extra.to = to.trim() || 'root';
+        extra.onConflict = 'suffix';
+      }
+      if (op === 'tag') {
+        const input = prompt(\`Tags for \${items.length} file(s) (comma separated, replaces existing tags)\`);
+        if (input === null) return;
+        extra.tags = input.split(',');
+      }
+
+      try {
+        const { res, data } = await fetchJSON('/api/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ operations: items.map(item => ({ op, ...item, ...extra })) })
+        });
+        if (!res.ok) throw new Error(data.error);
+
+        const failures = data.results.filter(r => !r.success);
+        if (failures.length === 0) {
+          showToast(\`\${op}: \${data.succeeded} file(s) done\`, 'success');
+        } else {
+          console.warn('Batch failures:', failures);
+          showToast(\`\${op}: \${data.succeeded} done, \${data.failed} failed (\${failures[0].filename}: \${failures[0].error})\`, 'error');
+        }
+        clearSelection();
+      } catch (error) {
+        showToast(\`Batch \${op} failed: \${error.message}\`, 'error');
+      }
     }
 
-    .stat-label {
-      font-size: 0.75rem;
-      color: var(--text-muted);
-      margin-top: 0.25rem;
+    // Archives stream straight to disk via a normal navigation, never through a blob in memory
+    function downloadFolderArchive() {
+      window.location.href = apiUrl('/api/archive?folder=') + encodeURIComponent(uploadFolder() || 'root') + socketParam('&');
     }
 
-    .stream-list {
-      display: flex;
-      flex-direction: column;
-      gap: 0.75rem;
+    function downloadSelectionArchive() {
+      const items = [...selected.values()];
+      if (items.length === 0) return;
+
+      const form = document.createElement('form');
+      form.method = 'POST';
+      form.action = apiUrl('/api/archive') + socketParam('?');
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = 'files';
+      input.value = JSON.stringify(items);
+      form.appendChild(input);
+      document.body.appendChild(form);
+      form.submit();
+      form.remove();
+      showToast(\`Preparing ZIP of \${items.length} file(s)…\`);
     }
 
-    .stream-item {
-      display: flex;
-      align-items: center;
-      justify-content: space-between;
-      background: var(--bg);
-      padding: 1rem;
-      border-radius: 8px;
+    // Update the grid in place for a move/rename/copy; only reload when the result lands in view
+    function applyTransfer(event) {
+      if (event.action !== 'copy') {
+        const key = event.from.folder + '/' + event.from.filename;
+        document.querySelectorAll('.file-card[data-key]').forEach(card => {
+          if (card.dataset.key === key) card.remove();
+        });
+      }
+      if (searchQuery || viewShows(event.to.folder)) refreshFiles();
     }
 
-    .stream-info {
-      display: flex;
-      align-items: center;
-      gap: 0.75rem;
+    function viewShows(folder) {
+      if (currentPath) return folder === currentPath;
+      if (currentFolder === 'all') return ['root', 'IMAGES', 'VIDEOS'].includes(folder);
+      return folder === currentFolder;
     }
 
-    .stream-icon {
-      width: 40px;
-      height: 40px;
-      border-radius: 8px;
-      background: rgba(139, 92, 246, 0.1);
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      font-size: 1.25rem;
+    function fileMenu(select, folder, filename) {
+      const choice = select.value;
+      select.value = '';
+      if (choice === 'rename') {
+        const newName = prompt('Rename to', filename);
+        if (newName && newName !== filename) transferFile('rename', folder, filename, { newName });
+      } else if (choice === 'move' || choice === 'copy') {
+        const to = prompt(\`\${choice === 'move' ? 'Move' : 'Copy'} "\${filename}" to folder (e.g. VIDEOS/shoot-1)\`, folder);
+        if (to !== null) transferFile(choice, folder, filename, { to: to.trim() || 'root' });
+      } else if (choice === 'copy-backend') {
+        const others = backendList.filter(backend => backend.name !== currentBackend).map(backend => backend.name);
+        const toBackend = prompt('Copy "' + filename + '" to backend (' + others.join(', ') + ')', others[0]);
+        if (!toBackend) return;
+        const to = prompt('Folder on ' + toBackend.trim(), folder);
+        if (to !== null) transferFile('copy', folder, filename, { to: to.trim() || 'root', toBackend: toBackend.trim() });
+      }
     }
 
-    .stream-name {
-      font-weight: 500;
+    // On a name clash, offer to keep both (auto-suffix) or replace the existing file
+    async function transferFile(kind, folder, filename, body, onConflict) {
+      try {
+        const { res, data } = await fetchJSON(fileUrl('file', folder, filename) + '/' + kind, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, onConflict: onConflict || 'fail' })
+        });
+        if (res.status === 409 && !onConflict && data.location) {
+          if (confirm(data.error + '. Keep both? (a number is added to the new name)')) {
+            return transferFile(kind, folder, filename, body, 'suffix');
+          }
+          if (confirm('Replace the existing file?')) {
+            return transferFile(kind, folder, filename, body, 'overwrite');
+          }
+          return;
+        }
+        if (!res.ok) throw new Error(data.error);
+        // The change event goes to the other backend's viewers, so confirm here
+        if (data.toBackend) showToast('Copied ' + filename + ' to ' + data.toBackend + ': ' + joinPath(data.to.folder, data.to.filename), 'success');
+      } catch (error) {
+        showToast(\`Failed to \${kind} \${filename}: \${error.message}\`, 'error');
+      }
     }
 
-    .stream-type {
-      font-size: 0.75rem;
-      color: var(--text-muted);
+    function openFolder(path) {
+      currentPath = path && path !== 'root' ? path : null;
+      clearSelection();
+      renderBreadcrumbs();
+      refreshFiles();
     }
 
-    .input-group {
-      display: flex;
-      gap: 0.5rem;
-      margin-top: 1rem;
-    }
+    function renderBreadcrumbs() {
+      const el = document.getElementById('breadcrumbs');
+      const home = { all: '🏠 All files', IMAGES: '🖼️ Images', VIDEOS: '🎬 Videos' }[currentFolder] || '🏠 All files';
+      const segments = currentPath ? currentPath.split('/') : [];
 
-    .input-group input {
-      flex: 1;
-      padding: 0.625rem 1rem;
-      border-radius: 8px;
-      border: 1px solid var(--border);
-      background: var(--bg);
-      color: var(--text);
-      font-size: 0.875rem;
+      let html = \`<span class="crumb\${segments.length ? '' : ' current'}" onclick="openFolder(null)">\${home}</span>\`;
+      segments.forEach((segment, i) => {
+        const path = segments.slice(0, i + 1).join('/');
+        const last = i === segments.length - 1;
+        html += \`<span>/</span><span class="crumb\${last ? ' current' : ''}" onclick="openFolder('\${path}')">\${segment}</span>\`;
+      });
+      el.innerHTML = html;
+      document.getElementById('new-folder-btn').style.display = can('write', uploadFolder() || 'root') ? '' : 'none';
     }
 
-    .input-group input:focus {
-      outline: none;
-      border-color: var(--primary);
+    // Folder new folders and uploads go into: the open directory, or the tab's own folder
+    function uploadFolder() {
+      if (currentPath) return currentPath;
+      return currentFolder === 'IMAGES' || currentFolder === 'VIDEOS' ? currentFolder : null;
     }
 
-    .input-group select {
-      padding: 0.625rem 1rem;
-      border-radius: 8px;
-      border: 1px solid var(--border);
-      background: var(--bg);
-      color: var(--text);
-      font-size: 0.875rem;
+    async function createFolder() {
+      const name = prompt('New folder name');
+      if (!name) return;
+      try {
+        const { res, data } = await fetchJSON('/api/directory', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, parentFolder: uploadFolder() || 'root' })
+        });
+        if (!res.ok) throw new Error(data.error);
+        showToast('Folder created: ' + name, 'success');
+      } catch (error) {
+        showToast('Failed to create folder: ' + error.message, 'error');
+      }
     }
 
-    .ticket-badge {
-      display: inline-flex;
-      align-items: center;
-      gap: 0.25rem;
-      padding: 0.25rem 0.5rem;
-      border-radius: 4px;
-      font-size: 0.75rem;
-      background: rgba(139, 92, 246, 0.1);
-      color: var(--primary);
+    // Thumbnail could not be rendered (e.g. no ffmpeg for videos): show the type icon instead
+    function showPlaceholder(img, isVideo) {
+      const placeholder = document.createElement('div');
+      placeholder.className = 'placeholder';
+      placeholder.textContent = isVideo ? '🎬' : '🖼️';
+      img.replaceWith(placeholder);
     }
 
-    .panel-title {
-      font-size: 1.125rem;
-      font-weight: 600;
-      margin-bottom: 1rem;
-      display: flex;
-      align-items: center;
-      gap: 0.5rem;
+    function isImageFile(name) {
+      return /\\.(png|jpe?g|gif|bmp|webp|svg|ico|tiff?|avif|heic|heif|raw|psd|ai|eps|pcx|tga|exr|hdr)$/i.test(name);
     }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <header>
-      <div class="logo">
-        <span>📁</span>
-        <span>BRANDYFICATION Agent</span>
-      </div>
-      <div class="status disconnected" id="status">
-        <span class="status-dot"></span>
-        <span id="status-text">Disconnected</span>
-      </div>
-    </header>
-
-    <div class="toolbar">
-      <button class="btn btn-primary" onclick="connectToServer()">
-        <span>🔌</span> Connect
-      </button>
-      <button class="btn btn-primary" onclick="openUploadModal()">
-        <span>📤</span> Upload
-      </button>
-      <button class="btn btn-secondary" onclick="refreshFiles()">
-        <span>🔄</span> Refresh
-      </button>
-    </div>
-
-    <div class="tabs">
-      <div class="tab active" data-folder="all" onclick="switchTab('all')">All Files</div>
-      <div class="tab" data-folder="IMAGES" onclick="switchTab('IMAGES')">🖼️ Images</div>
-      <div class="tab" data-folder="VIDEOS" onclick="switchTab('VIDEOS')">🎬 Videos</div>
-      <div class="tab" data-folder="queue" onclick="switchTab('queue')">📥 Queue</div>
-      <div class="tab" data-folder="streams" onclick="switchTab('streams')">📡 Streams</div>
-    </div>
 
-    <!-- Queue Panel (hidden by default) -->
-    <div id="queue-panel" class="queue-panel" style="display: none;">
-      <h3 class="panel-title">📥 Download Queue</h3>
-      <div class="queue-stats" id="queue-stats">
-        <div class="stat-card">
-          <div class="stat-value" id="queue-active">0</div>
-          <div class="stat-label">Active</div>
-        </div>
-        <div class="stat-card">
-          <div class="stat-value" id="queue-waiting">0</div>
-          <div class="stat-label">Waiting</div>
-        </div>
-        <div class="stat-card">
-          <div class="stat-value" id="queue-max">5</div>
-          <div class="stat-label">Max Concurrent</div>
-        </div>
-      </div>
-      <div id="queue-list" class="stream-list"></div>
-    </div>
+    function isVideoFile(name) {
+      return /\\.(mp4|gif)$/i.test(name);
+    }
 
-    <!-- Streams Panel (hidden by default) -->
-    <div id="streams-panel" class="stream-panel" style="display: none;">
-      <h3 class="panel-title">📡 Active Streams</h3>
-      <div id="streams-list" class="stream-list">
-        <div class="empty-state" style="padding: 2rem;">
-          <div class="icon">📡</div>
-          <p>No active streams</p>
-        </div>
-      </div>
-      <div class="input-group">
-        <input type="text" id="stream-source" placeholder="rtmp://server/app/stream or rtsp://camera/stream">
-        <select id="stream-type">
-          <option value="rtmp">RTMP (OBS)</option>
-          <option value="rtsp">RTSP (Camera)</option>
-        </select>
-        <button class="btn btn-primary" onclick="startStream()">▶️ Start</button>
-      </div>
-    </div>
+    function switchTab(folder) {
+      currentFolder = folder;
+      currentPath = null;
+      clearSelection();
+      renderBreadcrumbs();
+      document.querySelectorAll('.tab').forEach(t => t.classList.remove('active'));
+      document.querySelector(\`.tab[data-folder="\${folder}"]\`).classList.add('active');
+      
+      // Hide/show panels based on tab
+      const panelTab = folder === 'queue' || folder === 'streams' || folder === 'tools';
+      document.getElementById('file-grid').style.display = panelTab ? 'none' : 'grid';
+      document.getElementById('sort-select').style.display = panelTab ? 'none' : '';
+      document.getElementById('search-input').style.display = panelTab ? 'none' : '';
+      document.getElementById('breadcrumbs').style.display = panelTab ? 'none' : '';
+      document.getElementById('queue-panel').style.display = folder === 'queue' ? 'block' : 'none';
+      document.getElementById('streams-panel').style.display = folder === 'streams' ? 'block' : 'none';
+      document.getElementById('tools-panel').style.display = folder === 'tools' ? 'block' : 'none';
+      
+      const live = watchTab(folder);
+      if (folder === 'queue') {
+        renderMyDownloads();
+        if (!live) refreshQueue();
+      } else if (folder === 'streams') {
+        if (!live) refreshStreams();
+        refreshStreamHealth();
+        refreshPresets();
+        refreshRecordings();
+      } else if (folder === 'tools') {
+        refreshTools();
+      } else {
+        refreshFiles();
+      }
+    }
 
-    <div id="file-grid" class="grid">
-      <div class="empty-state">
-        <div class="icon">📂</div>
-        <p>Connect to the server to view files</p>
-      </div>
-    </div>
-  </div>
+    async function refreshQueue() {
+      renderMyDownloads();
+      try {
+        const res = await fetch('/api/queue');
+        renderQueue(await res.json());
+      } catch (error) {
+        console.error('Failed to fetch queue:', error);
+      }
+    }
 
-  <!-- Upload Modal -->
-  <div class="modal" id="upload-modal">
-    <div class="modal-content" style="width: 500px;">
-      <div class="modal-header">
-        <h3>Upload File</h3>
-        <button class="close-btn" onclick="closeModal('upload-modal')">&times;</button>
-      </div>
-      <div class="modal-body">
-        <div class="upload-zone" id="upload-zone" onclick="document.getElementById('file-input').click()">
-          <div class="upload-icon">📁</div>
-          <p class="upload-text">Drop files here or click to browse</p>
-          <p class="upload-text" style="font-size: 0.75rem; margin-top: 0.5rem;">
-            Images: PNG, JPG, GIF, WEBP, SVG, etc.<br>
-            Videos: MP4, GIF
-          </p>
-        </div>
-        <input type="file" id="file-input" hidden multiple accept="image/*,video/mp4,.gif">
-      </div>
-    </div>
-  </div>
+    function renderQueue(data) {
+      document.getElementById('queue-active').textContent = data.active || 0;
+      document.getElementById('queue-waiting').textContent = data.waiting || 0;
+      document.getElementById('queue-max').textContent = data.maxConcurrent || 5;
+
+      const listEl = document.getElementById('queue-list');
+      if (data.waitingTickets && data.waitingTickets.length > 0) {
+        listEl.innerHTML = data.waitingTickets.map(ticket => \`
+          <div class="stream-item">
+            <div class="stream-info">
+              <div class="stream-icon">🎫</div>
+              <div>
+                <div class="stream-name">Ticket: \${ticket.ticketId.slice(0, 8)}...</div>
+                <div class="stream-type">Position: \${ticket.position} | Wait: ~\${ticket.estimatedWait}s</div>
+              </div>
+            </div>
+            <span class="ticket-badge">⏳ Waiting</span>
+          </div>
+        \`).join('');
+      } else {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No waiting tickets</p></div>';
+      }
+    }
 
-  <!-- Preview Modal -->
-  <div class="modal" id="preview-modal">
-    <div class="modal-content">
-      <div class="modal-header">
-        <h3 id="preview-title">File Preview</h3>
-        <button class="close-btn" onclick="closeModal('preview-modal')">&times;</button>
-      </div>
-      <div class="modal-body" id="preview-body"></div>
-    </div>
-  </div>
+    function renderTransfers(data) {
+      const listEl = document.getElementById('transfer-list');
+      if (data.active && data.active.length > 0) {
+        listEl.innerHTML = data.active.map(transfer => \`
+          <div class="stream-item">
+            <div class="stream-info">
+              <div class="stream-icon">📤</div>
+              <div>
+                <div class="stream-name">\${transfer.filename}</div>
+                <div class="stream-type">\${transfer.ip || ''}\${transfer.duration ? ' | ' + Math.round(transfer.duration) + 's' : ''}</div>
+              </div>
+            </div>
+            <span class="ticket-badge">▶️ Active</span>
+          </div>
+        \`).join('');
+      } else {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No active transfers</p></div>';
+      }
+    }
 
-  <!-- Toast -->
-  <div class="toast" id="toast"></div>
+    // Live dashboards: the open tab's topics are subscribed over the socket and kept current from
+    // state_delta events, instead of re-fetching on every queue_update/stream_update
+    const liveState = {};
+    let watchedTopics = new Set();
 
-  <script>
-    let ws = null;
-    let currentFolder = 'all';
-    let files = [];
+    function tabTopics(tab) {
+      if (tab === 'queue') return ['queue', 'downloads'];
+      if (tab === 'streams') return ['streams'];
+      return [];
+    }
 
-    // Initialize
-    document.addEventListener('DOMContentLoaded', () => {
-      initWebSocket();
-      setupDragDrop();
-      setupFileInput();
-    });
+    // Returns false when there is no open socket, so the caller falls back to a one-off fetch
+    function watchTab(tab) {
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        watchedTopics = new Set();
+        return false;
+      }
+      const wanted = new Set(tabTopics(tab));
+      const drop = [...watchedTopics].filter(topic => !wanted.has(topic));
+      const add = [...wanted].filter(topic => !watchedTopics.has(topic));
+      if (drop.length) ws.send(JSON.stringify({ action: 'unsubscribe', backend: currentBackend, payload: { topics: drop } }));
+      if (add.length) ws.send(JSON.stringify({ action: 'subscribe', backend: currentBackend, payload: { topics: add } }));
+      drop.forEach(topic => delete liveState[topic]);
+      watchedTopics = wanted;
+      return true;
+    }
 
-    function initWebSocket() {
-      const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
-      ws = new WebSocket(protocol + '//' + location.host);
+    function renderTopic(topic) {
+      const state = liveState[topic];
+      if (!state) return;
+      if (topic === 'queue') renderQueue(state);
+      else if (topic === 'downloads') renderTransfers(state);
+      else if (topic === 'streams') renderStreams(state);
+    }
 
-      ws.onopen = () => console.log('[WS] Connected');
-      ws.onclose = () => {
-        console.log('[WS] Disconnected, reconnecting...');
-        setTimeout(initWebSocket, 3000);
-      };
+    function applyChanges(topic, changes) {
+      const state = liveState[topic];
+      if (!state) return;
+      for (const change of changes) {
+        if (topic === 'queue') applyQueueChange(state, change);
+        else if (topic === 'downloads') applyDownloadChange(state, change);
+        else if (topic === 'streams') liveState.streams = applyStreamChange(liveState.streams, change);
+      }
+      renderTopic(topic);
+    }
 
-      ws.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        handleWSMessage(data);
-      };
+    function applyQueueChange(state, { kind, ...change }) {
+      const tickets = (state.waitingTickets || []).filter(ticket => ticket.ticketId !== change.ticketId);
+      if (kind === 'stats') {
+        Object.assign(state, change);
+        return;
+      }
+      if (kind === 'ticket_joined') {
+        tickets.push(change);
+      } else if (kind === 'ticket_moved') {
+        tickets.push({ ticketId: change.ticketId, position: change.to, estimatedWait: change.estimatedWait });
+      }
+      // ticket_granted / ticket_expired / ticket_left just drop out of the waiting list
+      state.waitingTickets = tickets.sort((a, b) => a.position - b.position);
     }
 
-    function handleWSMessage(data) {
-      switch (data.type) {
-        case 'status':
-          updateStatus(data.connected);
-          if (data.connected) refreshFiles();
+    function applyDownloadChange(state, { kind, ...change }) {
+      const others = list => (list || []).filter(entry => entry.sessionId !== change.sessionId);
+      switch (kind) {
+        case 'stats':
+          state.stats = change;
           break;
-        case 'response':
-          handleResponse(data);
+        case 'download_waiting':
+          state.waiting = [...others(state.waiting), change];
           break;
-        case 'file_changed':
-          showToast(\`File \${data.action}: \${data.filename}\`, 'success');
-          refreshFiles();
+        case 'download_moved':
+          (state.waiting || []).forEach(entry => { if (entry.sessionId === change.sessionId) entry.position = change.to; });
           break;
-        case 'queue_update':
-          showToast(\`Queue \${data.action}: \${data.filename || ''}\`, 'success');
-          if (currentFolder === 'queue') refreshQueue();
+        case 'download_left_queue':
+          state.waiting = others(state.waiting);
           break;
-        case 'stream_update':
-          showToast(\`Stream \${data.action}: \${data.source || data.streamId || ''}\`, 'success');
-          if (currentFolder === 'streams') refreshStreams();
+        case 'download_started':
+          state.waiting = others(state.waiting);
+          state.active = [...others(state.active), change];
           break;
-        case 'error':
-          showToast(data.message, 'error');
+        case 'download_finished':
+          state.active = others(state.active);
           break;
       }
     }
 
-    function handleResponse(data) {
-      if (data.action === 'list_files' || data.action === 'list_images' || data.action === 'list_videos') {
-        renderFiles(data.result);
+    function applyStreamChange(streams, change) {
+      switch (change.kind) {
+        case 'stream_added':
+          return [...streams.filter(stream => stream.id !== change.stream.id), change.stream];
+        case 'stream_removed':
+          return streams.filter(stream => stream.id !== change.id);
+        case 'stream_status':
+          showToast(\`Stream \${change.id}: \${change.from} → \${change.to}\`, /error|fail/i.test(change.to) ? 'error' : 'success');
+          return streams.map(stream => stream.id === change.id ? { ...stream, status: change.to } : stream);
+        case 'stream_uptime':
+          return streams.map(stream => stream.id === change.id ? { ...stream, uptime: change.uptime } : stream);
       }
+      return streams;
     }
 
-    function updateStatus(connected) {
-      const statusEl = document.getElementById('status');
-      const statusText = document.getElementById('status-text');
-      
-      if (connected) {
-        statusEl.className = 'status connected';
-        statusText.textContent = 'Connected';
+    // Queued downloads of this tab, by ticket, as reported over the socket
+    const myDownloads = new Map();
+
+    function handleDownloadTicket(ticket) {
+      if (ticket.status === 'queued') {
+        const wait = ticket.waitTime !== undefined ? \` (~\${ticket.waitTime}s)\` : '';
+        showToast(\`\${ticket.filename}: #\${ticket.position ?? '?'} in the download queue\${wait}\`);
+      } else if (ticket.status === 'granted' || ticket.status === 'active') {
+        showToast('Download starting: ' + ticket.filename, 'success');
+      } else if (ticket.status === 'expired') {
+        showToast('Download ticket expired: ' + ticket.filename, 'error');
+      }
+
+      if (ticket.status === 'released' || ticket.status === 'expired') {
+        myDownloads.delete(ticket.ticketId);
       } else {
-        statusEl.className = 'status disconnected';
-        statusText.textContent = 'Disconnected';
+        myDownloads.set(ticket.ticketId, ticket);
       }
+      renderMyDownloads();
     }
 
-    async function connectToServer() {
+    function renderMyDownloads() {
+      const listEl = document.getElementById('my-downloads');
+      if (myDownloads.size === 0) {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No queued downloads</p></div>';
+        return;
+      }
+      listEl.innerHTML = [...myDownloads.values()].map(ticket => \`
+        <div class="stream-item">
+          <div class="stream-info">
+            <div class="stream-icon">⬇️</div>
+            <div>
+              <div class="stream-name">\${ticket.filename}</div>
+              <div class="stream-type">\${ticket.status === 'queued' ? \`Position: \${ticket.position ?? '?'} | Wait: ~\${ticket.waitTime ?? '?'}s\` : 'Downloading'}</div>
+            </div>
+          </div>
+          <span class="ticket-badge">\${ticket.status === 'queued' ? '⏳ Waiting' : '▶️ Active'}</span>
+        </div>
+      \`).join('');
+    }
+
+    async function refreshStreams() {
       try {
-        const res = await fetch('/api/connect', { method: 'POST' });
-        const data = await res.json();
-        if (data.success) {
-          showToast('Connected to MCP server', 'success');
-        }
+        const res = await fetch('/api/streams');
+        renderStreams(await res.json());
       } catch (error) {
-        showToast('Failed to connect', 'error');
+        console.error('Failed to fetch streams:', error);
       }
     }
 
-    async function refreshFiles() {
-      try {
-        let url = '/api/files?folder=' + currentFolder;
-        if (currentFolder === 'IMAGES') url = '/api/images';
-        if (currentFolder === 'VIDEOS') url = '/api/videos';
+    function renderStreams(streams) {
+      const listEl = document.getElementById('streams-list');
+      shownStreams = streams || [];
+      if (streams && streams.length > 0) {
+        listEl.innerHTML = streams.map(stream => \`
+          <div class="stream-item">
+            <div class="stream-info">
+              <div class="stream-icon">\${stream.type === 'rtmp' ? '📹' : '📷'}</div>
+              <div>
+                <div class="stream-name">\${escapeHtml(stream.url || stream.name || stream.id)}</div>
+                <div class="stream-type">\${(stream.type || '').toUpperCase()} | \${stream.status}\${stream.uptime !== undefined ? ' | up ' + Math.round(stream.uptime) + 's' : ''}</div>
+              </div>
+            </div>
+            <div style="display:flex; gap:0.5rem; align-items:center;">
+              \${healthBadge(stream.id)}
+              \${stream.playlistUrl ? \`<button class="btn btn-secondary" onclick="watchStream('\${stream.id}')">▶️ Watch</button>\` : ''}
+              \${stream.playlistUrl && can('stream') ? recordButton(stream.id) : ''}
+              \${can('stream') ? \`<button class="btn btn-secondary" onclick="stopStream('\${stream.id}')">⏹️ Stop</button>\` : ''}
+            </div>
+          </div>
+        \`).join('');
+      } else {
+        listEl.innerHTML = '<div class="empty-state" style="padding:2rem;"><div class="icon">📡</div><p>No active streams</p></div>';
+      }
+    }
 
-        const res = await fetch(url);
-        const data = await res.json();
-        renderFiles(Array.isArray(data) ? data : [data]);
+    // The agent's health checks: a typed state per stream, kept current from stream_health events
+    let streamHealth = new Map();
+    const HEALTH_LABELS = { starting: '⏳ Starting', live: '🟢 Live', stalled: '⚠️ Stalled', reconnecting: '🔄 Reconnecting', stopped: '⏹️ Stopped', failed: '❌ Failed' };
+
+    async function refreshStreamHealth() {
+      try {
+        const res = await fetch('/api/streams/health');
+        streamHealth = new Map((await res.json()).map(health => [health.streamId, health]));
+        renderStreams(shownStreams);
       } catch (error) {
-        console.error('Failed to fetch files:', error);
+        console.error('Failed to fetch stream health:', error);
       }
     }
 
-    function renderFiles(data) {
-      const grid = document.getElementById('file-grid');
-      let allFiles = [];
+    function healthBadge(streamId) {
+      const health = streamHealth.get(streamId);
+      if (!health) return '';
+      const title = [health.reason, health.restarts ? health.restarts + ' restart(s)' : ''].filter(Boolean).join(' | ');
+      return '<span class="ticket-badge health-badge ' + health.state + '" title="' + escapeHtml(title) + '">' + HEALTH_LABELS[health.state] + '</span>';
+    }
 
-      if (Array.isArray(data)) {
-        data.forEach(folder => {
-          const folderFiles = folder.files || folder.images || folder.videos || [];
-          folderFiles.forEach(f => {
-            allFiles.push({
-              ...f,
-              folder: folder.folder.includes('IMAGES') ? 'IMAGES' : 
-                      folder.folder.includes('VIDEOS') ? 'VIDEOS' : 'root'
-            });
-          });
-        });
+    function handleStreamHealth(update) {
+      streamHealth.set(update.streamId, update.health);
+      const name = update.health.source || update.streamId;
+      if (update.to === 'stalled' || update.to === 'failed') {
+        showToast('Stream ' + name + ' ' + update.to + (update.reason ? ': ' + update.reason : ''), 'error');
+      } else if (update.to === 'starting' && update.health.replaces) {
+        streamHealth.delete(update.health.replaces);
+        showToast('Stream ' + name + ' restarted', 'success');
+      } else if (update.to === 'live' && update.from && update.from !== 'starting') {
+        showToast('Stream ' + name + ' recovered', 'success');
       }
+      if (currentFolder === 'streams') renderStreams(shownStreams);
+    }
 
-      if (allFiles.length === 0) {
-        grid.innerHTML = \`
-          <div class="empty-state" style="grid-column: 1/-1;">
-            <div class="icon">📂</div>
-            <p>No files found</p>
-          </div>
-        \`;
-        return;
+    // Recordings and schedules of the current backend, refreshed on every recording stream_update
+    let recordings = [];
+    const RECORDING_ICONS = { recording: '🔴', finalizing: '⏳', finished: '✅', failed: '❌' };
+    const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    async function refreshRecordings() {
+      try {
+        const [recordingsRes, schedulesRes] = await Promise.all([fetch('/api/recordings'), fetch('/api/recording-schedules')]);
+        recordings = await recordingsRes.json();
+        renderRecordings();
+        renderSchedules(await schedulesRes.json());
+        renderStreams(shownStreams);
+      } catch (error) {
+        console.error('Failed to fetch recordings:', error);
       }
+    }
 
-      grid.innerHTML = allFiles.map(file => {
-        const isImage = isImageFile(file.name);
-        const isVideo = isVideoFile(file.name);
-        const previewUrl = \`/api/file/\${file.folder}/\${encodeURIComponent(file.name)}\`;
+    function recordButton(streamId) {
+      const active = recordings.some(recording => recording.streamId === streamId && recording.status === 'recording');
+      return active
+        ? '<button class="btn btn-secondary" onclick="stopRecording(\\'' + streamId + '\\')">⏹️ Stop recording</button>'
+        : '<button class="btn btn-secondary" onclick="recordStream(\\'' + streamId + '\\')">⏺️ Record</button>';
+    }
 
-        return \`
-          <div class="file-card" onclick="previewFile('\${file.folder}', '\${file.name}')">
-            <div class="file-preview">
-              \${isImage ? \`<img src="\${previewUrl}" alt="\${file.name}" loading="lazy">\` :
-                isVideo ? \`<video src="\${previewUrl}" muted></video>\` :
-                \`<div class="placeholder">📄</div>\`}
-            </div>
-            <div class="file-info">
-              <div class="file-name" title="\${file.name}">\${file.name}</div>
-              <div class="file-meta">\${file.mimeType || file.type || 'file'}</div>
-            </div>
-            <div class="file-actions" onclick="event.stopPropagation()">
-              <button class="action-btn" onclick="downloadFile('\${file.folder}', '\${file.name}')">⬇️ Download</button>
-              <button class="action-btn delete" onclick="deleteFile('\${file.folder}', '\${file.name}')">🗑️ Delete</button>
-            </div>
-          </div>
-        \`;
-      }).join('');
+    function renderRecordings() {
+      const listEl = document.getElementById('recordings-list');
+      if (recordings.length === 0) {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No recordings yet</p></div>';
+        return;
+      }
+      listEl.innerHTML = recordings.slice(0, 20).map(recording =>
+        '<div class="stream-item"><div class="stream-info">' +
+          '<div class="stream-icon">' + RECORDING_ICONS[recording.status] + '</div>' +
+          '<div><div class="stream-name">' + escapeHtml(recording.file ? recording.file.filename : recording.name + '.mp4') + '</div>' +
+          '<div class="stream-type">' + escapeHtml(recording.status) + ' | ' + recording.segments + ' segments | ' + (recording.bytes / 1048576).toFixed(1) + ' MB' +
+            ' | ' + new Date(recording.startedAt).toLocaleString() + (recording.error ? ' | ' + escapeHtml(recording.error) : '') + '</div></div>' +
+        '</div></div>'
+      ).join('');
     }
 
-    function isImageFile(name) {
-      return /\\.(png|jpe?g|gif|bmp|webp|svg|ico|tiff?|avif|heic|heif|raw|psd|ai|eps|pcx|tga|exr|hdr)$/i.test(name);
+    function renderSchedules(schedules) {
+      const listEl = document.getElementById('schedules-list');
+      if (schedules.length === 0) {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No schedules</p></div>';
+        return;
+      }
+      listEl.innerHTML = schedules.map(schedule =>
+        '<div class="stream-item"><div class="stream-info">' +
+          '<div class="stream-icon">' + (schedule.active ? '🔴' : '🗓️') + '</div>' +
+          '<div><div class="stream-name">' + escapeHtml(schedule.source) + '</div>' +
+          '<div class="stream-type">' + schedule.type.toUpperCase() + ' | ' + schedule.start + '–' + schedule.end + ' | ' +
+            (schedule.days ? schedule.days.map(day => DAY_NAMES[day]).join(', ') : 'every day') + ' | → ' + escapeHtml(schedule.folder || 'VIDEOS') + '</div></div>' +
+        '</div>' +
+        (can('stream') ? '<button class="btn btn-secondary" onclick="deleteSchedule(\\'' + schedule.id + '\\')">🗑️ Delete</button>' : '') +
+        '</div>'
+      ).join('');
     }
 
-    function isVideoFile(name) {
-      return /\\.(mp4|gif)$/i.test(name);
+    async function recordStream(streamId) {
+      // A stream started from a preset suggests the preset's recording target
+      const stream = shownStreams.find(candidate => candidate.id === streamId) || {};
+      const preset = presets.find(candidate => candidate.record && stream.url && stream.url.startsWith(candidate.source));
+      const folder = prompt('Record into folder:', preset ? preset.record.folder : 'VIDEOS');
+      if (folder === null) return;
+      const res = await fetch('/api/streams/' + encodeURIComponent(streamId) + '/record', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder: folder || undefined })
+      });
+      const data = await res.json();
+      if (res.ok) showToast('Recording to ' + data.folder + '/' + data.name + '.mp4', 'success');
+      else showToast(data.error || 'Failed to start recording', 'error');
+      refreshRecordings();
     }
 
-    function switchTab(folder) {
-      currentFolder = folder;
-      document.querySelectorAll('.tab').forEach(t => t.classList.remove('active'));
-      document.querySelector(\`.tab[data-folder="\${folder}"]\`).classList.add('active');
-      
-      // Hide/show panels based on tab
-      document.getElementById('file-grid').style.display = (folder === 'queue' || folder === 'streams') ? 'none' : 'grid';
-      document.getElementById('queue-panel').style.display = folder === 'queue' ? 'block' : 'none';
-      document.getElementById('streams-panel').style.display = folder === 'streams' ? 'block' : 'none';
-      
-      if (folder === 'queue') {
-        refreshQueue();
-      } else if (folder === 'streams') {
-        refreshStreams();
+    async function stopRecording(streamId) {
+      const res = await fetch('/api/streams/' + encodeURIComponent(streamId) + '/record', { method: 'DELETE' });
+      const data = await res.json();
+      if (res.ok) showToast('Recording stopped, writing ' + data.name + '.mp4', 'success');
+      else showToast(data.error || 'Failed to stop recording', 'error');
+      refreshRecordings();
+    }
+
+    async function addSchedule() {
+      const source = document.getElementById('schedule-source').value.trim();
+      const days = document.getElementById('schedule-days').value;
+      if (!source) {
+        showToast('Please enter a source to record', 'error');
+        return;
+      }
+      const res = await fetch('/api/recording-schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source,
+          type: document.getElementById('schedule-type').value,
+          start: document.getElementById('schedule-start').value,
+          end: document.getElementById('schedule-end').value,
+          days: days ? days.split(',').map(Number) : undefined
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        showToast('Scheduled: ' + source + ' ' + data.start + '–' + data.end, 'success');
+        document.getElementById('schedule-source').value = '';
       } else {
-        refreshFiles();
+        showToast(data.error || 'Failed to add schedule', 'error');
       }
+      refreshRecordings();
     }
 
-    async function refreshQueue() {
+    async function deleteSchedule(scheduleId) {
+      if (!confirm('Delete this recording schedule?')) return;
+      const res = await fetch('/api/recording-schedules/' + encodeURIComponent(scheduleId), { method: 'DELETE' });
+      if (!res.ok) showToast('Failed to delete schedule', 'error');
+      refreshRecordings();
+    }
+
+    // Stream presets: named sources for the picker; an ingest key is only ever shown right after it is made
+    let presets = [];
+
+    async function refreshPresets() {
       try {
-        const res = await fetch('/api/queue');
-        const data = await res.json();
-        
-        document.getElementById('queue-active').textContent = data.active || 0;
-        document.getElementById('queue-waiting').textContent = data.waiting || 0;
-        document.getElementById('queue-max').textContent = data.maxConcurrent || 5;
-        
-        const listEl = document.getElementById('queue-list');
-        if (data.waitingTickets && data.waitingTickets.length > 0) {
-          listEl.innerHTML = data.waitingTickets.map(ticket => \`
-            <div class="stream-item">
-              <div class="stream-info">
-                <div class="stream-icon">🎫</div>
-                <div>
-                  <div class="stream-name">Ticket: \${ticket.ticketId.slice(0, 8)}...</div>
-                  <div class="stream-type">Position: \${ticket.position} | Wait: ~\${ticket.estimatedWait}s</div>
-                </div>
-              </div>
-              <span class="ticket-badge">⏳ Waiting</span>
-            </div>
-          \`).join('');
-        } else {
-          listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No waiting tickets</p></div>';
-        }
+        const res = await fetch('/api/stream-presets');
+        presets = await res.json();
+        renderPresets();
       } catch (error) {
-        console.error('Failed to fetch queue:', error);
+        console.error('Failed to fetch presets:', error);
       }
     }
 
-    async function refreshStreams() {
+    function renderPresets() {
+      const picker = document.getElementById('stream-preset');
+      const picked = picker.value;
+      picker.innerHTML = '<option value="">Custom source…</option>' +
+        presets.map(preset => '<option value="' + preset.id + '">' + escapeHtml(preset.name) + '</option>').join('');
+      picker.value = presets.some(preset => preset.id === picked) ? picked : '';
+      pickPreset();
+
+      const listEl = document.getElementById('presets-list');
+      if (presets.length === 0) {
+        listEl.innerHTML = '<div class="empty-state" style="padding:1rem;"><p>No presets yet</p></div>';
+        return;
+      }
+      listEl.innerHTML = presets.map(preset =>
+        '<div class="stream-item"><div class="stream-info">' +
+          '<div class="stream-icon">' + (preset.type === 'rtmp' ? '📹' : '📷') + '</div>' +
+          '<div><div class="stream-name">' + escapeHtml(preset.name) + '</div>' +
+          '<div class="stream-type">' + preset.type.toUpperCase() + ' | ' + escapeHtml(preset.source) +
+            (preset.ingestKey ? ' | key ' + escapeHtml(preset.ingestKey.preview) : '') +
+            (preset.autoStart ? ' | auto-start' : '') +
+            (preset.record ? ' | → ' + escapeHtml(preset.record.folder) : '') + '</div></div>' +
+        '</div>' +
+        (can('stream') ? '<div style="display:flex; gap:0.5rem;">' +
+          '<button class="btn btn-secondary" onclick="startPreset(\\'' + preset.id + '\\')">▶️ Start</button>' +
+          (preset.type === 'rtmp' ? '<button class="btn btn-secondary" onclick="rotateIngestKey(\\'' + preset.id + '\\')">🔑 ' + (preset.ingestKey ? 'Rotate key' : 'New key') + '</button>' : '') +
+          (preset.ingestKey ? '<button class="btn btn-secondary" onclick="revokeIngestKey(\\'' + preset.id + '\\')">🚫 Revoke key</button>' : '') +
+          '<button class="btn btn-secondary" onclick="deletePreset(\\'' + preset.id + '\\')">🗑️ Delete</button>' +
+        '</div>' : '') +
+        '</div>'
+      ).join('');
+    }
+
+    // A picked preset stands in for the source and type fields of the start form
+    function pickPreset() {
+      const preset = presets.find(candidate => candidate.id === document.getElementById('stream-preset').value);
+      const sourceEl = document.getElementById('stream-source');
+      const typeEl = document.getElementById('stream-type');
+      if (preset) {
+        sourceEl.value = preset.source;
+        typeEl.value = preset.type;
+      } else if (sourceEl.disabled) {
+        sourceEl.value = '';
+      }
+      sourceEl.disabled = typeEl.disabled = Boolean(preset);
+    }
+
+    async function startPreset(presetId) {
+      const preset = presets.find(candidate => candidate.id === presetId);
+      if (!preset) return;
+      const record = Boolean(preset.record) && confirm('Also record ' + preset.name + ' into ' + preset.record.folder + '?');
+      const res = await fetch('/api/stream-presets/' + encodeURIComponent(presetId) + '/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ record })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        showToast('Stream started: ' + preset.name, 'success');
+        if (!watchedTopics.has('streams')) refreshStreams();
+        if (data.recording) refreshRecordings();
+      } else {
+        showToast(data.error || 'Failed to start ' + preset.name, 'error');
+      }
+    }
+
+    async function savePreset() {
+      const name = document.getElementById('preset-name').value.trim();
+      const source = document.getElementById('preset-source').value.trim();
+      const folder = document.getElementById('preset-folder').value.trim();
+      if (!name || !source) {
+        showToast('Please enter a name and a source', 'error');
+        return;
+      }
+      const res = await fetch('/api/stream-presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          source,
+          type: document.getElementById('preset-type').value,
+          autoStart: document.getElementById('preset-autostart').checked,
+          record: folder ? { folder } : undefined
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        showToast('Preset saved: ' + data.name, 'success');
+        ['preset-name', 'preset-source', 'preset-folder'].forEach(id => document.getElementById(id).value = '');
+      } else {
+        showToast(data.error || 'Failed to save preset', 'error');
+      }
+    }
+
+    async function deletePreset(presetId) {
+      const preset = presets.find(candidate => candidate.id === presetId);
+      if (!preset || !confirm('Delete the preset ' + preset.name + '? A stream it started keeps running.')) return;
+      const res = await fetch('/api/stream-presets/' + encodeURIComponent(presetId), { method: 'DELETE' });
+      if (!res.ok) showToast('Failed to delete preset', 'error');
+    }
+
+    async function rotateIngestKey(presetId) {
+      const preset = presets.find(candidate => candidate.id === presetId);
+      if (!preset) return;
+      if (preset.ingestKey && !confirm('Replace the ingest key of ' + preset.name + '? A stream pushed with the current key is stopped.')) return;
+      const res = await fetch('/api/stream-presets/' + encodeURIComponent(presetId) + '/ingest-key', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast(data.error || 'Failed to create an ingest key', 'error');
+        return;
+      }
+      prompt('Stream key for ' + preset.name + ' (shown only now). In OBS set the server to ' + preset.source + ' and paste this as the stream key:', data.key);
+    }
+
+    async function revokeIngestKey(presetId) {
+      const preset = presets.find(candidate => candidate.id === presetId);
+      if (!preset || !confirm('Revoke the ingest key of ' + preset.name + '? A stream pushed with it is stopped.')) return;
+      const res = await fetch('/api/stream-presets/' + encodeURIComponent(presetId) + '/ingest-key', { method: 'DELETE' });
+      if (!res.ok) showToast('Failed to revoke the ingest key', 'error');
+    }
+
+    // The stream player: native HLS where the browser has it (Safari), hls.js elsewhere
+    let shownStreams = [];
+    let player = null; // { video, hls, timer }
+    let hlsScript = null;
+
+    function loadHlsScript() {
+      if (window.Hls) return Promise.resolve(window.Hls);
+      hlsScript = hlsScript || new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = '/vendor/hls.min.js';
+        script.onload = () => resolve(window.Hls);
+        script.onerror = () => {
+          hlsScript = null;
+          reject(new Error('hls.js is not available'));
+        };
+        document.head.append(script);
+      });
+      return hlsScript;
+    }
+
+    async function watchStream(streamId) {
+      stopPlayer();
+      const stream = shownStreams.find(candidate => candidate.id === streamId) || {};
+      const src = apiUrl('/api/streams/' + encodeURIComponent(streamId) + '/hls/');
+      const body = document.getElementById('preview-body');
+
+      document.getElementById('preview-title').textContent = '📡 ' + (stream.url || stream.name || streamId);
+      body.innerHTML = '<video id="live-video" controls autoplay muted playsinline></video>' +
+        '<div class="live-bar"><span id="live-badge" class="live-badge">LIVE</span>' +
+        '<span id="live-latency">Connecting…</span>' +
+        '<button class="btn btn-secondary" id="live-sync" onclick="goLive()" style="display:none;">⏩ Go live</button></div>';
+      document.getElementById('preview-modal').classList.add('active');
+
+      const video = document.getElementById('live-video');
+      const current = player = { video, hls: null, timer: setInterval(updateLiveIndicators, 1000) };
+
+      if (video.canPlayType('application/vnd.apple.mpegurl')) {
+        video.src = src;
+        return;
+      }
+
+      let Hls = null;
       try {
-        const res = await fetch('/api/streams');
-        const streams = await res.json();
-        
-        const listEl = document.getElementById('streams-list');
-        if (streams && streams.length > 0) {
-          listEl.innerHTML = streams.map(stream => \`
-            <div class="stream-item">
-              <div class="stream-info">
-                <div class="stream-icon">\${stream.type === 'rtmp' ? '📹' : '📷'}</div>
-                <div>
-                  <div class="stream-name">\${stream.source}</div>
-                  <div class="stream-type">\${stream.type.toUpperCase()} | \${stream.status}</div>
-                </div>
-              </div>
-              <button class="btn btn-secondary" onclick="stopStream('\${stream.id}')">⏹️ Stop</button>
-            </div>
-          \`).join('');
+        Hls = await loadHlsScript();
+      } catch (error) {
+        console.error('Failed to load hls.js:', error);
+      }
+      if (player !== current) return; // closed or replaced while the script loaded
+      if (!Hls || !Hls.isSupported()) {
+        setLiveText('This browser cannot play HLS streams');
+        return;
+      }
+
+      current.hls = new Hls({ lowLatencyMode: true });
+      current.hls.on(Hls.Events.ERROR, (event, data) => {
+        if (!data.fatal) return;
+        if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+          setLiveText('Stream unreachable, retrying…');
+          current.hls.startLoad();
+        } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+          current.hls.recoverMediaError();
         } else {
-          listEl.innerHTML = '<div class="empty-state" style="padding:2rem;"><div class="icon">📡</div><p>No active streams</p></div>';
+          setLiveText('Playback failed: ' + data.details);
+          current.hls.destroy();
+          current.hls = null;
         }
-      } catch (error) {
-        console.error('Failed to fetch streams:', error);
+      });
+      current.hls.loadSource(src);
+      current.hls.attachMedia(video);
+    }
+
+    function stopPlayer() {
+      if (!player) return;
+      clearInterval(player.timer);
+      if (player.hls) player.hls.destroy();
+      player.video.removeAttribute('src');
+      player.video.load();
+      player = null;
+    }
+
+    function setLiveText(text) {
+      const label = document.getElementById('live-latency');
+      if (label) label.textContent = text;
+    }
+
+    // Seconds behind the live edge; hls.js knows it, native players expose the edge as the end of the seekable range
+    function liveLatency() {
+      if (player.hls) return player.hls.latency;
+      const seekable = player.video.seekable;
+      return seekable.length ? Math.max(seekable.end(seekable.length - 1) - player.video.currentTime, 0) : undefined;
+    }
+
+    function updateLiveIndicators() {
+      if (!player) return;
+      const video = player.video;
+      const badge = document.getElementById('live-badge');
+      const sync = document.getElementById('live-sync');
+      const latency = liveLatency();
+
+      if (video.readyState < 2 || latency === undefined) {
+        badge.classList.remove('on');
+        sync.style.display = 'none';
+        if (video.error) setLiveText('Playback failed');
+        else if (player.hls || video.src) setLiveText('Buffering…');
+        return;
       }
+
+      // At the edge means within the player's own target latency, plus a few seconds of slack
+      const target = player.hls ? player.hls.targetLatency || 0 : 0;
+      const atEdge = !video.paused && latency <= target + 3;
+      badge.classList.toggle('on', atEdge);
+      sync.style.display = atEdge ? 'none' : '';
+      setLiveText((video.paused ? 'Paused · ' : '') + 'Latency ' + latency.toFixed(1) + 's');
+    }
+
+    function goLive() {
+      if (!player) return;
+      const video = player.video;
+      const seekable = video.seekable;
+      const edge = player.hls && player.hls.liveSyncPosition ? player.hls.liveSyncPosition : seekable.length ? seekable.end(seekable.length - 1) : undefined;
+      if (edge !== undefined) video.currentTime = edge;
+      video.play();
     }
 
     async function startStream() {
+      const presetId = document.getElementById('stream-preset').value;
+      if (presetId) return startPreset(presetId);
       const source = document.getElementById('stream-source').value;
       const type = document.getElementById('stream-type').value;
       
@@ -1167,6 +4066,11 @@ function getFrontendHTML(): string {
         showToast('Please enter a stream source', 'error');
         return;
       }
+      // The agent checks this too; catch the common slip of a URL that doesn't match the type
+      if (!new RegExp('^' + type + 's?://[^\\\\s/]+', 'i').test(source.trim())) {
+        showToast('The source must be a ' + type + ':// URL for ' + type.toUpperCase(), 'error');
+        return;
+      }
 
       try {
         const res = await fetch('/api/streams/start', {
@@ -1178,7 +4082,8 @@ function getFrontendHTML(): string {
         if (data.id) {
           showToast('Stream started: ' + source, 'success');
           document.getElementById('stream-source').value = '';
-          refreshStreams();
+          // A watched list picks the change up from the next state_delta
+          if (!watchedTopics.has('streams')) refreshStreams();
         } else {
           showToast(data.error || 'Failed to start stream', 'error');
         }
@@ -1193,19 +4098,138 @@ function getFrontendHTML(): string {
         const data = await res.json();
         if (data.success) {
           showToast('Stream stopped', 'success');
-          refreshStreams();
+          if (!watchedTopics.has('streams')) refreshStreams();
         }
       } catch (error) {
         showToast('Failed to stop stream', 'error');
       }
     }
 
+    // Tools tab: every tool the MCP server advertises, with a form built from its inputSchema
+    let tools = [];
+
+    function escapeHtml(text) {
+      const div = document.createElement('div');
+      div.textContent = String(text);
+      return div.innerHTML;
+    }
+
+    async function refreshTools() {
+      try {
+        const { res, data } = await fetchJSON('/api/tools');
+        if (!res.ok) throw new Error(data.error);
+        tools = data;
+        document.getElementById('tool-list').innerHTML = tools.map((tool, index) =>
+          '<button class="stream-item tool-item" data-tool="' + index + '" onclick="selectTool(' + index + ')">' +
+            '<div><div class="stream-name">' + escapeHtml(tool.name) + '</div>' +
+            '<div class="stream-type">' + escapeHtml(tool.description || '') + '</div></div>' +
+          '</button>'
+        ).join('') || '<div class="empty-state" style="padding:1rem;"><p>The server offers no tools</p></div>';
+      } catch (error) {
+        showToast('Failed to load tools: ' + error.message, 'error');
+      }
+    }
+
+    // One input per argument: text/number/checkbox, a select for enums, JSON for anything nested
+    function toolField(name, schema, required) {
+      const id = 'tool-arg-' + name;
+      const label = '<label for="' + id + '">' + escapeHtml(name) + (required ? ' *' : '') + '</label>';
+      const hint = schema.description ? '<span class="hint">' + escapeHtml(schema.description) + '</span>' : '';
+      let input;
+      if (Array.isArray(schema.enum)) {
+        input = '<select id="' + id + '" data-kind="enum">' + (required ? '' : '<option value=""></option>') +
+          schema.enum.map((option) => '<option value="' + escapeHtml(JSON.stringify(option)) + '">' + escapeHtml(option) + '</option>').join('') +
+          '</select>';
+      } else if (schema.type === 'boolean') {
+        input = '<input type="checkbox" id="' + id + '" data-kind="boolean">';
+      } else if (schema.type === 'integer' || schema.type === 'number') {
+        input = '<input type="number" id="' + id + '" data-kind="number"' + (schema.type === 'integer' ? ' step="1"' : ' step="any"') + '>';
+      } else if (schema.type === 'string') {
+        input = '<input type="text" id="' + id + '" data-kind="string">';
+      } else {
+        input = '<textarea id="' + id + '" data-kind="json" placeholder="JSON"></textarea>';
+      }
+      return '<div class="tool-field">' + label + input + hint + '</div>';
+    }
+
+    function selectTool(index) {
+      const tool = tools[index];
+      const schema = tool.inputSchema || {};
+      const properties = schema.properties || {};
+      const required = schema.required || [];
+      document.querySelectorAll('.tool-item').forEach((item) => item.classList.toggle('active', item.dataset.tool === String(index)));
+
+      document.getElementById('tool-detail').innerHTML =
+        '<div class="stream-name">' + escapeHtml(tool.name) + '</div>' +
+        '<p class="stream-type" style="margin-bottom: 1rem;">' + escapeHtml(tool.description || '') + '</p>' +
+        (Object.entries(properties).map(([name, property]) => toolField(name, property, required.includes(name))).join('') ||
+          '<p class="stream-type">This tool takes no arguments.</p>') +
+        '<button class="btn btn-primary" onclick="runTool(' + index + ')">▶️ Call</button>' +
+        '<div class="tool-result" id="tool-result"></div>';
+    }
+
+    // Arguments from the form; empty optional fields are left out so the tool's defaults apply
+    function readToolArgs(tool) {
+      const args = {};
+      Object.keys((tool.inputSchema || {}).properties || {}).forEach((name) => {
+        const input = document.getElementById('tool-arg-' + name);
+        const kind = input.dataset.kind;
+        if (kind === 'boolean') {
+          if (input.checked) args[name] = true;
+          return;
+        }
+        if (input.value === '') return;
+        if (kind === 'number') args[name] = Number(input.value);
+        else if (kind === 'enum' || kind === 'json') {
+          try {
+            args[name] = JSON.parse(input.value);
+          } catch {
+            throw new Error(name + ' is not valid JSON');
+          }
+        } else args[name] = input.value;
+      });
+      return args;
+    }
+
+    async function runTool(index) {
+      const tool = tools[index];
+      const resultEl = document.getElementById('tool-result');
+      try {
+        const { res, data } = await fetchJSON('/api/tools/' + encodeURIComponent(tool.name) + '/call', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ arguments: readToolArgs(tool) })
+        });
+        if (!res.ok) throw new Error(data.error);
+        renderToolResult(resultEl, data);
+      } catch (error) {
+        resultEl.className = 'tool-result error';
+        resultEl.innerHTML = '<pre>' + escapeHtml(error.message) + '</pre>';
+      }
+    }
+
+    function renderToolResult(resultEl, result) {
+      resultEl.className = 'tool-result';
+      resultEl.innerHTML = result.content.map((part) => {
+        if (part.type === 'image' && part.data) {
+          return '<img src="data:' + escapeHtml(part.mimeType || 'image/png') + ';base64,' + escapeHtml(part.data) + '" alt="">';
+        }
+        if (part.type === 'text') {
+          let text = part.text;
+          try { text = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+          return '<pre>' + escapeHtml(text) + '</pre>';
+        }
+        return '<pre>' + escapeHtml(JSON.stringify(part, null, 2)) + '</pre>';
+      }).join('') || '<pre>(no output)</pre>';
+    }
+
     function previewFile(folder, filename) {
       const modal = document.getElementById('preview-modal');
       const title = document.getElementById('preview-title');
       const body = document.getElementById('preview-body');
-      const url = \`/api/file/\${folder}/\${encodeURIComponent(filename)}\`;
+      const url = fileUrl('file', folder, filename);
 
+      stopPlayer();
       title.textContent = filename;
 
       if (isImageFile(filename)) {
@@ -1219,20 +4243,25 @@ function getFrontendHTML(): string {
       modal.classList.add('active');
     }
 
+    // Downloads wait their turn in the server's download queue; progress arrives as download_ticket events
     async function downloadFile(folder, filename) {
-      const url = \`/api/file/\${folder}/\${encodeURIComponent(filename)}\`;
+      const url = fileUrl('file', folder, filename) + '?queued=1' + socketParam('&');
       const a = document.createElement('a');
       a.href = url;
       a.download = filename;
       a.click();
-      showToast('Download started: ' + filename, 'success');
+      showToast('Download requested: ' + filename, 'success');
+    }
+
+    function socketParam(separator) {
+      return socketId ? separator + 'socket=' + encodeURIComponent(socketId) : '';
     }
 
     async function deleteFile(folder, filename) {
       if (!confirm(\`Delete "\${filename}"?\`)) return;
 
       try {
-        const res = await fetch(\`/api/file/\${folder}/\${encodeURIComponent(filename)}\`, {
+        const res = await fetch(fileUrl('file', folder, filename), {
           method: 'DELETE'
         });
         const data = await res.json();
@@ -1250,6 +4279,7 @@ function getFrontendHTML(): string {
     }
 
     function closeModal(id) {
+      if (id === 'preview-modal') stopPlayer();
       document.getElementById(id).classList.remove('active');
     }
 
@@ -1282,42 +4312,129 @@ function getFrontendHTML(): string {
       });
     }
 
+    const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+    const UPLOAD_MAX_RETRIES = 5;
+
     async function handleFiles(fileList) {
-      for (const file of fileList) {
-        await uploadFile(file);
+      const progress = document.getElementById('upload-progress');
+      progress.innerHTML = '';
+      const rows = Array.from(fileList).map(file => {
+        const row = createUploadRow(file);
+        progress.appendChild(row);
+        return row;
+      });
+
+      let failed = 0;
+      for (let i = 0; i < fileList.length; i++) {
+        if (!await uploadFile(fileList[i], rows[i])) failed++;
       }
-      closeModal('upload-modal');
+      if (failed === 0) closeModal('upload-modal');
     }
 
-    async function uploadFile(file) {
-      const reader = new FileReader();
-      
-      reader.onload = async () => {
-        const base64 = reader.result.split(',')[1];
-        const isImage = file.type.startsWith('image/');
-        const isVideo = file.type.startsWith('video/') || file.name.endsWith('.mp4');
-
-        try {
-          const res = await fetch('/api/upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              filename: file.name,
-              content: base64,
-              type: isImage ? 'image' : isVideo ? 'video' : 'file'
-            })
-          });
+    function createUploadRow(file) {
+      const row = document.createElement('div');
+      row.className = 'upload-row';
+      row.innerHTML = \`
+        <div class="upload-row-header">
+          <span class="upload-row-name"></span>
+          <span class="upload-row-status">Waiting</span>
+        </div>
+        <div class="progress"><div class="progress-bar"></div></div>
+      \`;
+      row.querySelector('.upload-row-name').textContent = file.name;
+      return row;
+    }
+
+    function setUploadProgress(row, offset, size, status) {
+      const pct = size > 0 ? Math.floor((offset / size) * 100) : 100;
+      row.querySelector('.progress-bar').style.width = pct + '%';
+      row.querySelector('.upload-row-status').textContent = status || pct + '%';
+    }
+
+    async function fetchJSON(url, options) {
+      const res = await fetch(url, options);
+      const data = await res.json();
+      return { res, data };
+    }
 
-          const data = await res.json();
-          if (data.success) {
-            showToast('Uploaded: ' + file.name, 'success');
+    // Reuse a still-open session for the same file so a reload or dropped connection resumes
+    async function openUploadSession(file, key, target) {
+      const savedId = localStorage.getItem(key);
+      if (savedId) {
+        const { res, data } = await fetchJSON('/api/uploads/' + savedId);
+        if (res.ok) return data;
+        localStorage.removeItem(key);
+      }
+
+      const isImage = file.type.startsWith('image/');
+      const isVideo = file.type.startsWith('video/') || file.name.endsWith('.mp4');
+      const { res, data } = await fetchJSON('/api/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filename: file.name,
+          size: file.size,
+          type: isImage ? 'image' : isVideo ? 'video' : 'file',
+          folder: target || undefined
+        })
+      });
+      if (!res.ok) throw new Error(data.error || 'Could not open upload session');
+      localStorage.setItem(key, data.id);
+      return data;
+    }
+
+    async function uploadFile(file, row) {
+      const target = uploadFolder();
+      const key = ['upload', target || '', file.name, file.size, file.lastModified].join(':');
+
+      try {
+        let session = await openUploadSession(file, key, target);
+        let retries = 0;
+        setUploadProgress(row, session.offset, file.size, session.offset > 0 ? 'Resuming...' : null);
+
+        while (session.offset < file.size) {
+          const end = Math.min(session.offset + UPLOAD_CHUNK_SIZE, file.size);
+          try {
+            const { res, data } = await fetchJSON(\`/api/uploads/\${session.id}/chunk?offset=\${session.offset}\`, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/octet-stream' },
+              body: file.slice(session.offset, end)
+            });
+            if (res.status === 409 && typeof data.offset === 'number') {
+              session.offset = data.offset;
+              continue;
+            }
+            if (!res.ok) throw new Error(data.error || 'Chunk rejected');
+            session = data;
+            retries = 0;
+            setUploadProgress(row, session.offset, file.size);
+          } catch (error) {
+            if (++retries > UPLOAD_MAX_RETRIES) throw error;
+            setUploadProgress(row, session.offset, file.size, \`Retrying (\${retries})...\`);
+            await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** retries));
+            // Re-sync with whatever the agent acknowledged before the failure
+            const { res, data } = await fetchJSON('/api/uploads/' + session.id);
+            if (res.ok) session = data;
           }
-        } catch (error) {
-          showToast('Failed to upload: ' + file.name, 'error');
         }
-      };
 
-      reader.readAsDataURL(file);
+        const { res, data } = await fetchJSON(\`/api/uploads/\${session.id}/complete\`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        });
+        if (!res.ok) throw new Error(data.error || 'Could not finalize upload');
+
+        localStorage.removeItem(key);
+        row.classList.add('done');
+        setUploadProgress(row, file.size, file.size, 'Done');
+        return true;
+      } catch (error) {
+        row.classList.add('failed');
+        row.querySelector('.upload-row-status').textContent = 'Failed';
+        showToast('Failed to upload: ' + file.name + ' (' + error.message + ')', 'error');
+        return false;
+      }
     }
 
     function showToast(message, type = 'success') {
@@ -1327,17 +4444,17 @@ function getFrontendHTML(): string {
       setTimeout(() => toast.classList.remove('show'), 3000);
     }
 
-    // Close modals on escape
+    // Close modals on escape (the sign-in modal stays until the user signs in)
     document.addEventListener('keydown', (e) => {
       if (e.key === 'Escape') {
-        document.querySelectorAll('.modal.active').forEach(m => m.classList.remove('active'));
+        document.querySelectorAll('.modal.active:not([data-locked])').forEach(m => closeModal(m.id));
       }
     });
 
     // Close modals on backdrop click
-    document.querySelectorAll('.modal').forEach(modal => {
+    document.querySelectorAll('.modal:not([data-locked])').forEach(modal => {
       modal.addEventListener('click', (e) => {
-        if (e.target === modal) modal.classList.remove('active');
+        if (e.target === modal) closeModal(modal.id);
       });
     });
   </script>
@@ -1347,27 +4464,41 @@ function getFrontendHTML(): string {
 
 // Start server
 async function main(): Promise<void> {
-  // Auto-connect to MCP server
-  try {
-    await mcpClient.connect();
-  } catch (error) {
-    console.error("[Agent] Could not auto-connect to MCP server:", error);
+  // An undocumented route would go unvalidated and missing from the explorer; refuse to run with one
+  const drift = undocumentedRoutes(registeredRoutes());
+  if (drift.length > 0) throw new Error(`REST routes and the OpenAPI document disagree:\n  ${drift.join("\n  ")}`);
+  if (process.argv.includes("--check-routes")) return; // run by `npm run build`
+
+  await loadPolicy();
+  await auth.load();
+
+  for (const backend of await backends.load()) {
+    watchBackend(backend);
+    await backend.load();
+
+    // Auto-connect to MCP server
+    try {
+      await backend.client.connect();
+    } catch (error) {
+      console.error(`[Agent] Could not auto-connect to backend ${backend.name}:`, error);
+    }
   }
 
   server.listen(PORT, () => {
     console.log(`
 ╔════════════════════════════════════════════════════════════╗
-║           BRANDYFICATION Agent v1.1.0                     ║
+║           BRANDYFICATION Agent v${AGENT_VERSION}                     ║
 ║        🌀 Queue & Streaming Edition 🌀                    ║
 ╠════════════════════════════════════════════════════════════╣
 ║  Frontend:  http://localhost:${PORT}                         ║
 ║  WebSocket: ws://localhost:${PORT}                           ║
 ║  API:       http://localhost:${PORT}/api                     ║
+║  API docs:  http://localhost:${PORT}/api-explorer            ║
 ╠════════════════════════════════════════════════════════════╣
 ║  NEW: /api/queue          - Download queue status         ║
 ║  NEW: /api/streams        - Active stream management      ║
 ╠════════════════════════════════════════════════════════════╣
-║  MCP Status: ${mcpClient.isConnected() ? "Connected ✓" : "Disconnected ✗"}                              ║
+║  MCP Status: ${backends.all().map((backend) => `${backend.name} ${backend.client.isConnected() ? "✓" : "✗"}`).join("  ")}
 ╚════════════════════════════════════════════════════════════╝
     `);
   });
@@ -1376,8 +4507,11 @@ async function main(): Promise<void> {
 // Handle shutdown
 process.on("SIGINT", async () => {
   console.log("\n[Agent] Shutting down...");
-  await mcpClient.disconnect();
+  await Promise.all(backends.all().map((backend) => backend.stop()));
   process.exit(0);
 });
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error("[Agent]", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+import * as fs from "fs";
+import { Writable } from "stream";
+import archiver, { EntryData } from "archiver";
+import { FileLocation, MCPFileClient } from "./mcp-client.js";
+import { ListQueryError } from "./listing.js";
+import { readFileStream } from "./downloads.js";
+import { parseStoragePath, pathSegments, ROOT_PATH, StoragePath } from "./paths.js";
+import { walkFolder } from "./tree.js";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["zip", "tar.gz"];
+
+// Archives at least this large wait for a download queue slot before streaming
+export const ARCHIVE_QUEUE_THRESHOLD = parseInt(process.env.ARCHIVE_QUEUE_THRESHOLD || String(100 * 1024 * 1024));
+export const MAX_ARCHIVE_FILES = parseInt(process.env.ARCHIVE_MAX_FILES || "10000");
+// Large archives streamed at once; more wait in the agent's archive queue
+export const ARCHIVE_MAX_CONCURRENT = parseInt(process.env.ARCHIVE_MAX_CONCURRENT || "2");
+
+export interface ArchiveEntry {
+  folder: StoragePath;
+  filename: string;
+  name: string; // path inside the archive
+  size?: number;
+  modified?: string;
+}
+
+export function parseArchiveFormat(value: unknown): ArchiveFormat {
+  if (value === undefined || value === "") return "zip";
+  if (!ARCHIVE_FORMATS.includes(value as ArchiveFormat)) {
+    throw new ListQueryError(`format must be one of ${ARCHIVE_FORMATS.join(", ")}`);
+  }
+  return value as ArchiveFormat;
+}
+
+/**
+ * The `files` list of a POST /api/archive body. A plain HTML form can only
+ * send strings, so the list may also arrive JSON-encoded.
+ */
+export function parseArchiveSelection(body: unknown): FileLocation[] {
+  let files = (body as { files?: unknown } | undefined)?.files;
+  if (typeof files === "string") {
+    try {
+      files = JSON.parse(files);
+    } catch {
+      throw new ListQueryError("files must be a JSON array");
+    }
+  }
+  if (!Array.isArray(files) || files.length === 0) throw new ListQueryError("files must be a non-empty array");
+  if (files.length > MAX_ARCHIVE_FILES) throw new ListQueryError(`An archive may contain at most ${MAX_ARCHIVE_FILES} files`);
+
+  return files.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    if (typeof item.filename !== "string" || !item.filename) throw new ListQueryError(`files[${index}].filename is required`);
+    return { folder: parseStoragePath(item.folder), filename: item.filename };
+  });
+}
+
+// Every file under `folder`, named relative to it so the archive unpacks into the same layout
+export async function folderEntries(client: MCPFileClient, folder: StoragePath): Promise<ArchiveEntry[]> {
+  const prefix = pathSegments(folder).length;
+  const files = (await walkFolder(client, folder)).filter((entry) => entry.type !== "directory");
+  if (files.length > MAX_ARCHIVE_FILES) throw new ListQueryError(`${folder} holds more than ${MAX_ARCHIVE_FILES} files`);
+
+  return files.map((entry) => ({
+    folder: entry.folder,
+    filename: entry.name,
+    name: [...pathSegments(entry.folder).slice(prefix), entry.name].join("/"),
+    size: entry.size,
+    modified: entry.modified,
+  }));
+}
+
+/**
+ * Entries for a hand-picked selection. Files from one folder go in flat;
+ * a selection spanning folders keeps each file's storage path so names
+ * can't collide.
+ */
+export async function selectionEntries(client: MCPFileClient, files: FileLocation[]): Promise<ArchiveEntry[]> {
+  const flat = files.every((file) => file.folder === files[0].folder);
+  const entries: ArchiveEntry[] = [];
+
+  for (const { folder, filename } of files) {
+    const info = await client.getFileInfo(filename, folder);
+    entries.push({
+      folder,
+      filename,
+      name: flat || folder === ROOT_PATH ? filename : `${folder}/${filename}`,
+      size: info.size,
+      modified: info.modified,
+    });
+  }
+  return entries;
+}
+
+export function archiveSize(entries: ArchiveEntry[]): number {
+  return entries.reduce((total, entry) => total + (entry.size ?? 0), 0);
+}
+
+export function archiveFilename(base: string, format: ArchiveFormat): string {
+  return `${base || "files"}.${format}`;
+}
+
+/**
+ * Stream `entries` into `out` as they are read from the MCP server, so memory
+ * use stays at a chunk or two per file whatever the archive size. Media is
+ * already compressed, so ZIP entries are stored rather than deflated; tar
+ * needs each entry's size up front to avoid buffering it.
+ */
+export function writeArchive(client: MCPFileClient, entries: ArchiveEntry[], format: ArchiveFormat, out: Writable): Promise<void> {
+  const archive = format === "zip" ? archiver("zip", { store: true }) : archiver("tar", { gzip: true });
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      archive.abort();
+      reject(error);
+    };
+
+    archive.on("error", fail);
+    out.on("finish", resolve);
+    out.on("close", () => {
+      if (!out.writableFinished) fail(new Error("Client closed the connection"));
+    });
+    archive.pipe(out);
+
+    for (const entry of entries) {
+      const source = readFileStream(client, entry.filename, entry.folder, entry.size);
+      source.on("error", fail);
+      const data: EntryData = { name: entry.name, date: entry.modified ? new Date(entry.modified) : new Date(), mode: 0o644 };
+      if (format === "tar.gz" && entry.size !== undefined) data.stats = sizeStats(entry.size);
+      archive.append(source, data);
+    }
+    archive.finalize();
+  });
+}
+
+// archiver only reads `size` from an appended stream's stats (tar writes it in the entry header)
+function sizeStats(size: number): fs.Stats {
+  const stats = new fs.Stats();
+  stats.size = size;
+  return stats;
+}
+
+interface ArchiveWaiter {
+  grant: () => void;
+  onQueued?: (position: number) => void;
+}
+
+/**
+ * The agent's own line for large archives. The server's download queue hands
+ * out tickets per file and an archive is not one, so archives past
+ * ARCHIVE_QUEUE_THRESHOLD wait here instead. A finished archive hands its slot
+ * straight to the next waiter, which keeps the order first come, first served.
+ */
+export class ArchiveQueue {
+  private active = 0;
+  private waiting: ArchiveWaiter[] = [];
+
+  constructor(private concurrency = ARCHIVE_MAX_CONCURRENT) {}
+
+  // Run `task` once a slot is free; `onQueued` hears the position while waiting, `signal` gives up the place
+  async run<T>(task: () => Promise<T>, options: { signal?: AbortSignal; onQueued?: (position: number) => void } = {}): Promise<T> {
+    await this.acquire(options.signal, options.onQueued);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal, onQueued?: (position: number) => void): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        this.waiting.splice(this.waiting.indexOf(waiter), 1);
+        this.announce();
+        reject(signal!.reason);
+      };
+      const waiter: ArchiveWaiter = {
+        grant: () => {
+          signal?.removeEventListener("abort", leave);
+          resolve();
+        },
+        onQueued,
+      };
+      signal?.addEventListener("abort", leave, { once: true });
+      this.waiting.push(waiter);
+      onQueued?.(this.waiting.length);
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (!next) {
+      this.active--;
+      return;
+    }
+    next.grant(); // the slot stays taken, so nobody arriving now can jump the line
+    this.announce();
+  }
+
+  private announce(): void {
+    this.waiting.forEach((waiter, index) => waiter.onQueued?.(index + 1));
+  }
+}
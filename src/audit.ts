@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as path from "path";
+import { dataFile } from "./json-store.js";
+import { redactStreamUrl } from "./stream-health.js";
+
+const MAX_BYTES = parseInt(process.env.AUDIT_MAX_BYTES || String(10 * 1024 * 1024));
+const MAX_FILES = parseInt(process.env.AUDIT_MAX_FILES || "5");
+export const DEFAULT_AUDIT_LIMIT = 1000;
+
+export interface AuditEntry {
+  time: string;
+  actor: string | null; // username; null for a sign-in that named no account
+  ip: string;
+  via: "rest" | "websocket";
+  action: string; // the permission action, or the route id for routes without one (login, tokens...)
+  backend?: string;
+  target?: string; // storage path, stream, preset, user... whatever the operation acted on
+  request?: string; // "METHOD /path" of a REST call
+  result: "ok" | "error";
+  status?: number; // HTTP status of a REST call
+  error?: string;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Append-only record of every mutating operation, one JSON object per line.
+ * Past AUDIT_MAX_BYTES the file is rotated to <file>.1 (and .1 to .2, up to
+ * AUDIT_MAX_FILES), so the oldest entries are dropped a whole file at a time
+ * and nothing already written is ever rewritten. Recording never fails the
+ * operation it describes: write errors are logged and the entry is lost.
+ */
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+  private size?: number;
+
+  constructor(
+    private file = process.env.AUDIT_LOG_FILE || dataFile("audit.jsonl"),
+    private maxBytes = MAX_BYTES,
+    private maxFiles = MAX_FILES
+  ) {}
+
+  record(entry: Omit<AuditEntry, "time">): void {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n";
+    // Serialize appends so rotation never races a write
+    this.writing = this.writing
+      .then(() => this.append(line))
+      .catch((error) => console.error("[Audit] Could not record entry:", (error as Error).message));
+  }
+
+  // Matching entries across the current and rotated files, newest first
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writing;
+    const limit = query.limit ?? DEFAULT_AUDIT_LIMIT;
+    const since = query.since?.getTime();
+    const matches: AuditEntry[] = [];
+
+    for (const file of this.files()) {
+      const lines = (await readText(file)).split("\n").reverse();
+      for (const line of lines) {
+        if (!line) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          continue; // a line cut short by a crash
+        }
+        if (since !== undefined && Date.parse(entry.time) < since) return matches; // older files only hold older entries
+        if (query.action && entry.action !== query.action) continue;
+        if (query.actor && entry.actor !== query.actor) continue;
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+    return matches;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === undefined) {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      this.size = await fs.promises.stat(this.file).then((stat) => stat.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) await this.rotate();
+    await fs.promises.appendFile(this.file, line);
+    this.size += bytes;
+  }
+
+  // audit.jsonl -> .1 -> .2 ...; the file past maxFiles is overwritten, dropping its entries
+  private async rotate(): Promise<void> {
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      const from = index === 0 ? this.file : `${this.file}.${index}`;
+      await fs.promises.rename(from, `${this.file}.${index + 1}`).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    }
+    if (this.maxFiles < 1) await fs.promises.rm(this.file, { force: true }); // no rotated files kept
+    this.size = 0;
+  }
+
+  // Newest first: the live file, then .1, .2...
+  private files(): string[] {
+    return [this.file, ...Array.from({ length: this.maxFiles }, (_, index) => `${this.file}.${index + 1}`)];
+  }
+}
+
+// What a request acted on, from its path parameters, body or WebSocket payload
+export function auditTarget(fields: unknown): string | undefined {
+  if (typeof fields !== "object" || fields === null) return undefined;
+  const text = (name: string) => {
+    const value = (fields as Record<string, unknown>)[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+  const folder = text("folder") ?? text("parentFolder");
+  const source = text("source");
+  const file = text("filename") ?? (text("parentFolder") !== undefined ? text("name") : undefined);
+  if (file) return folder ? `${folder}/${file}` : file;
+  return (
+    text("streamId") ?? text("presetId") ?? text("scheduleId") ?? text("userId") ?? text("tokenId") ?? text("id") ?? (source && redactStreamUrl(source)) ?? text("name") ?? text("username") ?? folder
+  );
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ["time", "actor", "ip", "via", "action", "backend", "target", "request", "result", "status", "error"];
+
+export function toCsv(entries: AuditEntry[]): string {
+  const cell = (value: unknown) => {
+    let text = value === undefined || value === null ? "" : String(value);
+    // A spreadsheet would run a cell starting like a formula; a filename or username is enough to plant one
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [CSV_COLUMNS.join(","), ...entries.map((entry) => CSV_COLUMNS.map((column) => cell(entry[column])).join(","))].join("\r\n") + "\r\n";
+}
+
+export function toJsonLines(entries: AuditEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+}
+
+async function readText(file: string): Promise<string> {
+  try {
+    return await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw error;
+  }
+}
@@ -0,0 +1,337 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
+import { IncomingHttpHeaders } from "http";
+import { promisify } from "util";
+import { dataFile, readJsonFile, writeJsonFile } from "./json-store.js";
+import { isRole, Role } from "./permissions.js";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "brandy_session";
+export const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || String(7 * 24 * 60 * 60 * 1000));
+const TOKEN_PREFIX = "bft_";
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  passwordHash: string; // scrypt$<salt>$<hash>
+  role: Role;
+  createdAt: string;
+}
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string; // sha256 of the secret; the secret itself is only shown once
+  preview: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface Session {
+  id: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// Who is making a request, and through which credential
+export interface AuthContext {
+  user: Omit<UserAccount, "passwordHash">;
+  credential: { kind: "session" | "token"; id: string };
+}
+
+interface AuthFile {
+  users: UserAccount[];
+  tokens: ApiToken[];
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Local accounts, cookie sessions and long-lived API tokens.
+ * Accounts and tokens are persisted; sessions live in memory, so an agent
+ * restart signs browsers out but leaves scripted token access untouched.
+ * Emits "revoked" with a credential id when a session or token stops being valid.
+ */
+export class AuthService extends EventEmitter {
+  private users = new Map<string, UserAccount>();
+  private tokens = new Map<string, ApiToken>();
+  private sessions = new Map<string, Session>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private file = dataFile("users.json")) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    const saved = await readJsonFile<AuthFile>(this.file, { users: [], tokens: [] });
+    // Accounts created before roles existed carry an `admin` flag instead
+    const users = saved.users.map((user) => {
+      const { admin, ...rest } = user as UserAccount & { admin?: boolean };
+      return { ...rest, role: isRole(rest.role) ? rest.role : admin ? "admin" : "viewer" } as UserAccount;
+    });
+    this.users = new Map(users.map((user) => [user.id, user]));
+    this.tokens = new Map(saved.tokens.map((token) => [token.id, token]));
+
+    if (this.users.size === 0) {
+      await this.bootstrapAdmin();
+    }
+  }
+
+  // First run: create an admin from the environment, or with a one-time generated password
+  private async bootstrapAdmin(): Promise<void> {
+    const username = process.env.AGENT_ADMIN_USER || "admin";
+    const password = process.env.AGENT_ADMIN_PASSWORD || randomBytes(12).toString("base64url");
+    await this.createUser(username, password, "admin");
+
+    if (process.env.AGENT_ADMIN_PASSWORD) {
+      console.log(`[Auth] Created admin account "${username}"`);
+    } else {
+      console.log(`[Auth] Created admin account "${username}" with password: ${password}`);
+      console.log("[Auth] Change it after signing in, or set AGENT_ADMIN_PASSWORD before first start");
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 👤 ACCOUNTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  getUser(userId: string): AuthContext["user"] | undefined {
+    const user = this.users.get(userId);
+    return user && publicUser(user);
+  }
+
+  listUsers(): AuthContext["user"][] {
+    return [...this.users.values()].map(publicUser);
+  }
+
+  async createUser(username: string, password: string, role: Role = "viewer"): Promise<AuthContext["user"]> {
+    if (!/^[\w.-]{2,64}$/.test(username)) {
+      throw new AuthError("Username must be 2-64 letters, digits, '.', '-' or '_'", 400);
+    }
+    if (!password || password.length < 8) {
+      throw new AuthError("Password must be at least 8 characters", 400);
+    }
+    if (!isRole(role)) {
+      throw new AuthError(`Unknown role: ${role}`, 400);
+    }
+    if (this.findUser(username)) {
+      throw new AuthError(`User already exists: ${username}`, 409);
+    }
+
+    const user: UserAccount = {
+      id: randomUUID(),
+      username,
+      passwordHash: await hashPassword(password),
+      role,
+      createdAt: new Date().toISOString(),
+    };
+    this.users.set(user.id, user);
+    await this.save();
+    return publicUser(user);
+  }
+
+  // Signs the user out everywhere but `keepSessionId`, so a stolen session doesn't outlive the old password
+  async changePassword(userId: string, password: string, keepSessionId?: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) throw new AuthError("User not found", 404);
+    if (!password || password.length < 8) {
+      throw new AuthError("Password must be at least 8 characters", 400);
+    }
+    user.passwordHash = await hashPassword(password);
+    await this.save();
+
+    for (const session of [...this.sessions.values()].filter((s) => s.userId === userId && s.id !== keepSessionId)) {
+      this.sessions.delete(session.id);
+      this.emit("revoked", session.id);
+    }
+  }
+
+  async setRole(userId: string, role: Role): Promise<AuthContext["user"]> {
+    const user = this.users.get(userId);
+    if (!user) throw new AuthError("User not found", 404);
+    if (!isRole(role)) throw new AuthError(`Unknown role: ${role}`, 400);
+    user.role = role;
+    await this.save();
+    return publicUser(user);
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    if (!this.users.delete(userId)) throw new AuthError("User not found", 404);
+
+    for (const token of [...this.tokens.values()].filter((t) => t.userId === userId)) {
+      this.tokens.delete(token.id);
+      this.emit("revoked", token.id);
+    }
+    for (const session of [...this.sessions.values()].filter((s) => s.userId === userId)) {
+      this.sessions.delete(session.id);
+      this.emit("revoked", session.id);
+    }
+    await this.save();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 🍪 SESSIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async login(username: string, password: string): Promise<{ sessionId: string; user: AuthContext["user"] }> {
+    const user = this.findUser(username);
+    // Hash even for unknown users so response timing doesn't reveal which usernames exist
+    const valid = await verifyPassword(password || "", user?.passwordHash ?? DUMMY_HASH);
+    if (!user || !valid) {
+      throw new AuthError("Invalid username or password");
+    }
+
+    const session: Session = { id: randomBytes(32).toString("base64url"), userId: user.id, expiresAt: Date.now() + SESSION_TTL_MS };
+    this.sessions.set(session.id, session);
+    return { sessionId: session.id, user: publicUser(user) };
+  }
+
+  logout(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.emit("revoked", sessionId);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 🔑 API TOKENS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  listTokens(userId: string): Omit<ApiToken, "tokenHash">[] {
+    return [...this.tokens.values()].filter((token) => token.userId === userId).map(({ tokenHash, ...token }) => token);
+  }
+
+  async createToken(userId: string, name: string): Promise<{ token: string; info: Omit<ApiToken, "tokenHash"> }> {
+    const secret = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const record: ApiToken = {
+      id: randomUUID(),
+      userId,
+      name: name || "API token",
+      tokenHash: sha256(secret),
+      preview: secret.slice(0, TOKEN_PREFIX.length + 4) + "…",
+      createdAt: new Date().toISOString(),
+    };
+    this.tokens.set(record.id, record);
+    await this.save();
+
+    const { tokenHash, ...info } = record;
+    return { token: secret, info };
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<void> {
+    const token = this.tokens.get(tokenId);
+    if (!token || token.userId !== userId) throw new AuthError("Token not found", 404);
+    this.tokens.delete(tokenId);
+    this.emit("revoked", tokenId);
+    await this.save();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 🛂 REQUEST AUTHENTICATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Resolve the caller from `Authorization: Bearer <token>` or the session
+   * cookie. Used for both Express requests and the WebSocket upgrade.
+   */
+  authenticate(headers: IncomingHttpHeaders): AuthContext | null {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith("Bearer ")) {
+      return this.authenticateToken(authorization.slice("Bearer ".length).trim());
+    }
+
+    const sessionId = parseCookies(headers.cookie)[SESSION_COOKIE];
+    if (sessionId) {
+      return this.authenticateSession(sessionId);
+    }
+
+    return null;
+  }
+
+  private authenticateSession(sessionId: string): AuthContext | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+
+    const user = this.users.get(session.userId);
+    if (!user) return null;
+    return { user: publicUser(user), credential: { kind: "session", id: session.id } };
+  }
+
+  private authenticateToken(secret: string): AuthContext | null {
+    if (!secret.startsWith(TOKEN_PREFIX)) return null;
+
+    const hash = sha256(secret);
+    const token = [...this.tokens.values()].find((t) => safeEqual(t.tokenHash, hash));
+    if (!token) return null;
+
+    const user = this.users.get(token.userId);
+    if (!user) return null;
+
+    token.lastUsedAt = new Date().toISOString();
+    return { user: publicUser(user), credential: { kind: "token", id: token.id } };
+  }
+
+  private findUser(username: string): UserAccount | undefined {
+    return [...this.users.values()].find((user) => user.username === username);
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.file, { users: [...this.users.values()], tokens: [...this.tokens.values()] }));
+    return this.saving;
+  }
+}
+
+function publicUser({ passwordHash, ...user }: UserAccount): AuthContext["user"] {
+  return user;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const DUMMY_HASH = `scrypt$${Buffer.alloc(16).toString("base64")}$${Buffer.alloc(64).toString("base64")}`;
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Ignore malformed cookie values rather than failing the whole request
+    }
+  }
+  return cookies;
+}
@@ -0,0 +1,211 @@
+import * as path from "path";
+import {
+  ConflictPolicy,
+  ConnectionStatus,
+  defaultServerCommand,
+  FileLocation,
+  MCPFileClient,
+  NotFoundError,
+  ReconnectOptions,
+  TransferResult,
+} from "./mcp-client.js";
+import { dataFile, readJsonFile } from "./json-store.js";
+import { readFileStream } from "./downloads.js";
+import { streamUpload } from "./uploads.js";
+import { SearchIndex } from "./search.js";
+import { ThumbnailService } from "./thumbnails.js";
+import { StateWatcher } from "./watcher.js";
+import { HlsRelay } from "./hls.js";
+import { RecordingService } from "./recordings.js";
+import { RESTART_POLICY, StreamMonitor } from "./stream-health.js";
+import { StreamPresetStore } from "./stream-presets.js";
+import { UploadSessionStore } from "./upload-sessions.js";
+import * as s from "./schema.js";
+import type { Infer } from "./schema.js";
+
+/**
+ * Named storage backends, one MCP server each. They are listed in
+ * AGENT_BACKENDS_FILE (default AGENT_DATA_DIR/backends.json):
+ *
+ *   {
+ *     "default": "live",
+ *     "backends": [
+ *       { "name": "live", "command": "node", "args": ["../dist/index.js"], "env": { "STORAGE_DIR": "/srv/live" } },
+ *       { "name": "archive", "label": "Archive", "command": "node", "args": ["../dist/index.js"], "env": { "STORAGE_DIR": "/srv/archive" } }
+ *     ]
+ *   }
+ *
+ * `hlsBaseUrl` is what a server's relative stream playlistUrl values are
+ * resolved against; `restartPolicy` overrides parts of the stream restart
+ * policy (see RestartPolicy) for that backend. Without the file the agent fronts the bundled server as
+ * one backend named "default", with HLS_BASE_URL as its hlsBaseUrl.
+ */
+export const BACKENDS_FILE = process.env.AGENT_BACKENDS_FILE || dataFile("backends.json");
+const DEFAULT_BACKEND = "default";
+
+const backendConfig = s.object({
+  name: s.string({ minLength: 1, maxLength: 64, pattern: "^[A-Za-z0-9_-]+$" }),
+  label: s.optional(s.string({ maxLength: 100 })),
+  command: s.string({ minLength: 1 }),
+  args: s.optional(s.array(s.string())),
+  env: s.optional(s.record(s.string())),
+  hlsBaseUrl: s.optional(s.string({ minLength: 1 })),
+  restartPolicy: s.optional(
+    s.object({
+      enabled: s.optional(s.boolean()),
+      stallAfterMs: s.optional(s.number({ integer: true, minimum: 1000 })),
+      maxRestarts: s.optional(s.number({ integer: true, minimum: 0 })),
+      backoffMs: s.optional(s.number({ integer: true, minimum: 0 })),
+    })
+  ),
+});
+
+const backendsFile = s.object({
+  default: s.optional(s.string()),
+  backends: s.array(backendConfig),
+});
+
+export type BackendConfig = Infer<typeof backendConfig>;
+
+export interface BackendSummary {
+  name: string;
+  label: string;
+  default: boolean;
+  status: ConnectionStatus;
+}
+
+/**
+ * One backend's MCP client and everything the agent derives from it: search
+ * index, thumbnail cache, state watcher, upload sessions, HLS relay, stream
+ * health, recordings and presets. The default
+ * backend keeps the data files a single-server agent used, so upgrading loses
+ * no tags or open uploads; the others keep theirs under backends/<name>/.
+ */
+export class Backend {
+  readonly client: MCPFileClient;
+  readonly uploadSessions: UploadSessionStore;
+  readonly thumbnails: ThumbnailService;
+  readonly searchIndex: SearchIndex;
+  readonly stateWatcher: StateWatcher;
+  readonly hls: HlsRelay;
+  readonly streams: StreamMonitor;
+  readonly recordings: RecordingService;
+  readonly presets: StreamPresetStore;
+
+  constructor(
+    readonly config: BackendConfig,
+    readonly isDefault: boolean,
+    reconnect: ReconnectOptions = {}
+  ) {
+    const file = (name: string) => (isDefault ? dataFile(name) : dataFile(path.join("backends", config.name, name)));
+    const { command, args, env } = config;
+
+    this.client = new MCPFileClient({ command, args, env }, reconnect, config.name);
+    this.uploadSessions = new UploadSessionStore(this.client, undefined, file("upload-sessions.json"));
+    this.thumbnails = new ThumbnailService(this.client, file("thumbnails"));
+    this.searchIndex = new SearchIndex(this.client, file("tags.json"));
+    this.stateWatcher = new StateWatcher(this.client);
+    this.hls = new HlsRelay(this.client, config.hlsBaseUrl);
+    this.streams = new StreamMonitor(this.client, this.hls, { ...RESTART_POLICY, ...config.restartPolicy });
+    this.recordings = new RecordingService(this.client, this.hls, this.streams, file("recordings.json"), file("recording-schedules.json"));
+    this.presets = new StreamPresetStore(this.client, this.streams, this.recordings, file("stream-presets.json"));
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  summary(): BackendSummary {
+    return { name: this.name, label: this.config.label ?? this.name, default: this.isDefault, status: this.client.getStatus() };
+  }
+
+  async load(): Promise<void> {
+    await this.uploadSessions.load();
+    await this.searchIndex.load();
+    await this.recordings.load();
+    await this.presets.load();
+    this.streams.start();
+  }
+
+  async stop(): Promise<void> {
+    this.uploadSessions.stop();
+    this.stateWatcher.stop();
+    this.searchIndex.stop();
+    this.recordings.stop();
+    this.streams.stop();
+    await this.client.disconnect();
+  }
+}
+
+export class BackendRegistry {
+  private backends = new Map<string, Backend>();
+  private defaultName = DEFAULT_BACKEND;
+
+  constructor(
+    private reconnect: ReconnectOptions = {},
+    private file = BACKENDS_FILE
+  ) {}
+
+  async load(): Promise<Backend[]> {
+    const saved = await readJsonFile<unknown>(this.file, undefined);
+    let configs: BackendConfig[] = [{ name: DEFAULT_BACKEND, ...defaultServerCommand(), hlsBaseUrl: process.env.HLS_BASE_URL }];
+    let preferred: string | undefined;
+
+    if (saved !== undefined) {
+      try {
+        ({ backends: configs, default: preferred } = backendsFile.parse(saved));
+      } catch (error) {
+        throw new Error(`${this.file}: ${(error as Error).message}`);
+      }
+      if (configs.length === 0) throw new Error(`${this.file}: no backends configured`);
+    }
+
+    const names = configs.map((config) => config.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) throw new Error(`${this.file}: backend "${duplicate}" is configured twice`);
+    if (preferred !== undefined && !names.includes(preferred)) throw new Error(`${this.file}: default backend "${preferred}" is not configured`);
+
+    this.defaultName = preferred ?? names[0];
+    this.backends = new Map(configs.map((config) => [config.name, new Backend(config, config.name === this.defaultName, this.reconnect)]));
+    return this.all();
+  }
+
+  get default(): Backend {
+    return this.get();
+  }
+
+  // A backend by name; no name means the default one
+  get(name?: string): Backend {
+    const backend = this.backends.get(name ?? this.defaultName);
+    if (!backend) throw new NotFoundError(`Unknown backend: ${name}`);
+    return backend;
+  }
+
+  all(): Backend[] {
+    return [...this.backends.values()];
+  }
+}
+
+/**
+ * Copy a file from one backend to another. Two MCP servers have no path
+ * between them, so the bytes pass through the agent: ranged reads from the
+ * source feed a chunked upload to the target, one chunk in memory at a time.
+ * The conflict policy is resolved against the target like a same-server copy.
+ */
+export async function copyBetween(
+  source: Backend,
+  target: Backend,
+  from: FileLocation,
+  to: FileLocation,
+  onConflict: ConflictPolicy = "fail"
+): Promise<TransferResult> {
+  const info = await source.client.getFileInfo(from.filename, from.folder);
+  const { target: landed, overwritten } = await target.client.resolveDestination(to, onConflict);
+  const { message } = await streamUpload(
+    target.client,
+    landed.filename,
+    landed.folder,
+    readFileStream(source.client, from.filename, from.folder, info.size)
+  );
+  return { from, to: landed, overwritten, message, toBackend: target.name };
+}
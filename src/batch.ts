@@ -0,0 +1,115 @@
+import { CONFLICT_POLICIES, ConflictPolicy } from "./mcp-client.js";
+import { ListQueryError } from "./listing.js";
+
+export const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || "4");
+export const MAX_BATCH_OPERATIONS = parseInt(process.env.BATCH_MAX_OPERATIONS || "500");
+
+export type BatchOp = "delete" | "move" | "copy" | "tag";
+const BATCH_OPS: BatchOp[] = ["delete", "move", "copy", "tag"];
+
+export interface BatchOperation {
+  op: BatchOp;
+  folder: string;
+  filename: string;
+  to?: string; // move/copy destination folder
+  newName?: string;
+  onConflict?: ConflictPolicy;
+  tags?: string[];
+}
+
+export interface BatchItemResult {
+  index: number;
+  op: BatchOp;
+  folder: string;
+  filename: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  code?: string;
+}
+
+export interface BatchResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult[];
+}
+
+/**
+ * Check the shape of a batch request up front, so a malformed list fails as
+ * a whole (400) instead of half-running. Paths and permissions are checked
+ * per item when it runs.
+ */
+export function parseBatch(body: unknown): BatchOperation[] {
+  const operations = (body as { operations?: unknown } | undefined)?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new ListQueryError("operations must be a non-empty array");
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    throw new ListQueryError(`A batch may contain at most ${MAX_BATCH_OPERATIONS} operations`);
+  }
+
+  return operations.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const where = `operations[${index}]`;
+
+    if (!BATCH_OPS.includes(item.op as BatchOp)) {
+      throw new ListQueryError(`${where}.op must be one of ${BATCH_OPS.join(", ")}`);
+    }
+    if (typeof item.filename !== "string" || !item.filename) {
+      throw new ListQueryError(`${where}.filename is required`);
+    }
+    if (item.onConflict !== undefined && !CONFLICT_POLICIES.includes(item.onConflict as ConflictPolicy)) {
+      throw new ListQueryError(`${where}.onConflict must be one of ${CONFLICT_POLICIES.join(", ")}`);
+    }
+    if ((item.op === "move" || item.op === "copy") && typeof item.to !== "string") {
+      throw new ListQueryError(`${where}.to is required for ${item.op}`);
+    }
+    if (item.op === "tag" && !Array.isArray(item.tags)) {
+      throw new ListQueryError(`${where}.tags must be an array of strings`);
+    }
+
+    return {
+      op: item.op as BatchOp,
+      folder: typeof item.folder === "string" ? item.folder : "root",
+      filename: item.filename,
+      to: item.to as string | undefined,
+      newName: item.newName as string | undefined,
+      onConflict: item.onConflict as ConflictPolicy | undefined,
+      tags: item.tags as string[] | undefined,
+    };
+  });
+}
+
+/**
+ * Run every operation with at most `concurrency` in flight. A failing item is
+ * recorded and the rest carry on; results come back in request order.
+ */
+export async function runBatch(
+  operations: BatchOperation[],
+  execute: (operation: BatchOperation) => Promise<unknown>,
+  concurrency = BATCH_CONCURRENCY
+): Promise<BatchResult> {
+  const results: BatchItemResult[] = new Array(operations.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < operations.length) {
+      const index = next++;
+      const operation = operations[index];
+      const item = { index, op: operation.op, folder: operation.folder, filename: operation.filename };
+
+      try {
+        results[index] = { ...item, success: true, result: await execute(operation) };
+      } catch (error) {
+        const code = (error as { code?: unknown }).code;
+        results[index] = { ...item, success: false, error: (error as Error).message, code: typeof code === "string" ? code : undefined };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, operations.length)) }, worker));
+
+  const succeeded = results.filter((result) => result.success).length;
+  return { total: results.length, succeeded, failed: results.length - succeeded, results };
+}
@@ -0,0 +1,76 @@
+import { setTimeout as sleep } from "timers/promises";
+import { MCPFileClient, TicketResponse } from "./mcp-client.js";
+import { StoragePath } from "./paths.js";
+
+// How often a queued ticket is re-checked while we hold a request open for it
+export const DOWNLOAD_QUEUE_POLL_MS = parseInt(process.env.DOWNLOAD_QUEUE_POLL_MS || "2000");
+
+export class TicketExpiredError extends Error {
+  readonly status = 503;
+  readonly code = "ticket_expired";
+
+  constructor(readonly ticketId: string) {
+    super("Download queue ticket expired before it was granted");
+    this.name = "TicketExpiredError";
+  }
+}
+
+export interface TicketWaitOptions {
+  signal?: AbortSignal; // e.g. the HTTP client going away
+  onUpdate?: (ticket: TicketResponse) => void;
+  pollMs?: number;
+}
+
+/**
+ * Join the server's download queue and wait for a slot. Resolves once the
+ * ticket is granted (or already active); a ticket given up while still
+ * queued is released so it doesn't hold a place in line.
+ */
+export async function acquireTicket(
+  client: MCPFileClient,
+  filename: string,
+  folder: StoragePath | undefined,
+  options: TicketWaitOptions = {}
+): Promise<TicketResponse> {
+  let ticket = await client.joinDownloadQueue(filename, folder);
+
+  try {
+    while (ticket.status === "queued") {
+      options.onUpdate?.(ticket);
+      await sleep(options.pollMs ?? DOWNLOAD_QUEUE_POLL_MS, undefined, { signal: options.signal });
+      ticket = await client.checkTicket(ticket.ticketId);
+    }
+  } catch (error) {
+    await releaseTicket(client, ticket.ticketId);
+    throw error;
+  }
+
+  if (ticket.status === "expired") throw new TicketExpiredError(ticket.ticketId);
+  options.onUpdate?.(ticket);
+  return ticket;
+}
+
+// Run `task` inside a download slot, giving the slot back however it ends
+export async function withDownloadTicket<T>(
+  client: MCPFileClient,
+  filename: string,
+  folder: StoragePath | undefined,
+  task: (ticket: TicketResponse) => Promise<T>,
+  options: TicketWaitOptions = {}
+): Promise<T> {
+  const ticket = await acquireTicket(client, filename, folder, options);
+  try {
+    return await task(ticket);
+  } finally {
+    await releaseTicket(client, ticket.ticketId);
+  }
+}
+
+async function releaseTicket(client: MCPFileClient, ticketId: string): Promise<void> {
+  try {
+    await client.releaseTicket(ticketId);
+  } catch (error) {
+    // The server expires tickets on its own; a failed release only delays that
+    console.warn(`[Queue] Could not release download ticket ${ticketId}:`, (error as Error).message);
+  }
+}
@@ -0,0 +1,154 @@
+import { IncomingHttpHeaders, ServerResponse } from "http";
+import * as path from "path";
+import { Readable } from "stream";
+import { FileInfo, MCPFileClient } from "./mcp-client.js";
+import { StoragePath } from "./paths.js";
+
+// Bytes fetched per read_file_range call while streaming a response
+export const DOWNLOAD_CHUNK_SIZE = parseInt(process.env.DOWNLOAD_CHUNK_SIZE || String(1024 * 1024));
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg",
+  ".gif": "image/gif", ".bmp": "image/bmp", ".webp": "image/webp",
+  ".svg": "image/svg+xml", ".ico": "image/x-icon", ".mp4": "video/mp4",
+  ".tiff": "image/tiff", ".avif": "image/avif", ".heic": "image/heic",
+};
+
+export function mimeTypeFor(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || "application/octet-stream";
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Parse a `Range: bytes=...` header against a file size.
+ * Returns undefined when there is no usable single range (serve the whole
+ * file), or "unsatisfiable" when the range lies outside the file (416).
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | undefined {
+  if (!header) return undefined;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multi-range and non-byte units are legal to ignore
+  if (!match || (match[1] === "" && match[2] === "")) return undefined;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+// Validator from size + mtime (as nginx does): the MCP server gives us no content hash
+export function fileETag(info: FileInfo): string | undefined {
+  if (info.size === undefined || !info.modified) return undefined;
+  return `"${Date.parse(info.modified).toString(16)}-${info.size.toString(16)}"`;
+}
+
+export function isNotModified(headers: IncomingHttpHeaders, etag?: string, modified?: string): boolean {
+  const ifNoneMatch = headers["if-none-match"];
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence over If-Modified-Since when present
+    if (!etag) return false;
+    return ifNoneMatch === "*" || ifNoneMatch.split(",").some((tag) => weakMatch(tag.trim(), etag));
+  }
+
+  const ifModifiedSince = headers["if-modified-since"];
+  if (ifModifiedSince && modified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have one-second precision
+    return !isNaN(since) && Math.floor(Date.parse(modified) / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+// If-Range: only honour Range when the client's validator still matches
+export function rangeStillValid(headers: IncomingHttpHeaders, etag?: string, modified?: string): boolean {
+  const ifRange = headers["if-range"]?.toString();
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    // Weak validators never match If-Range
+    return ifRange === etag;
+  }
+  return !!modified && Math.floor(Date.parse(modified) / 1000) === Math.floor(Date.parse(ifRange) / 1000);
+}
+
+function weakMatch(a: string, b: string): boolean {
+  return a.replace(/^W\//, "") === b.replace(/^W\//, "");
+}
+
+/**
+ * Stream bytes [start, end] of a file to the response with ranged MCP reads,
+ * waiting for the socket to drain between chunks and stopping early if the
+ * client goes away (e.g. a <video> seeking elsewhere).
+ */
+export async function pipeFileRange(
+  client: MCPFileClient,
+  filename: string,
+  folder: StoragePath | undefined,
+  res: ServerResponse,
+  start: number,
+  end: number,
+  chunkSize = DOWNLOAD_CHUNK_SIZE
+): Promise<void> {
+  let offset = start;
+
+  while (offset <= end && !res.destroyed) {
+    const length = Math.min(chunkSize, end - offset + 1);
+    const chunk = await client.readFileRange(filename, folder, offset, length);
+    if (chunk.length === 0) break;
+
+    offset += chunk.length;
+    if (!res.write(chunk)) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off("drain", done);
+          res.off("close", done);
+          resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+      });
+    }
+  }
+
+  res.end();
+}
+
+/**
+ * A whole file as a byte stream, pulled from the MCP server in ranged chunks
+ * as the consumer reads. Without a known size the file is fetched in one go.
+ */
+export function readFileStream(
+  client: MCPFileClient,
+  filename: string,
+  folder: StoragePath | undefined,
+  size?: number,
+  chunkSize = DOWNLOAD_CHUNK_SIZE
+): Readable {
+  return Readable.from(
+    (async function* () {
+      if (size === undefined) {
+        yield Buffer.from(await client.downloadFile(filename, folder, "base64"), "base64");
+        return;
+      }
+      for (let offset = 0; offset < size; offset += chunkSize) {
+        yield await client.readFileRange(filename, folder, offset, Math.min(chunkSize, size - offset));
+      }
+    })()
+  );
+}
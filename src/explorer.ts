@@ -0,0 +1,299 @@
+/**
+ * A self-contained API explorer served at /api-explorer. It reads
+ * /api/openapi.json with the browser's session cookie, so requests sent
+ * from it run as the signed-in user; nothing is loaded from a CDN.
+ */
+export function getExplorerHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>BRANDYFICATION Agent API</title>
+  <style>
+    :root {
+      --bg: #0a0a0f;
+      --bg-card: #12121a;
+      --bg-hover: #1a1a25;
+      --primary: #8b5cf6;
+      --secondary: #06b6d4;
+      --text: #e2e8f0;
+      --text-muted: #64748b;
+      --border: #1e293b;
+      --success: #22c55e;
+      --error: #ef4444;
+      --warning: #f59e0b;
+    }
+
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+
+    body {
+      font-family: 'Segoe UI', system-ui, sans-serif;
+      background: var(--bg);
+      color: var(--text);
+      display: grid;
+      grid-template-columns: 340px 1fr;
+      height: 100vh;
+    }
+
+    aside { border-right: 1px solid var(--border); overflow-y: auto; padding: 1rem; }
+    main { overflow-y: auto; padding: 1.5rem 2rem; }
+
+    h1 {
+      font-size: 1.125rem;
+      margin-bottom: 1rem;
+      background: linear-gradient(135deg, var(--primary), var(--secondary));
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    h2 { font-size: 0.75rem; text-transform: uppercase; color: var(--text-muted); margin: 1rem 0 0.5rem; }
+    h3 { font-size: 0.875rem; margin: 1.25rem 0 0.5rem; }
+    a { color: var(--secondary); }
+
+    .op {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
+      width: 100%;
+      padding: 0.375rem 0.5rem;
+      border: none;
+      border-radius: 6px;
+      background: none;
+      color: var(--text);
+      font-size: 0.8125rem;
+      text-align: left;
+      cursor: pointer;
+    }
+    .op:hover, .op.active { background: var(--bg-hover); }
+    .op code { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+
+    .method {
+      flex-shrink: 0;
+      width: 3.75rem;
+      font-size: 0.6875rem;
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .method.get { color: var(--success); }
+    .method.post { color: var(--secondary); }
+    .method.put, .method.patch { color: var(--warning); }
+    .method.delete { color: var(--error); }
+
+    .title { display: flex; gap: 0.75rem; align-items: baseline; font-size: 1.125rem; }
+    .muted { color: var(--text-muted); font-size: 0.875rem; margin-top: 0.375rem; }
+
+    table { border-collapse: collapse; width: 100%; font-size: 0.8125rem; }
+    td { padding: 0.375rem 0.5rem 0.375rem 0; vertical-align: middle; }
+    td:first-child { width: 12rem; }
+
+    input, textarea {
+      width: 100%;
+      padding: 0.5rem 0.75rem;
+      border-radius: 6px;
+      border: 1px solid var(--border);
+      background: var(--bg-card);
+      color: var(--text);
+      font-family: ui-monospace, monospace;
+      font-size: 0.8125rem;
+    }
+    textarea { min-height: 10rem; resize: vertical; }
+
+    button.send {
+      margin-top: 1rem;
+      padding: 0.5rem 1.25rem;
+      border: none;
+      border-radius: 8px;
+      background: var(--primary);
+      color: white;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    pre {
+      padding: 0.75rem 1rem;
+      border-radius: 8px;
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      font-size: 0.8125rem;
+      overflow-x: auto;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    details summary { cursor: pointer; font-size: 0.8125rem; color: var(--text-muted); margin-top: 1rem; }
+    .status-ok { color: var(--success); }
+    .status-error { color: var(--error); }
+    .result img { max-width: 320px; border-radius: 8px; margin-top: 0.5rem; }
+  </style>
+</head>
+<body>
+  <aside>
+    <h1>📘 BRANDYFICATION API</h1>
+    <div class="muted"><a href="/api/openapi.json">openapi.json</a> · <a href="/">Back to files</a></div>
+    <div id="operations"></div>
+  </aside>
+  <main id="detail">
+    <p class="muted">Loading the API description…</p>
+  </main>
+
+  <script>
+    let spec = null;
+    let operations = [];
+
+    function el(tag, props, children) {
+      const node = document.createElement(tag);
+      Object.assign(node, props || {});
+      (children || []).forEach((child) => node.append(child));
+      return node;
+    }
+
+    // Follow $ref into components.schemas
+    function resolve(schema) {
+      if (schema && schema.$ref) return spec.components.schemas[schema.$ref.split('/').pop()];
+      return schema || {};
+    }
+
+    // A plausible value for a schema, used to prefill request bodies
+    function example(schema, depth) {
+      schema = resolve(schema);
+      if ((depth || 0) > 4) return null;
+      if (schema.enum) return schema.enum[0];
+      if (schema.oneOf) return example(schema.oneOf[0], depth);
+      if (schema.allOf) return Object.assign({}, ...schema.allOf.map((part) => example(part, depth)));
+      if (schema.type === 'object') {
+        const value = {};
+        Object.entries(schema.properties || {}).forEach(([name, property]) => {
+          value[name] = example(property, (depth || 0) + 1);
+        });
+        return value;
+      }
+      if (schema.type === 'array') return [example(schema.items, (depth || 0) + 1)];
+      if (schema.type === 'integer' || schema.type === 'number') return schema.minimum || 0;
+      if (schema.type === 'boolean') return false;
+      if (schema.type === 'string') return '';
+      return null;
+    }
+
+    async function load() {
+      const res = await fetch('/api/openapi.json');
+      const detail = document.getElementById('detail');
+      if (res.status === 401) {
+        detail.replaceChildren(el('p', { className: 'muted' }, ['Sign in on the ', el('a', { href: '/', textContent: 'main page' }), ' first; requests sent from here run as you.']));
+        return;
+      }
+      spec = await res.json();
+
+      Object.entries(spec.paths).forEach(([path, methods]) => {
+        Object.entries(methods).forEach(([method, op]) => operations.push({ path, method, op }));
+      });
+
+      const list = document.getElementById('operations');
+      spec.tags.forEach((tag) => {
+        list.append(el('h2', { textContent: tag.name }));
+        operations.forEach((entry, index) => {
+          if (!entry.op.tags.includes(tag.name)) return;
+          list.append(el('button', { className: 'op', id: 'op-' + index, title: entry.op.summary, onclick: () => select(index) }, [
+            el('span', { className: 'method ' + entry.method, textContent: entry.method }),
+            el('code', { textContent: entry.path })
+          ]));
+        });
+      });
+
+      detail.replaceChildren(
+        el('div', { className: 'title' }, [spec.info.title, el('span', { className: 'muted', textContent: 'v' + spec.info.version })]),
+        el('p', { className: 'muted', textContent: spec.info.description }),
+        el('p', { className: 'muted', textContent: 'Pick an endpoint on the left to read its schema and try it.' })
+      );
+    }
+
+    function select(index) {
+      const { path, method, op } = operations[index];
+      document.querySelectorAll('.op').forEach((button) => button.classList.toggle('active', button.id === 'op-' + index));
+
+      const rows = (op.parameters || []).map((param) =>
+        el('tr', {}, [
+          el('td', {}, [el('code', { textContent: param.name + (param.required ? ' *' : '') }), el('div', { className: 'muted', textContent: param.in })]),
+          el('td', {}, [el('input', {
+            id: 'param-' + param.in + '-' + param.name,
+            placeholder: param.description || (param.schema.enum ? param.schema.enum.join(' | ') : param.schema.type || '')
+          })])
+        ])
+      );
+
+      const json = op.requestBody && op.requestBody.content['application/json'];
+      const binary = op.requestBody && !json;
+      const body = json
+        ? el('textarea', { id: 'body', value: JSON.stringify(example(json.schema), null, 2) })
+        : binary
+          ? el('input', { id: 'body-file', type: 'file' })
+          : null;
+
+      const success = Object.entries(op.responses).find(([status]) => status !== 'default');
+      const successContent = success && success[1].content;
+      const responseSchema = successContent && successContent['application/json'] ? successContent['application/json'].schema : null;
+
+      const result = el('div', { className: 'result', id: 'result' });
+      document.getElementById('detail').replaceChildren(
+        el('div', { className: 'title' }, [el('span', { className: 'method ' + method, textContent: method }), el('code', { textContent: path })]),
+        el('p', { className: 'muted', textContent: op.summary + (op.description ? ' — ' + op.description : '') }),
+        ...(rows.length ? [el('h3', { textContent: 'Parameters' }), el('table', {}, rows)] : []),
+        ...(body ? [el('h3', { textContent: 'Body' + (binary ? ' (file)' : '') }), body] : []),
+        el('button', { className: 'send', textContent: 'Send', onclick: () => send(index) }),
+        result,
+        ...(json ? [el('details', {}, [el('summary', { textContent: 'Request schema' }), el('pre', { textContent: JSON.stringify(json.schema, null, 2) })])] : []),
+        ...(responseSchema ? [el('details', {}, [el('summary', { textContent: 'Response schema' }), el('pre', { textContent: JSON.stringify(resolve(responseSchema), null, 2) })])] : [])
+      );
+    }
+
+    async function send(index) {
+      const { path, method, op } = operations[index];
+      const result = document.getElementById('result');
+      let url = path;
+      const query = new URLSearchParams();
+
+      (op.parameters || []).forEach((param) => {
+        const value = document.getElementById('param-' + param.in + '-' + param.name).value;
+        if (param.in === 'path') url = url.split('{' + param.name + '}').join(encodeURIComponent(value));
+        else if (value !== '') query.set(param.name, value);
+      });
+      if ([...query].length) url += '?' + query;
+
+      const init = { method: method.toUpperCase(), headers: {} };
+      const bodyText = document.getElementById('body');
+      const bodyFile = document.getElementById('body-file');
+      if (bodyText) {
+        init.headers['Content-Type'] = 'application/json';
+        init.body = bodyText.value;
+      } else if (bodyFile && bodyFile.files[0]) {
+        init.headers['Content-Type'] = bodyFile.files[0].type || 'application/octet-stream';
+        init.body = bodyFile.files[0];
+      }
+
+      const started = performance.now();
+      result.replaceChildren(el('p', { className: 'muted', textContent: 'Sending…' }));
+      try {
+        const res = await fetch(url, init);
+        const elapsed = Math.round(performance.now() - started);
+        const type = res.headers.get('content-type') || '';
+        const head = el('h3', { className: res.ok ? 'status-ok' : 'status-error', textContent: res.status + ' ' + res.statusText + ' · ' + elapsed + ' ms' });
+
+        if (type.includes('json')) {
+          const text = await res.text();
+          let pretty = text;
+          try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+          result.replaceChildren(head, el('pre', { textContent: pretty }));
+        } else {
+          const blob = await res.blob();
+          const link = el('a', { href: URL.createObjectURL(blob), download: '', textContent: 'Save response' });
+          result.replaceChildren(head, el('p', { className: 'muted' }, [blob.size + ' bytes of ' + (type || 'unknown type') + ' · ', link]),
+            ...(type.startsWith('image/') ? [el('img', { src: link.href })] : []));
+        }
+      } catch (error) {
+        result.replaceChildren(el('h3', { className: 'status-error', textContent: error.message }));
+      }
+    }
+
+    load();
+  </script>
+</body>
+</html>`;
+}
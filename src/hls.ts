@@ -0,0 +1,243 @@
+import { IncomingMessage, ServerResponse } from "http";
+import * as path from "path";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { InvalidResponseError, MCPFileClient, NotFoundError, ServerUnavailableError } from "./mcp-client.js";
+import { StoragePathError } from "./paths.js";
+
+// How long the storage server may take to start answering a playlist or segment request
+export const HLS_FETCH_TIMEOUT_MS = parseInt(process.env.HLS_FETCH_TIMEOUT_MS || "10000");
+// How long a stream's playlist location is reused before get_active_streams is asked again
+const LOOKUP_TTL_MS = 5000;
+
+const PLAYLIST_TYPES = /^(application\/(vnd\.apple\.mpegurl|x-mpegurl)|audio\/(x-)?mpegurl)/i;
+const HLS_MIME_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".m4s": "video/iso.segment",
+  ".mp4": "video/mp4",
+  ".aac": "audio/aac",
+  ".vtt": "text/vtt",
+};
+
+// Response headers worth passing on from the storage server
+const RELAYED_HEADERS = ["content-length", "content-range", "accept-ranges", "last-modified", "etag", "cache-control"];
+
+/**
+ * Relays a live stream's HLS output to the browser. The storage server
+ * publishes each stream's playlist at StreamInfo.playlistUrl; browsers only
+ * ever talk to the agent, so sign-in and permissions apply and the storage
+ * server needn't be reachable from outside. Requests are resolved against the
+ * playlist's directory and nothing outside it is fetched; playlists are
+ * rewritten so every URI in that directory stays relative and comes back here.
+ */
+export class HlsRelay {
+  private playlists = new Map<string, { url: URL; expires: number }>();
+
+  constructor(
+    private client: MCPFileClient,
+    private baseUrl?: string // what a relative playlistUrl is resolved against
+  ) {}
+
+  // A stream's playlist as an absolute URL
+  async playlistUrl(streamId: string): Promise<URL> {
+    const cached = this.playlists.get(streamId);
+    if (cached && cached.expires > Date.now()) return cached.url;
+
+    const stream = (await this.client.getActiveStreams()).find((candidate) => candidate.id === streamId);
+    if (!stream) throw new NotFoundError(`Unknown stream: ${streamId}`);
+    if (!stream.playlistUrl) throw new NotFoundError(`Stream ${streamId} has no HLS playlist`);
+
+    let url: URL;
+    try {
+      url = new URL(stream.playlistUrl, this.baseUrl);
+    } catch {
+      throw new InvalidResponseError(`Stream ${streamId} has a playlistUrl the agent can't resolve: ${stream.playlistUrl} (set hlsBaseUrl)`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new InvalidResponseError(`Stream ${streamId} has a playlistUrl that isn't HTTP: ${stream.playlistUrl}`);
+    }
+
+    this.playlists.set(streamId, { url, expires: Date.now() + LOOKUP_TTL_MS });
+    return url;
+  }
+
+  /**
+   * The upstream URL for a path below the playlist's directory; an empty path
+   * is the playlist itself. Anything that resolves outside the directory is
+   * refused, so the relay can't be pointed at other hosts or paths.
+   */
+  async resolve(streamId: string, relative: string, search = ""): Promise<URL> {
+    const playlist = await this.playlistUrl(streamId);
+    if (relative === "") return playlist;
+
+    const directory = new URL(".", playlist);
+    const target = new URL(relative.split("/").map(encodeURIComponent).join("/"), directory);
+    if (!isInside(target, directory)) throw new StoragePathError(`Path is outside the stream's playlist directory: ${relative}`);
+    target.search = search;
+    return target;
+  }
+
+  /**
+   * Fetch the playlist, or a URI it references, in full; the recorder's way
+   * in. `url` must lie in the playlist's directory, like anything relayed.
+   */
+  async get(streamId: string, url?: URL): Promise<{ url: URL; body: Buffer; playlist: boolean }> {
+    const playlist = await this.playlistUrl(streamId);
+    const target = url ?? playlist;
+    if (!isInside(target, new URL(".", playlist))) throw new StoragePathError(`URI is outside the stream's playlist directory: ${target.href}`);
+
+    const upstream = await this.request(streamId, target, {});
+    const body = Buffer.from(await upstream.arrayBuffer());
+    return { url: target, body, playlist: isPlaylist(upstream, target) };
+  }
+
+  // Forget a stream's playlist location, e.g. once it stopped
+  forget(streamId: string): void {
+    this.playlists.delete(streamId);
+  }
+
+  /**
+   * Answer an HLS request for `relative` (see resolve()). Playlists are
+   * rewritten and never cached; segments stream through with Range support.
+   */
+  async relay(streamId: string, relative: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const search = new URL(req.url ?? "", "http://agent").search;
+    const url = await this.resolve(streamId, relative, search);
+    const directory = new URL(".", await this.playlistUrl(streamId));
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    const upstream = await this.request(streamId, url, req.headers.range ? { range: req.headers.range } : {}, controller);
+
+    const contentType = upstream.headers.get("content-type") ?? "";
+    const extension = path.posix.extname(url.pathname).toLowerCase();
+
+    if (isPlaylist(upstream, url)) {
+      const text = rewritePlaylist(await upstream.text(), url, directory);
+      res.writeHead(200, { "Content-Type": HLS_MIME_TYPES[".m3u8"], "Cache-Control": "no-cache" });
+      res.end(text);
+      return;
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": contentType || HLS_MIME_TYPES[extension] || "application/octet-stream",
+    };
+    for (const name of RELAYED_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    res.writeHead(upstream.status, headers);
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+    Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>)
+      .on("error", () => res.destroy())
+      .pipe(res);
+  }
+
+  // Fetch from the storage server; aborts when `controller` does or the server is too slow to start answering
+  private async request(streamId: string, url: URL, headers: Record<string, string>, controller = new AbortController()): Promise<Response> {
+    const timer = setTimeout(() => controller.abort(), HLS_FETCH_TIMEOUT_MS);
+    let upstream: Response;
+    try {
+      upstream = await fetch(url, { headers, signal: controller.signal });
+    } catch (error) {
+      throw new ServerUnavailableError(`Stream ${streamId} is unreachable: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const name = path.posix.basename(url.pathname) || "playlist";
+    if (upstream.status === 404) {
+      this.forget(streamId);
+      throw new NotFoundError(`Not found on the stream server: ${name}`);
+    }
+    if (!upstream.ok) throw new InvalidResponseError(`Stream server answered ${upstream.status} for ${name}`);
+    return upstream;
+  }
+}
+
+function isInside(url: URL, directory: URL): boolean {
+  return url.origin === directory.origin && url.pathname.startsWith(directory.pathname);
+}
+
+function isPlaylist(upstream: Response, url: URL): boolean {
+  return PLAYLIST_TYPES.test(upstream.headers.get("content-type") ?? "") || path.posix.extname(url.pathname).toLowerCase() === ".m3u8";
+}
+
+export interface PlaylistSegment {
+  uri: URL;
+  sequence: number; // media sequence number
+  duration: number;
+}
+
+// What the recorder needs from a playlist: a master lists variants, a media playlist segments
+export interface ParsedPlaylist {
+  variants: { uri: URL; bandwidth: number }[];
+  segments: PlaylistSegment[];
+  map?: URL; // fMP4 initialization segment
+  ended: boolean; // #EXT-X-ENDLIST: the stream is over
+}
+
+export function parsePlaylist(text: string, url: URL): ParsedPlaylist {
+  const parsed: ParsedPlaylist = { variants: [], segments: [], ended: false };
+  let sequence = 0;
+  let duration = 0;
+  let bandwidth: number | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "") continue;
+    if (line.startsWith("#EXT-X-MEDIA-SEQUENCE:")) sequence = parseInt(line.slice(22)) || 0;
+    else if (line.startsWith("#EXTINF:")) duration = parseFloat(line.slice(8)) || 0;
+    else if (line.startsWith("#EXT-X-STREAM-INF:")) bandwidth = parseInt(/BANDWIDTH=(\d+)/.exec(line)?.[1] ?? "0");
+    else if (line.startsWith("#EXT-X-MAP:")) {
+      const uri = /URI="([^"]*)"/.exec(line)?.[1];
+      if (uri) parsed.map = new URL(uri, url);
+    } else if (line === "#EXT-X-ENDLIST") parsed.ended = true;
+    else if (!line.startsWith("#")) {
+      if (bandwidth !== undefined) {
+        parsed.variants.push({ uri: new URL(line, url), bandwidth });
+        bandwidth = undefined;
+      } else {
+        parsed.segments.push({ uri: new URL(line, url), sequence: sequence++, duration });
+      }
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Rewrite a playlist fetched from `url` so the browser asks the relay for
+ * everything it references: URIs inside `directory` become paths relative to
+ * the playlist (the browser resolves them against the relay's own URL), both
+ * on URI lines and in URI="..." attributes (keys, init segments, renditions).
+ * URIs elsewhere are left alone; the relay wouldn't fetch them anyway.
+ */
+export function rewritePlaylist(text: string, url: URL, directory: URL): string {
+  const here = path.posix.dirname(url.pathname);
+
+  const rewrite = (uri: string): string => {
+    let target: URL;
+    try {
+      target = new URL(uri, url);
+    } catch {
+      return uri;
+    }
+    if (!isInside(target, directory)) return uri;
+    const relative = path.posix.relative(here, target.pathname) || path.posix.basename(target.pathname);
+    return relative + target.search;
+  };
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === "") return line;
+      if (!trimmed.startsWith("#")) return rewrite(trimmed);
+      return line.replace(/URI="([^"]*)"/g, (_, uri: string) => `URI="${rewrite(uri)}"`);
+    })
+    .join("\n");
+}
@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Local state (upload sessions, accounts, schedules...) lives here, outside the storage root
+export const DATA_DIR = process.env.AGENT_DATA_DIR || path.resolve(process.cwd(), ".agent-data");
+
+export function dataFile(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so a crash mid-write never leaves truncated JSON behind
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.promises.rename(tmp, file);
+}
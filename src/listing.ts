@@ -0,0 +1,174 @@
+import { FileInfo, FolderListing } from "./mcp-client.js";
+import { parseStoragePath, ROOT_PATH, StoragePath } from "./paths.js";
+
+export type SortField = "name" | "size" | "modified";
+export type SortOrder = "asc" | "desc";
+export type FileKind = "image" | "video" | "file";
+
+export interface ListedFile extends FileInfo {
+  folder: StoragePath;
+}
+
+export interface ListQuery {
+  limit: number;
+  cursor?: string;
+  sort: SortField;
+  order: SortOrder;
+  type?: FileKind;
+  q?: string;
+}
+
+export interface FilePage {
+  items: ListedFile[];
+  total: number; // matches after filtering, across all pages
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+const PAGING_PARAMS = ["limit", "cursor", "sort", "order", "type", "q"];
+
+export class ListQueryError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_query";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ListQueryError";
+  }
+}
+
+// Without any paging/sort/filter parameters the routes keep their original response shape
+export function wantsPage(params: Record<string, unknown>): boolean {
+  return PAGING_PARAMS.some((name) => params[name] !== undefined);
+}
+
+export function parseListQuery(params: Record<string, unknown>): ListQuery {
+  const limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ListQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const sort = (params.sort ?? "name") as SortField;
+  if (!["name", "size", "modified"].includes(sort)) {
+    throw new ListQueryError("sort must be one of name, size, modified");
+  }
+
+  const order = (params.order ?? "asc") as SortOrder;
+  if (order !== "asc" && order !== "desc") {
+    throw new ListQueryError("order must be asc or desc");
+  }
+
+  const type = params.type as FileKind | undefined;
+  if (type !== undefined && !["image", "video", "file"].includes(type)) {
+    throw new ListQueryError("type must be one of image, video, file");
+  }
+
+  const cursor = params.cursor ? String(params.cursor) : undefined;
+  const q = params.q ? String(params.q) : undefined;
+  return { limit, cursor, sort, order, type, q };
+}
+
+/**
+ * The MCP server may report folders as absolute paths; the API addresses them
+ * relative to storage. When one folder was asked for, that path is the answer.
+ * Otherwise this is the "all" listing: the storage root and the folders
+ * directly inside it. The one that contains another listed folder is the root;
+ * the rest are named by their last segment.
+ */
+export function folderName(folder: string, requested?: StoragePath | "all", listed: string[] = []): StoragePath {
+  if (requested && requested !== "all") return requested;
+  const normalize = (value: string) => value.replace(/\\/g, "/").replace(/\/+$/, "");
+  const path = normalize(folder);
+  if (path === "" || path === "." || path === ROOT_PATH) return ROOT_PATH;
+  if (listed.some((other) => normalize(other).startsWith(`${path}/`))) return ROOT_PATH;
+  return parseStoragePath(path.slice(path.lastIndexOf("/") + 1));
+}
+
+export function flattenListings(listings: FolderListing[], requested?: StoragePath | "all"): ListedFile[] {
+  const listed = listings.map((listing) => listing.folder);
+  return listings.flatMap((listing) =>
+    (listing.files || listing.images || listing.videos || []).map((file) => ({ ...file, folder: folderName(listing.folder, requested, listed) }))
+  );
+}
+
+export function fileKind(file: FileInfo): FileKind {
+  const mime = file.mimeType || "";
+  if (mime.startsWith("video/") || /\.(mp4|mov|m4v|webm|mkv)$/i.test(file.name)) return "video";
+  if (mime.startsWith("image/") || /\.(png|jpe?g|gif|bmp|webp|svg|ico|tiff?|avif|heic|heif)$/i.test(file.name)) return "image";
+  return "file";
+}
+
+// Sort key plus folder/name as a tiebreaker, so the order is total and cursors are stable
+type SortKey = [string | number, string, string];
+
+function sortKey(file: ListedFile, sort: SortField): SortKey {
+  const value =
+    sort === "size" ? file.size ?? 0 : sort === "modified" ? (file.modified ? Date.parse(file.modified) : 0) : file.name.toLowerCase();
+  return [value, file.folder, file.name];
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+interface CursorState {
+  sort: SortField;
+  order: SortOrder;
+  after: SortKey;
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: ListQuery): SortKey {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ListQueryError("Invalid cursor");
+  }
+  if (!Array.isArray(state?.after) || state.sort !== query.sort || state.order !== query.order) {
+    throw new ListQueryError("Cursor does not match the requested sort order");
+  }
+  return state.after;
+}
+
+/**
+ * Filter, sort and slice a flat listing. The cursor remembers the sort key of
+ * the last item returned (keyset pagination), so files added or removed
+ * between requests never shift later pages or repeat items.
+ */
+export function paginate(files: ListedFile[], query: ListQuery): FilePage {
+  const needle = query.q?.toLowerCase();
+  const direction = query.order === "desc" ? -1 : 1;
+
+  const matches = files
+    .filter((file) => !query.type || fileKind(file) === query.type)
+    .filter((file) => !needle || file.name.toLowerCase().includes(needle))
+    .map((file) => ({ file, key: sortKey(file, query.sort) }))
+    .sort((a, b) => direction * compareKeys(a.key, b.key));
+
+  let start = 0;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, query);
+    start = matches.findIndex(({ key }) => direction * compareKeys(key, after) > 0);
+    if (start === -1) start = matches.length;
+  }
+
+  const page = matches.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < matches.length;
+
+  return {
+    items: page.map(({ file }) => file),
+    total: matches.length,
+    nextCursor: hasMore && last ? encodeCursor({ sort: query.sort, order: query.order, after: last.key }) : null,
+  };
+}
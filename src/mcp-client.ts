@@ -1,7 +1,10 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { spawn } from "child_process";
+import { EventEmitter } from "events";
 import * as path from "path";
+import { assertValidName, StoragePath } from "./paths.js";
+import * as s from "./schema.js";
+import { JsonSchema, Schema, SchemaError } from "./schema.js";
 
 export interface FileInfo {
   name: string;
@@ -42,38 +45,281 @@ export interface TicketResponse {
   remainingTime?: number;
 }
 
+export type StreamType = "rtmp" | "rtsp";
+
 export interface StreamInfo {
   id: string;
   name: string;
-  status: string;
+  status: string; // as the server words it; the agent's typed view is StreamHealth.state
   url?: string;
-  startedAt?: Date;
+  startedAt?: string;
   uptime?: number;
   playlistUrl?: string;
 }
 
-export class MCPFileClient {
+export interface ToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+// A tool's output as the server sent it: text, images (base64 `data`) or other content parts
+export interface ToolContent {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+}
+
+export interface ToolCallResult {
+  tool: string;
+  content: ToolContent[];
+  structuredContent?: unknown;
+}
+
+export interface UploadHandle {
+  uploadId: string;
+  filename: string;
+  folder: string;
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  received: number;
+}
+
+// What to do when the destination of a move/rename/copy already exists
+export type ConflictPolicy = "fail" | "overwrite" | "suffix";
+export const CONFLICT_POLICIES: ConflictPolicy[] = ["fail", "overwrite", "suffix"];
+
+export interface FileLocation {
+  folder: StoragePath;
+  filename: string;
+}
+
+export interface TransferResult {
+  from: FileLocation;
+  to: FileLocation;
+  overwritten: boolean;
+  message: string;
+  toBackend?: string; // set when a copy went to another backend
+}
+
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting";
+
+export interface ConnectionStatus {
+  connected: boolean;
+  state: ConnectionState;
+  attempt?: number;
+  nextRetryIn?: number;
+}
+
+// How to start an MCP server over stdio; `env` is added to the agent's own environment
+export interface ServerCommand {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+// The bundled storage server next to the agent, on STORAGE_DIR
+export function defaultServerCommand(): ServerCommand {
+  return {
+    command: "node",
+    args: [path.resolve(process.cwd(), "../dist/index.js")],
+    env: { STORAGE_DIR: process.env.STORAGE_DIR || path.resolve(process.cwd(), "../BRANDYFICATION") },
+  };
+}
+
+export interface ReconnectOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number; // 0 = retry forever
+  callTimeoutMs?: number; // how long a pending call waits for a reconnect
+}
+
+export type MCPErrorCode = "not_found" | "conflict" | "queue_full" | "server_unavailable" | "invalid_response" | "tool_error";
+
+/**
+ * A failed MCP call. Subclasses say why, each with the HTTP status and
+ * error code the agent answers REST and WebSocket callers with; a plain
+ * MCPError is a tool error the server reported that fits none of them.
+ */
+export class MCPError extends Error {
+  readonly status: number = 502;
+  readonly code: MCPErrorCode = "tool_error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MCPError";
+  }
+}
+
+export class NotFoundError extends MCPError {
+  readonly status = 404;
+  readonly code = "not_found";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends MCPError {
+  readonly status = 409;
+  readonly code = "conflict";
+
+  constructor(message: string, readonly location?: FileLocation) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class QueueFullError extends MCPError {
+  readonly status = 503;
+  readonly code = "queue_full";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+export class ServerUnavailableError extends MCPError {
+  readonly status = 503;
+  readonly code = "server_unavailable";
+
+  constructor(message = "MCP server unavailable") {
+    super(message);
+    this.name = "ServerUnavailableError";
+  }
+}
+
+// The server answered, but not with what the tool promises
+export class InvalidResponseError extends MCPError {
+  readonly status = 502;
+  readonly code = "invalid_response";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidResponseError";
+  }
+}
+
+// Result schemas: every JSON result is checked before a caller sees it
+const fileInfo: Schema<FileInfo> = s.object({
+  name: s.string({ minLength: 1 }),
+  type: s.optional(s.string()),
+  mimeType: s.optional(s.string()),
+  path: s.optional(s.string()),
+  size: s.optional(s.number({ minimum: 0 })),
+  sizeHuman: s.optional(s.string()),
+  created: s.optional(s.string()),
+  modified: s.optional(s.string()),
+});
+
+const folderListing: Schema<FolderListing> = s.object({
+  folder: s.string(),
+  files: s.optional(s.array(fileInfo)),
+  images: s.optional(s.array(fileInfo)),
+  videos: s.optional(s.array(fileInfo)),
+});
+
+const queueStatus: Schema<QueueStatus> = s.object({
+  active: s.number({ integer: true, minimum: 0 }),
+  waiting: s.number({ integer: true, minimum: 0 }),
+  maxConcurrent: s.number({ integer: true, minimum: 0 }),
+  waitingTickets: s.optional(
+    s.array(s.object({ position: s.number({ integer: true }), ticketId: s.string(), estimatedWait: s.number() }))
+  ),
+});
+
+const downloadQueueStatus: Schema<DownloadQueueStatus> = s.object({
+  active: s.array(s.object({ sessionId: s.string(), filename: s.string(), duration: s.number(), ip: s.string() })),
+  waiting: s.array(s.object({ position: s.number({ integer: true }), sessionId: s.string(), filename: s.string(), waitTime: s.number() })),
+  stats: s.object({
+    activeCount: s.number({ integer: true, minimum: 0 }),
+    waitingCount: s.number({ integer: true, minimum: 0 }),
+    maxConcurrent: s.number({ integer: true, minimum: 0 }),
+  }),
+});
+
+const ticketResponse: Schema<TicketResponse> = s.object({
+  status: s.literal(["granted", "queued", "active", "expired"]),
+  ticketId: s.string({ minLength: 1 }),
+  position: s.optional(s.number({ integer: true })),
+  waitTime: s.optional(s.number()),
+  remainingTime: s.optional(s.number()),
+});
+
+const streamInfo: Schema<StreamInfo> = s.object({
+  id: s.string({ minLength: 1 }),
+  name: s.string(),
+  status: s.string(),
+  url: s.optional(s.string()),
+  startedAt: s.optional(s.string()),
+  uptime: s.optional(s.number()),
+  playlistUrl: s.optional(s.string()),
+});
+
+const uploadHandle: Schema<UploadHandle> = s.object({ uploadId: s.string({ minLength: 1 }), filename: s.string(), folder: s.string() });
+const uploadProgress: Schema<UploadProgress> = s.object({ uploadId: s.string(), received: s.number({ integer: true, minimum: 0 }) });
+
+// The same shapes by name, for the REST API's OpenAPI document
+export const RESULT_SCHEMAS = {
+  FileInfo: fileInfo,
+  FolderListing: folderListing,
+  QueueStatus: queueStatus,
+  DownloadQueueStatus: downloadQueueStatus,
+  TicketResponse: ticketResponse,
+  StreamInfo: streamInfo,
+};
+
+export class MCPFileClient extends EventEmitter {
   private client: Client | null = null;
   private transport: StdioClientTransport | null = null;
   private connected = false;
-  private serverPath: string;
-
-  constructor(serverPath?: string) {
-    this.serverPath = serverPath || path.resolve(process.cwd(), "../dist/index.js");
+  private state: ConnectionState = "disconnected";
+  private server: ServerCommand;
+  private logTag: string;
+  private reconnect: Required<ReconnectOptions>;
+  private reconnectAttempt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private connecting: Promise<void> | null = null;
+  private closing = false;
+  private tools: Map<string, ToolInfo> | null = null; // listTools() of the current session
+  private toolSchemas = new WeakMap<ToolInfo, Schema<unknown>>(); // each tool's inputSchema, built on first call
+
+  constructor(server: ServerCommand = defaultServerCommand(), reconnect: ReconnectOptions = {}, name?: string) {
+    super();
+    this.server = server;
+    this.logTag = name ? `[MCP Client:${name}]` : "[MCP Client]";
+    this.reconnect = {
+      initialDelayMs: reconnect.initialDelayMs ?? 1000,
+      maxDelayMs: reconnect.maxDelayMs ?? 30000,
+      maxAttempts: reconnect.maxAttempts ?? 0,
+      callTimeoutMs: reconnect.callTimeoutMs ?? 15000,
+    };
   }
 
   async connect(): Promise<void> {
     if (this.connected) return;
+    if (this.connecting) return this.connecting;
+
+    this.closing = false;
+    this.connecting = this.openSession().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
 
-    console.log("[MCP Client] Connecting to server:", this.serverPath);
+  private async openSession(): Promise<void> {
+    console.log(`${this.logTag} Connecting to server:`, [this.server.command, ...(this.server.args ?? [])].join(" "));
+    if (this.state !== "reconnecting") this.setState("connecting");
 
     this.transport = new StdioClientTransport({
-      command: "node",
-      args: [this.serverPath],
-      env: {
-        ...process.env,
-        STORAGE_DIR: process.env.STORAGE_DIR || path.resolve(process.cwd(), "../BRANDYFICATION"),
-      },
+      command: this.server.command,
+      args: this.server.args ?? [],
+      env: { ...(process.env as Record<string, string>), ...this.server.env },
     });
 
     this.client = new Client(
@@ -81,54 +327,187 @@ export class MCPFileClient {
       { capabilities: {} }
     );
 
-    await this.client.connect(this.transport);
+    const client = this.client;
+    client.onerror = (error) => console.error(`${this.logTag} Transport error:`, error.message);
+
+    try {
+      await client.connect(this.transport);
+    } catch (error) {
+      this.client = null;
+      this.transport = null;
+      if (this.state !== "reconnecting") this.setState("disconnected");
+      throw error;
+    }
+    // Only a session that came up can be lost; a failed handshake is retried by whoever called connect()
+    client.onclose = () => this.handleConnectionLost(client);
+
     this.connected = true;
-    console.log("[MCP Client] Connected successfully");
+    this.reconnectAttempt = 0;
+    this.tools = null; // a restarted server may offer different tools
+    this.setState("connected");
+    console.log(`${this.logTag} Connected successfully`);
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.client && this.connected) {
       await this.client.close();
-      this.connected = false;
-      console.log("[MCP Client] Disconnected");
+      console.log(`${this.logTag} Disconnected`);
     }
+    this.connected = false;
+    this.setState("disconnected");
   }
 
   isConnected(): boolean {
     return this.connected;
   }
 
-  private async callTool(name: string, args: Record<string, unknown> = {}): Promise<string> {
-    if (!this.client || !this.connected) {
-      throw new Error("Not connected to MCP server");
+  getStatus(): ConnectionStatus {
+    const status: ConnectionStatus = { connected: this.connected, state: this.state };
+    if (this.state === "reconnecting") status.attempt = this.reconnectAttempt;
+    return status;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 🔁 CONNECTION SUPERVISION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private setState(state: ConnectionState, extra: Partial<ConnectionStatus> = {}): void {
+    const changed = this.state !== state;
+    this.state = state;
+    if (changed || state === "reconnecting") {
+      this.emit("status", { ...this.getStatus(), ...extra });
     }
+  }
 
-    const result = await this.client.callTool({ name, arguments: args });
-    
-    if (result.content && Array.isArray(result.content) && result.content.length > 0) {
-      const content = result.content[0];
-      if (content.type === "text") {
-        return content.text as string;
+  private handleConnectionLost(client: Client): void {
+    // Ignore close events from sessions we have already replaced
+    if (client !== this.client) return;
+
+    this.client = null;
+    this.transport = null;
+    this.connected = false;
+
+    if (this.closing) return;
+
+    console.error(`${this.logTag} Connection to server lost`);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const { initialDelayMs, maxDelayMs, maxAttempts } = this.reconnect;
+
+    if (maxAttempts > 0 && this.reconnectAttempt >= maxAttempts) {
+      console.error(`${this.logTag} Giving up after ${this.reconnectAttempt} reconnect attempts`);
+      this.reconnectAttempt = 0;
+      this.setState("disconnected");
+      return;
+    }
+
+    const delay = Math.min(initialDelayMs * 2 ** this.reconnectAttempt, maxDelayMs);
+    this.reconnectAttempt++;
+    this.setState("reconnecting", { nextRetryIn: delay });
+    console.log(`${this.logTag} Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.closing) return;
+      try {
+        await this.connect();
+      } catch (error) {
+        console.error(`${this.logTag} Reconnect failed:`, (error as Error).message);
+        if (!this.closing) this.scheduleReconnect();
       }
+    }, delay);
+  }
+
+  // Resolves once a session is available, waiting out an in-flight reconnect
+  private async waitForConnection(): Promise<Client> {
+    if (this.client && this.connected) return this.client;
+
+    if (this.state !== "reconnecting" && this.state !== "connecting") {
+      throw new ServerUnavailableError("Not connected to MCP server");
+    }
+
+    return new Promise<Client>((resolve, reject) => {
+      const onStatus = (status: ConnectionStatus) => {
+        if (status.state === "connected" && this.client) {
+          cleanup();
+          resolve(this.client);
+        } else if (status.state === "disconnected") {
+          cleanup();
+          reject(new ServerUnavailableError("MCP server unavailable: reconnect abandoned"));
+        }
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new ServerUnavailableError("MCP server unavailable: timed out waiting for reconnect"));
+      }, this.reconnect.callTimeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off("status", onStatus);
+      };
+      this.on("status", onStatus);
+    });
+  }
+
+  // The tool's content; a result flagged isError is thrown as the MCPError its message describes
+  private async send(name: string, args: Record<string, unknown>): Promise<ToolCallResult> {
+    const client = await this.waitForConnection();
+
+    let result;
+    try {
+      result = await client.callTool({ name, arguments: args });
+    } catch (error) {
+      // The session dropped underneath us mid-call
+      if (!this.connected) throw new ServerUnavailableError((error as Error).message);
+      throw error;
+    }
+
+    const content = Array.isArray(result.content) ? (result.content as ToolContent[]) : [];
+    if (result.isError) throw toolError(name, textOf(content));
+    return { tool: name, content, ...(result.structuredContent !== undefined && { structuredContent: result.structuredContent }) };
+  }
+
+  // The tool's text output
+  private async callTool(name: string, args: Record<string, unknown> = {}): Promise<string> {
+    return textOf((await this.send(name, args)).content);
+  }
+
+  // A tool whose text output is JSON, parsed and checked against `schema`
+  private async callJson<T>(name: string, args: Record<string, unknown>, schema: Schema<T>): Promise<T> {
+    const text = await this.callTool(name, args);
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new InvalidResponseError(`${name} returned malformed JSON: ${text.slice(0, 200)}`);
+    }
+
+    try {
+      return schema.parse(value);
+    } catch (error) {
+      if (error instanceof SchemaError) throw new InvalidResponseError(`${name} returned an unexpected result: ${error.message}`);
+      throw error;
     }
-    
-    return "";
   }
 
   // File Operations
-  async listFiles(folder: "IMAGES" | "VIDEOS" | "root" | "all" = "all"): Promise<FolderListing[]> {
-    const result = await this.callTool("list_files", { folder });
-    return JSON.parse(result);
+  async listFiles(folder: StoragePath | "all" = "all"): Promise<FolderListing[]> {
+    return this.callJson("list_files", { folder }, s.array(folderListing));
   }
 
   async listImages(): Promise<{ folder: string; images: FileInfo[] }> {
-    const result = await this.callTool("list_images");
-    return JSON.parse(result);
+    return this.callJson("list_images", {}, s.object({ folder: s.string(), images: s.array(fileInfo) }));
   }
 
   async listVideos(): Promise<{ folder: string; videos: FileInfo[] }> {
-    const result = await this.callTool("list_videos");
-    return JSON.parse(result);
+    return this.callJson("list_videos", {}, s.object({ folder: s.string(), videos: s.array(fileInfo) }));
   }
 
   async uploadFile(filename: string, content: string, encoding: "base64" | "utf8" = "base64"): Promise<string> {
@@ -143,77 +522,209 @@ export class MCPFileClient {
     return await this.callTool("upload_video", { filename, content });
   }
 
-  async downloadFile(filename: string, folder?: "IMAGES" | "VIDEOS" | "root", encoding: "base64" | "utf8" = "base64"): Promise<string> {
-    const args: Record<string, unknown> = { filename, encoding };
-    if (folder) args.folder = folder;
-    return await this.callTool("download_file", args);
+  // Chunked uploads: begin → upload_chunk × N → finish, so large videos never sit in memory whole
+  async beginUpload(filename: string, folder?: StoragePath): Promise<UploadHandle> {
+    return this.callJson("begin_upload", fileArgs(filename, folder), uploadHandle);
+  }
+
+  async uploadChunk(uploadId: string, content: string, offset: number): Promise<UploadProgress> {
+    return this.callJson("upload_chunk", { uploadId, content, offset, encoding: "base64" }, uploadProgress);
+  }
+
+  // `checksum` ("sha256:<hex>") is verified by the server against the assembled file
+  async finishUpload(uploadId: string, checksum?: string): Promise<string> {
+    const args: Record<string, unknown> = { uploadId };
+    if (checksum) args.checksum = checksum;
+    return await this.callTool("finish_upload", args);
+  }
+
+  async abortUpload(uploadId: string): Promise<string> {
+    return await this.callTool("abort_upload", { uploadId });
+  }
+
+  async downloadFile(filename: string, folder?: StoragePath, encoding: "base64" | "utf8" = "base64"): Promise<string> {
+    return await this.callTool("download_file", { ...fileArgs(filename, folder), encoding });
+  }
+
+  // Read `length` bytes starting at `offset`, returned base64-encoded
+  async readFileRange(filename: string, folder: StoragePath | undefined, offset: number, length: number): Promise<Buffer> {
+    const result = await this.callTool("read_file_range", { ...fileArgs(filename, folder), offset, length });
+    return Buffer.from(result, "base64");
+  }
+
+  async deleteFile(filename: string, folder?: StoragePath): Promise<string> {
+    return await this.callTool("delete_file", fileArgs(filename, folder));
+  }
+
+  async getFileInfo(filename: string, folder?: StoragePath): Promise<FileInfo> {
+    return this.callJson("get_file_info", fileArgs(filename, folder), fileInfo);
+  }
+
+  /**
+   * Server-side moves and copies, so nothing is downloaded and re-uploaded and
+   * timestamps survive. The conflict policy is resolved here against a listing
+   * of the destination: "fail" throws ConflictError, "overwrite" replaces the
+   * existing file, "suffix" picks the first free "name (n).ext".
+   */
+  async moveFile(from: FileLocation, to: FileLocation, onConflict: ConflictPolicy = "fail"): Promise<TransferResult> {
+    return this.transfer("move_file", from, to, onConflict);
+  }
+
+  // A move that stays in the same folder
+  async renameFile(folder: StoragePath, filename: string, newName: string, onConflict: ConflictPolicy = "fail"): Promise<TransferResult> {
+    return this.transfer("move_file", { folder, filename }, { folder, filename: newName }, onConflict);
   }
 
-  async deleteFile(filename: string, folder?: "IMAGES" | "VIDEOS" | "root"): Promise<string> {
-    const args: Record<string, unknown> = { filename };
-    if (folder) args.folder = folder;
-    return await this.callTool("delete_file", args);
+  async copyFile(from: FileLocation, to: FileLocation, onConflict: ConflictPolicy = "fail"): Promise<TransferResult> {
+    return this.transfer("copy_file", from, to, onConflict);
   }
 
-  async getFileInfo(filename: string, folder?: "IMAGES" | "VIDEOS" | "root"): Promise<FileInfo> {
-    const args: Record<string, unknown> = { filename };
-    if (folder) args.folder = folder;
-    const result = await this.callTool("get_file_info", args);
-    return JSON.parse(result);
+  private async transfer(tool: "move_file" | "copy_file", from: FileLocation, to: FileLocation, onConflict: ConflictPolicy): Promise<TransferResult> {
+    assertValidName(from.filename);
+    assertValidName(to.filename);
+
+    const sameFile = from.folder === to.folder && from.filename === to.filename;
+    if (sameFile && (tool === "move_file" || onConflict !== "suffix")) {
+      throw new ConflictError("Source and destination are the same file");
+    }
+
+    const { target, overwritten } = await this.resolveDestination(to, onConflict);
+    const message = await this.callTool(tool, {
+      filename: from.filename,
+      folder: from.folder,
+      destinationFolder: target.folder,
+      destinationFilename: target.filename,
+      overwrite: overwritten,
+    });
+    return { from, to: target, overwritten, message };
+  }
+
+  // Where a file sent to `to` should land under the conflict policy, checked against a listing of its folder
+  async resolveDestination(to: FileLocation, onConflict: ConflictPolicy): Promise<{ target: FileLocation; overwritten: boolean }> {
+    assertValidName(to.filename);
+    const taken = new Set(
+      (await this.listFiles(to.folder)).flatMap((listing) => (listing.files || listing.images || listing.videos || []).map((file) => file.name))
+    );
+
+    if (!taken.has(to.filename)) return { target: to, overwritten: false };
+    if (onConflict === "fail") throw new ConflictError(`${to.filename} already exists in ${to.folder}`, to);
+    if (onConflict === "overwrite") return { target: to, overwritten: true };
+    return { target: { folder: to.folder, filename: freeName(to.filename, taken) }, overwritten: false };
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // 🌀 BRANDYFICATION QUEUE & STREAMING METHODS
   // ═══════════════════════════════════════════════════════════════════════════
 
-  async createDirectory(name: string, parentFolder?: "IMAGES" | "VIDEOS" | "root"): Promise<string> {
+  async createDirectory(name: string, parentFolder?: StoragePath): Promise<string> {
+    assertValidName(name);
     const args: Record<string, unknown> = { name };
     if (parentFolder) args.parentFolder = parentFolder;
     return await this.callTool("create_directory", args);
   }
 
   async getQueueStatus(): Promise<QueueStatus> {
-    const result = await this.callTool("get_queue_status", {});
-    return JSON.parse(result);
+    return this.callJson("get_queue_status", {}, queueStatus);
   }
 
-  async joinDownloadQueue(filename: string, folder?: "IMAGES" | "VIDEOS" | "root"): Promise<TicketResponse> {
-    const args: Record<string, unknown> = { filename };
-    if (folder) args.folder = folder;
-    const result = await this.callTool("join_download_queue", args);
-    return JSON.parse(result);
+  async joinDownloadQueue(filename: string, folder?: StoragePath): Promise<TicketResponse> {
+    return this.callJson("join_download_queue", fileArgs(filename, folder), ticketResponse);
   }
 
   async checkTicket(ticketId: string): Promise<TicketResponse> {
-    const result = await this.callTool("check_ticket", { ticketId });
-    return JSON.parse(result);
+    return this.callJson("check_ticket", { ticketId }, ticketResponse);
+  }
+
+  // Hand a granted or active slot back before the server's ticket expiry would
+  async releaseTicket(ticketId: string): Promise<string> {
+    return await this.callTool("release_ticket", { ticketId });
   }
 
   async getDownloadQueueStatus(): Promise<DownloadQueueStatus> {
-    const result = await this.callTool("get_download_queue_status", {});
-    return JSON.parse(result);
+    return this.callJson("get_download_queue_status", {}, downloadQueueStatus);
   }
 
   async getActiveStreams(): Promise<StreamInfo[]> {
-    const result = await this.callTool("get_active_streams", {});
-    return JSON.parse(result);
+    return this.callJson("get_active_streams", {}, s.array(streamInfo));
   }
 
-  async startStream(source: string, type: "rtmp" | "rtsp"): Promise<StreamInfo> {
-    const result = await this.callTool("start_stream", { source, type });
-    return JSON.parse(result);
+  async startStream(source: string, type: StreamType): Promise<StreamInfo> {
+    return this.callJson("start_stream", { source, type }, streamInfo);
   }
 
   async stopStream(streamId: string): Promise<string> {
     return await this.callTool("stop_stream", { streamId });
   }
 
-  // Get available tools
-  async getTools(): Promise<unknown[]> {
-    if (!this.client || !this.connected) {
-      throw new Error("Not connected to MCP server");
+  // Tools the server offers, listed once per session
+  async getTools(): Promise<ToolInfo[]> {
+    if (!this.tools) {
+      const client = await this.waitForConnection();
+      const result = await client.listTools();
+      this.tools = new Map(result.tools.map((tool) => [tool.name, tool as ToolInfo]));
+    }
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Call any tool the server advertises, including ones this class has no
+   * wrapper for. Arguments are checked against the tool's inputSchema first,
+   * so a bad call fails with a SchemaError naming the field.
+   */
+  async invokeTool(name: string, args: unknown = {}): Promise<ToolCallResult> {
+    let tool = this.tools?.get(name);
+    if (!tool) {
+      this.tools = null; // maybe added since we last asked
+      tool = (await this.getTools()).find((candidate) => candidate.name === name);
     }
-    const result = await this.client.listTools();
-    return result.tools;
+    if (!tool) throw new NotFoundError(`Unknown tool: ${name}`);
+
+    let inputSchema = this.toolSchemas.get(tool);
+    if (!inputSchema) {
+      inputSchema = s.fromJsonSchema(tool.inputSchema);
+      this.toolSchemas.set(tool, inputSchema);
+    }
+    const checked = inputSchema.parse(args, "arguments");
+    return this.send(name, checked as Record<string, unknown>);
+  }
+}
+
+// Arguments naming one file; the name is checked here so no caller can smuggle a path through it
+function fileArgs(filename: string, folder?: StoragePath): Record<string, unknown> {
+  assertValidName(filename);
+  const args: Record<string, unknown> = { filename };
+  if (folder) args.folder = folder;
+  return args;
+}
+
+function textOf(content: ToolContent[]): string {
+  return content
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Tools report failures as free text, so the kind of failure is read off the
+ * message; anything unrecognised stays a plain MCPError.
+ */
+function toolError(tool: string, text: string): MCPError {
+  const message = text.replace(/^error:\s*/i, "") || `${tool} failed`;
+  if (/not found|no such file|does not exist|enoent|unknown ticket/i.test(message)) return new NotFoundError(message);
+  if (/already exists|eexist/i.test(message)) return new ConflictError(message);
+  if (/queue (is )?full|too many (downloads|requests)/i.test(message)) return new QueueFullError(message);
+  return new MCPError(message);
+}
+
+// "clip.mp4" → "clip (1).mp4", "clip (2).mp4", ... whichever is free first
+function freeName(filename: string, taken: Set<string>): string {
+  const dot = filename.lastIndexOf(".");
+  const stem = dot > 0 ? filename.slice(0, dot) : filename;
+  const ext = dot > 0 ? filename.slice(dot) : "";
+
+  for (let n = 1; n < 10000; n++) {
+    const candidate = `${stem} (${n})${ext}`;
+    if (!taken.has(candidate)) return candidate;
   }
+  throw new ConflictError(`No free name left for ${filename}`);
 }
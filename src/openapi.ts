@@ -0,0 +1,997 @@
+import * as s from "./schema.js";
+import { JsonSchema, Schema } from "./schema.js";
+import { CONFLICT_POLICIES, RESULT_SCHEMAS } from "./mcp-client.js";
+import { ARCHIVE_FORMATS, MAX_ARCHIVE_FILES } from "./archives.js";
+import { MAX_PAGE_SIZE } from "./listing.js";
+import { MAX_TREE_DEPTH } from "./tree.js";
+import { ROLES, AgentAction } from "./permissions.js";
+import { SESSION_COOKIE } from "./auth.js";
+import { ACTION_SCHEMAS } from "./protocol.js";
+
+/**
+ * The REST API, described once. openApiDocument() turns the table into an
+ * OpenAPI 3 document, and validateRequest() checks every incoming /api
+ * request against the same entries, so what the document promises is what
+ * the routes accept. Handlers still do their own parsing; validation only
+ * rejects requests the document doesn't allow.
+ */
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+type ObjectSchema = Schema<Record<string, unknown>>;
+
+export interface ApiRoute {
+  id: string; // operationId
+  method: Method;
+  path: string; // Express syntax, e.g. /api/file/:folder/:filename; :name(*) takes the rest of the path
+  tag: string;
+  summary: string;
+  action?: AgentAction; // permission the route checks
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+  body?: Schema<unknown>;
+  bodyTypes?: string[]; // media types `body` may arrive as; JSON when omitted
+  rawBody?: string[]; // media types of a body the handler streams itself; documented, not validated
+  status?: number; // success status, 200 when omitted
+  response?: JsonSchema; // JSON success body
+  produces?: string; // media type of a non-JSON success body
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (name: string): JsonSchema => ({ type: "array", items: ref(name) });
+
+const file = s.object({ folder: s.string({ minLength: 1 }), filename: s.string({ minLength: 1 }) });
+const listQuery = {
+  limit: s.optional(s.number({ integer: true, minimum: 1, maximum: MAX_PAGE_SIZE })),
+  cursor: s.optional(s.describe(s.string(), "nextCursor from the previous page")),
+  sort: s.optional(s.literal(["name", "size", "modified"])),
+  order: s.optional(s.literal(["asc", "desc"])),
+  type: s.optional(s.literal(["image", "video", "file"])),
+  q: s.optional(s.describe(s.string(), "Case-insensitive name filter")),
+};
+const onConflict = s.optional(s.literal(CONFLICT_POLICIES));
+const success = ref("Success");
+
+const COMPONENTS: Record<string, JsonSchema> = {
+  ...Object.fromEntries(Object.entries(RESULT_SCHEMAS).map(([name, schema]) => [name, schema.json])),
+  ListedFile: { allOf: [ref("FileInfo"), s.object({ folder: s.string() }).json] },
+  FilePage: {
+    type: "object",
+    properties: { items: arrayOf("ListedFile"), total: { type: "integer" }, nextCursor: { type: "string", nullable: true } },
+    required: ["items", "total", "nextCursor"],
+  },
+  TreeNode: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      path: { type: "string" },
+      files: { type: "integer" },
+      directories: { type: "integer" },
+      children: arrayOf("TreeNode"),
+    },
+    required: ["name", "path", "files", "directories"],
+  },
+  FileLocation: s.object({ folder: s.string(), filename: s.string() }).json,
+  TransferResult: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      from: ref("FileLocation"),
+      to: ref("FileLocation"),
+      overwritten: { type: "boolean" },
+      message: { type: "string" },
+      toBackend: { type: "string", description: "Set when the copy went to another backend" },
+    },
+    required: ["from", "to", "overwritten", "message"],
+  },
+  BatchResult: s.object({
+    total: s.number({ integer: true }),
+    succeeded: s.number({ integer: true }),
+    failed: s.number({ integer: true }),
+    results: s.array(
+      s.object({
+        index: s.number({ integer: true }),
+        op: s.string(),
+        folder: s.string(),
+        filename: s.string(),
+        success: s.boolean(),
+        result: s.optional(s.unknown()),
+        error: s.optional(s.string()),
+        code: s.optional(s.string()),
+      })
+    ),
+  }).json,
+  SearchResult: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      total: { type: "integer" },
+      items: { type: "array", items: { allOf: [ref("ListedFile"), s.object({ tags: s.array(s.string()), score: s.number() }).json] } },
+    },
+    required: ["query", "total", "items"],
+  },
+  UploadSession: s.object({
+    id: s.string(),
+    uploadId: s.string(),
+    filename: s.string(),
+    folder: s.string(),
+    owner: s.optional(s.string()),
+    size: s.optional(s.number({ integer: true })),
+    offset: s.describe(s.number({ integer: true }), "Bytes acknowledged so far; the next chunk starts here"),
+    createdAt: s.string(),
+    updatedAt: s.string(),
+    expiresAt: s.string(),
+  }).json,
+  ConnectionStatus: s.object({
+    connected: s.boolean(),
+    state: s.literal(["disconnected", "connecting", "connected", "reconnecting"]),
+    attempt: s.optional(s.number({ integer: true })),
+    nextRetryIn: s.optional(s.number()),
+  }).json,
+  BackendSummary: {
+    type: "object",
+    properties: { name: { type: "string" }, label: { type: "string" }, default: { type: "boolean" }, status: ref("ConnectionStatus") },
+    required: ["name", "label", "default", "status"],
+  },
+  User: s.object({ id: s.string(), username: s.string(), role: s.literal(ROLES), createdAt: s.string() }).json,
+  ApiToken: s.object({
+    id: s.string(),
+    userId: s.string(),
+    name: s.string(),
+    preview: s.string(),
+    createdAt: s.string(),
+    lastUsedAt: s.optional(s.string()),
+  }).json,
+  ToolInfo: s.object({ name: s.string(), description: s.optional(s.string()), inputSchema: s.describe(s.unknown(), "JSON Schema of the arguments") }).json,
+  ToolCallResult: s.object({
+    tool: s.string(),
+    content: s.array(
+      s.object({
+        type: s.describe(s.string(), "text, image, …"),
+        text: s.optional(s.string()),
+        data: s.optional(s.describe(s.string(), "base64, for images")),
+        mimeType: s.optional(s.string()),
+      })
+    ),
+    structuredContent: s.optional(s.unknown()),
+  }).json,
+  StreamHealth: {
+    type: "object",
+    properties: {
+      streamId: { type: "string" },
+      source: { type: "string" },
+      type: { type: "string", enum: ["rtmp", "rtsp"] },
+      state: { type: "string", enum: ["starting", "live", "stalled", "reconnecting", "stopped", "failed"] },
+      since: { type: "string", description: "When the stream entered its state" },
+      reason: { type: "string", description: "Why it did" },
+      serverStatus: { type: "string", description: "StreamInfo.status as last reported" },
+      uptime: { type: "number" },
+      lastSegmentAt: { type: "string", description: "When the playlist last gained a segment" },
+      restarts: { type: "integer", description: "Automatic restarts so far" },
+      replaces: { type: "string", description: "The stream this one was restarted from" },
+    },
+    required: ["streamId", "state", "since", "restarts"],
+  },
+  AuditEntry: {
+    type: "object",
+    properties: {
+      time: { type: "string" },
+      actor: { type: "string", nullable: true, description: "Username; for a sign-in, the one it named" },
+      ip: { type: "string" },
+      via: { type: "string", enum: ["rest", "websocket"] },
+      action: { type: "string", description: "The permission action, or the route's operationId when it has none" },
+      backend: { type: "string" },
+      target: { type: "string", description: "Storage path, stream, preset, user... the operation acted on" },
+      request: { type: "string", description: "METHOD /path of a REST call" },
+      result: { type: "string", enum: ["ok", "error"] },
+      status: { type: "integer", description: "HTTP status of a REST call" },
+      error: { type: "string" },
+    },
+    required: ["time", "actor", "ip", "via", "action", "result"],
+  },
+  StreamPreset: {
+    allOf: [
+      ACTION_SCHEMAS.create_stream_preset.json,
+      {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          createdAt: { type: "string" },
+          updatedAt: { type: "string" },
+          ingestKey: {
+            ...s.object({ preview: s.string(), createdAt: s.string() }).json,
+            description: "Set when the preset has an ingest key; the key itself is only returned when rotated",
+          },
+        },
+        required: ["id", "autoStart", "createdAt", "updatedAt"],
+      },
+    ],
+  },
+  Recording: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      streamId: { type: "string" },
+      source: { type: "string" },
+      folder: { type: "string", description: "Where the MP4 lands" },
+      name: { type: "string", description: "The MP4's name without extension" },
+      segmentFolder: { type: "string", description: "Segments as they arrive, removed once the MP4 is written" },
+      segments: { type: "integer" },
+      bytes: { type: "integer" },
+      status: { type: "string", enum: ["recording", "finalizing", "finished", "failed"] },
+      scheduleId: { type: "string" },
+      startedAt: { type: "string" },
+      stoppedAt: { type: "string" },
+      file: ref("FileLocation"),
+      error: { type: "string" },
+    },
+    required: ["id", "streamId", "folder", "name", "segmentFolder", "segments", "bytes", "status", "startedAt"],
+  },
+  RecordingSchedule: {
+    allOf: [
+      ACTION_SCHEMAS.schedule_recording.json,
+      {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          createdAt: { type: "string" },
+          active: {
+            ...s.object({ streamId: s.string(), recordingId: s.string(), startedStream: s.boolean() }).json,
+            description: "Set while the window is open",
+          },
+        },
+        required: ["id", "createdAt"],
+      },
+    ],
+  },
+  Success: s.object({ success: s.boolean(), message: s.optional(s.string()) }).json,
+  Error: s.object({
+    error: s.string(),
+    code: s.optional(s.describe(s.string(), "Stable error code, e.g. not_found, conflict, invalid_payload")),
+  }).json,
+};
+
+export const API_ROUTES: ApiRoute[] = [
+  // Authentication
+  {
+    id: "login",
+    method: "post",
+    path: "/api/auth/login",
+    tag: "Auth",
+    summary: "Sign in and receive a session cookie",
+    body: s.object({ username: s.string({ minLength: 1 }), password: s.string({ minLength: 1 }) }),
+    response: { type: "object", properties: { success: { type: "boolean" }, user: ref("User") } },
+  },
+  { id: "logout", method: "post", path: "/api/auth/logout", tag: "Auth", summary: "End the current session", response: success },
+  { id: "me", method: "get", path: "/api/auth/me", tag: "Auth", summary: "The signed-in user and their grants", response: ref("User") },
+  {
+    id: "changePassword",
+    method: "post",
+    path: "/api/auth/password",
+    tag: "Auth",
+    summary: "Change your password",
+    body: s.object({ password: s.string({ minLength: 8 }) }),
+    response: success,
+  },
+  { id: "listTokens", method: "get", path: "/api/auth/tokens", tag: "Auth", summary: "Your API tokens", response: arrayOf("ApiToken") },
+  {
+    id: "createToken",
+    method: "post",
+    path: "/api/auth/tokens",
+    tag: "Auth",
+    summary: "Create an API token; the secret is only returned here",
+    body: s.object({ name: s.optional(s.string({ maxLength: 100 })) }),
+    status: 201,
+    response: { allOf: [ref("ApiToken"), s.object({ token: s.string() }).json] },
+  },
+  {
+    id: "revokeToken",
+    method: "delete",
+    path: "/api/auth/tokens/:tokenId",
+    tag: "Auth",
+    summary: "Revoke one of your API tokens",
+    params: s.object({ tokenId: s.string() }),
+    response: success,
+  },
+  { id: "listUsers", method: "get", path: "/api/auth/users", tag: "Auth", summary: "All accounts", action: "manage_users", response: arrayOf("User") },
+  {
+    id: "createUser",
+    method: "post",
+    path: "/api/auth/users",
+    tag: "Auth",
+    summary: "Create an account",
+    action: "manage_users",
+    body: s.object({ username: s.string({ minLength: 2, maxLength: 64 }), password: s.string({ minLength: 8 }), role: s.optional(s.literal(ROLES)) }),
+    status: 201,
+    response: ref("User"),
+  },
+  {
+    id: "setRole",
+    method: "patch",
+    path: "/api/auth/users/:userId",
+    tag: "Auth",
+    summary: "Change an account's role",
+    action: "manage_users",
+    params: s.object({ userId: s.string() }),
+    body: s.object({ role: s.literal(ROLES) }),
+    response: ref("User"),
+  },
+  {
+    id: "deleteUser",
+    method: "delete",
+    path: "/api/auth/users/:userId",
+    tag: "Auth",
+    summary: "Delete an account",
+    action: "manage_users",
+    params: s.object({ userId: s.string() }),
+    response: success,
+  },
+
+  // Audit
+  {
+    id: "getAuditLog",
+    method: "get",
+    path: "/api/audit",
+    tag: "Audit",
+    summary: "Recorded mutating operations, newest first; format=jsonl or csv downloads them",
+    action: "view_audit",
+    query: s.object({
+      action: s.optional(s.describe(s.string(), "e.g. delete, upload, start_stream, login")),
+      actor: s.optional(s.describe(s.string(), "Username")),
+      since: s.optional(s.describe(s.string(), "ISO 8601 date; older entries are left out")),
+      limit: s.optional(s.number({ integer: true, minimum: 1, maximum: 100000 })),
+      format: s.optional(s.literal(["json", "jsonl", "csv"])),
+    }),
+    response: arrayOf("AuditEntry"),
+  },
+
+  // Connection
+  { id: "getStatus", method: "get", path: "/api/status", tag: "Status", summary: "MCP connection state", action: "connect", response: ref("ConnectionStatus") },
+  {
+    id: "connect",
+    method: "post",
+    path: "/api/connect",
+    tag: "Status",
+    summary: "Connect to the MCP server",
+    action: "connect",
+    response: s.object({ success: s.boolean() }).json,
+  },
+  {
+    id: "listBackends",
+    method: "get",
+    path: "/api/backends",
+    tag: "Status",
+    summary: "Configured storage backends and their connection state",
+    action: "list_backends",
+    response: arrayOf("BackendSummary"),
+  },
+  { id: "getApiSpec", method: "get", path: "/api/openapi.json", tag: "Status", summary: "This document", response: { type: "object" } },
+
+  // Files
+  {
+    id: "listFiles",
+    method: "get",
+    path: "/api/files",
+    tag: "Files",
+    summary: "List a folder, or every folder; any paging parameter returns a FilePage",
+    action: "list_files",
+    query: s.object({ folder: s.optional(s.describe(s.string(), 'Storage path, or "all"')), ...listQuery }),
+    response: { oneOf: [arrayOf("FolderListing"), ref("FilePage")] },
+  },
+  {
+    id: "listImages",
+    method: "get",
+    path: "/api/images",
+    tag: "Files",
+    summary: "List IMAGES",
+    action: "list_images",
+    query: s.object(listQuery),
+    response: { oneOf: [ref("FolderListing"), ref("FilePage")] },
+  },
+  {
+    id: "listVideos",
+    method: "get",
+    path: "/api/videos",
+    tag: "Files",
+    summary: "List VIDEOS",
+    action: "list_videos",
+    query: s.object(listQuery),
+    response: { oneOf: [ref("FolderListing"), ref("FilePage")] },
+  },
+  {
+    id: "getTree",
+    method: "get",
+    path: "/api/tree",
+    tag: "Files",
+    summary: "Directory tree below a path",
+    action: "get_tree",
+    query: s.object({ path: s.optional(s.string()), depth: s.optional(s.number({ integer: true, minimum: 0, maximum: MAX_TREE_DEPTH })) }),
+    response: ref("TreeNode"),
+  },
+  {
+    id: "downloadFile",
+    method: "get",
+    path: "/api/file/:folder/:filename",
+    tag: "Files",
+    summary: "Download a file; honours Range, If-None-Match and If-Range",
+    action: "download",
+    params: file,
+    query: s.object({
+      queued: s.optional(s.describe(s.literal(["1"]), "Wait for a download queue slot first")),
+      socket: s.optional(s.describe(s.string(), "WebSocket socketId to send download_ticket events to")),
+    }),
+    produces: "application/octet-stream",
+  },
+  {
+    id: "deleteFile",
+    method: "delete",
+    path: "/api/file/:folder/:filename",
+    tag: "Files",
+    summary: "Delete a file",
+    action: "delete",
+    params: file,
+    response: success,
+  },
+  {
+    id: "moveFile",
+    method: "post",
+    path: "/api/file/:folder/:filename/move",
+    tag: "Files",
+    summary: "Move a file to another folder",
+    action: "move_file",
+    params: file,
+    body: s.object({ to: s.optional(s.string()), newName: s.optional(s.string({ minLength: 1 })), onConflict }),
+    response: ref("TransferResult"),
+  },
+  {
+    id: "renameFile",
+    method: "post",
+    path: "/api/file/:folder/:filename/rename",
+    tag: "Files",
+    summary: "Rename a file in place",
+    action: "rename_file",
+    params: file,
+    body: s.object({ newName: s.string({ minLength: 1 }), onConflict }),
+    response: ref("TransferResult"),
+  },
+  {
+    id: "copyFile",
+    method: "post",
+    path: "/api/file/:folder/:filename/copy",
+    tag: "Files",
+    summary: "Copy a file",
+    action: "copy_file",
+    params: file,
+    body: s.object({
+      to: s.optional(s.string()),
+      newName: s.optional(s.string({ minLength: 1 })),
+      onConflict,
+      toBackend: s.optional(s.describe(s.string({ minLength: 1 }), "Copy onto this backend instead of the one in the path")),
+    }),
+    response: ref("TransferResult"),
+  },
+  {
+    id: "getThumbnail",
+    method: "get",
+    path: "/api/thumb/:folder/:filename",
+    tag: "Files",
+    summary: "WebP thumbnail of an image or video",
+    action: "download",
+    params: file,
+    query: s.object({ w: s.optional(s.describe(s.number({ integer: true, minimum: 1 }), "Width in pixels, rounded to a supported size")) }),
+    produces: "image/webp",
+  },
+  {
+    id: "downloadFolderArchive",
+    method: "get",
+    path: "/api/archive",
+    tag: "Files",
+    summary: "A folder and everything below it as one archive",
+    action: "download_archive",
+    query: s.object({ folder: s.string({ minLength: 1 }), format: s.optional(s.literal(ARCHIVE_FORMATS)) }),
+    produces: "application/zip",
+  },
+  {
+    id: "downloadSelectionArchive",
+    method: "post",
+    path: "/api/archive",
+    tag: "Files",
+    summary: "A selection of files as one archive",
+    action: "download_archive",
+    body: s.object({
+      files: s.union(
+        s.array(s.object({ folder: s.optional(s.string()), filename: s.string({ minLength: 1 }) }), { maxItems: MAX_ARCHIVE_FILES }),
+        s.describe(s.string(), "The same list JSON-encoded, as a plain HTML form sends it")
+      ),
+      format: s.optional(s.literal(ARCHIVE_FORMATS)),
+      name: s.optional(s.string({ maxLength: 200 })),
+    }),
+    bodyTypes: ["application/json", "application/x-www-form-urlencoded"],
+    produces: "application/zip",
+  },
+  {
+    id: "createDirectory",
+    method: "post",
+    path: "/api/directory",
+    tag: "Files",
+    summary: "Create a directory",
+    action: "create_directory",
+    body: s.object({ name: s.string({ minLength: 1 }), parentFolder: s.optional(s.string()) }),
+    response: success,
+  },
+
+  // Uploads
+  {
+    id: "uploadBase64",
+    method: "post",
+    path: "/api/upload",
+    tag: "Uploads",
+    summary: "Upload a base64-encoded file",
+    action: "upload",
+    body: s.object({ filename: s.string({ minLength: 1 }), content: s.string(), type: s.optional(s.literal(["image", "video", "file"])) }),
+    response: success,
+  },
+  {
+    id: "uploadStream",
+    method: "post",
+    path: "/api/upload/stream",
+    tag: "Uploads",
+    summary: "Stream an upload: multipart/form-data, or a raw body named by ?filename= or X-Filename",
+    action: "upload",
+    query: s.object({ filename: s.optional(s.string({ minLength: 1 })), type: s.optional(s.literal(["image", "video", "file"])), folder: s.optional(s.string()) }),
+    rawBody: ["multipart/form-data", "application/octet-stream"],
+    response: { type: "object", properties: { success: { type: "boolean" }, files: { type: "array", items: ref("FileLocation") } } },
+  },
+  {
+    id: "openUploadSession",
+    method: "post",
+    path: "/api/uploads",
+    tag: "Uploads",
+    summary: "Open a resumable upload session",
+    action: "upload",
+    body: s.object({
+      filename: s.string({ minLength: 1 }),
+      type: s.optional(s.literal(["image", "video", "file"])),
+      mimeType: s.optional(s.string()),
+      folder: s.optional(s.string()),
+      size: s.optional(s.number({ integer: true, minimum: 0 })),
+    }),
+    status: 201,
+    response: ref("UploadSession"),
+  },
+  {
+    id: "getUploadSession",
+    method: "get",
+    path: "/api/uploads/:id",
+    tag: "Uploads",
+    summary: "Where an upload session stands",
+    params: s.object({ id: s.string() }),
+    response: ref("UploadSession"),
+  },
+  {
+    id: "appendUploadChunk",
+    method: "put",
+    path: "/api/uploads/:id/chunk",
+    tag: "Uploads",
+    summary: "Append the next chunk at the acknowledged offset",
+    params: s.object({ id: s.string() }),
+    query: s.object({ offset: s.number({ integer: true, minimum: 0 }) }),
+    rawBody: ["application/octet-stream"],
+    response: ref("UploadSession"),
+  },
+  {
+    id: "completeUploadSession",
+    method: "post",
+    path: "/api/uploads/:id/complete",
+    tag: "Uploads",
+    summary: "Finish an upload session",
+    params: s.object({ id: s.string() }),
+    body: s.object({ checksum: s.optional(s.describe(s.string(), "sha256:<hex> of the whole file")) }),
+    response: {
+      type: "object",
+      properties: { success: { type: "boolean" }, message: { type: "string" }, filename: { type: "string" }, folder: { type: "string" }, bytes: { type: "integer" } },
+    },
+  },
+  {
+    id: "abortUploadSession",
+    method: "delete",
+    path: "/api/uploads/:id",
+    tag: "Uploads",
+    summary: "Abandon an upload session",
+    params: s.object({ id: s.string() }),
+    response: success,
+  },
+
+  // Organizing
+  {
+    id: "batch",
+    method: "post",
+    path: "/api/batch",
+    tag: "Organize",
+    summary: "Run many deletes, moves, copies and tag changes",
+    action: "batch",
+    body: ACTION_SCHEMAS.batch,
+    response: ref("BatchResult"),
+  },
+  {
+    id: "search",
+    method: "get",
+    path: "/api/search",
+    tag: "Organize",
+    summary: "Search names and tags, e.g. beach type:video size>100MB",
+    action: "search",
+    query: s.object({ q: s.optional(s.string()), limit: s.optional(s.number({ integer: true, minimum: 1, maximum: 500 })) }),
+    response: ref("SearchResult"),
+  },
+  {
+    id: "getTags",
+    method: "get",
+    path: "/api/tags/:folder/:filename",
+    tag: "Organize",
+    summary: "A file's tags",
+    action: "download",
+    params: file,
+    response: s.object({ tags: s.array(s.string()) }).json,
+  },
+  {
+    id: "setTags",
+    method: "put",
+    path: "/api/tags/:folder/:filename",
+    tag: "Organize",
+    summary: "Replace a file's tags",
+    action: "set_tags",
+    params: file,
+    body: s.object({ tags: s.array(s.string()) }),
+    response: s.object({ tags: s.array(s.string()) }).json,
+  },
+
+  // Queue
+  { id: "getQueueStatus", method: "get", path: "/api/queue", tag: "Queue", summary: "Queue statistics", action: "get_queue_status", response: ref("QueueStatus") },
+  {
+    id: "joinDownloadQueue",
+    method: "post",
+    path: "/api/queue/join",
+    tag: "Queue",
+    summary: "Take a ticket for a download slot",
+    action: "join_download_queue",
+    body: s.object({ filename: s.string({ minLength: 1 }), folder: s.optional(s.string()) }),
+    response: ref("TicketResponse"),
+  },
+  {
+    id: "checkTicket",
+    method: "get",
+    path: "/api/queue/ticket/:ticketId",
+    tag: "Queue",
+    summary: "A ticket's position and status",
+    action: "check_ticket",
+    params: s.object({ ticketId: s.string() }),
+    response: ref("TicketResponse"),
+  },
+  {
+    id: "getDownloadQueueStatus",
+    method: "get",
+    path: "/api/queue/downloads",
+    tag: "Queue",
+    summary: "Active and waiting downloads",
+    action: "get_download_queue_status",
+    response: ref("DownloadQueueStatus"),
+  },
+
+  // Streams
+  { id: "listStreams", method: "get", path: "/api/streams", tag: "Streams", summary: "Active streams", action: "get_active_streams", response: arrayOf("StreamInfo") },
+  {
+    id: "startStream",
+    method: "post",
+    path: "/api/streams/start",
+    tag: "Streams",
+    summary: "Start relaying an RTMP or RTSP source",
+    action: "start_stream",
+    body: ACTION_SCHEMAS.start_stream,
+    response: ref("StreamInfo"),
+  },
+  {
+    id: "stopStream",
+    method: "post",
+    path: "/api/streams/:streamId/stop",
+    tag: "Streams",
+    summary: "Stop a stream",
+    action: "stop_stream",
+    params: s.object({ streamId: s.string() }),
+    response: success,
+  },
+  {
+    id: "getStreamHealth",
+    method: "get",
+    path: "/api/streams/health",
+    tag: "Streams",
+    summary: "Each stream's state as the agent's health checks see it",
+    action: "get_stream_health",
+    response: arrayOf("StreamHealth"),
+  },
+  {
+    id: "relayStreamHls",
+    method: "get",
+    path: "/api/streams/:streamId/hls/:path(*)",
+    tag: "Streams",
+    summary: "A stream's HLS playlist (empty path) or a file below it, relayed from the storage server",
+    action: "watch_stream",
+    params: s.object({ streamId: s.string(), path: s.describe(s.string(), "Path below the playlist's directory, may contain slashes") }),
+    produces: "application/vnd.apple.mpegurl",
+  },
+  {
+    id: "recordStream",
+    method: "post",
+    path: "/api/streams/:streamId/record",
+    tag: "Streams",
+    summary: "Start recording a stream into storage (default folder VIDEOS)",
+    action: "record_stream",
+    params: s.object({ streamId: s.string() }),
+    body: s.object({ folder: s.optional(s.string()), name: s.optional(s.describe(s.string({ minLength: 1 }), "MP4 name without extension")) }),
+    status: 201,
+    response: ref("Recording"),
+  },
+  {
+    id: "stopRecording",
+    method: "delete",
+    path: "/api/streams/:streamId/record",
+    tag: "Streams",
+    summary: "Stop recording; the MP4 is written in the background",
+    action: "stop_recording",
+    params: s.object({ streamId: s.string() }),
+    response: ref("Recording"),
+  },
+  { id: "listRecordings", method: "get", path: "/api/recordings", tag: "Streams", summary: "Recordings, newest first", action: "list_recordings", response: arrayOf("Recording") },
+  {
+    id: "listRecordingSchedules",
+    method: "get",
+    path: "/api/recording-schedules",
+    tag: "Streams",
+    summary: "Recording schedules",
+    action: "list_recording_schedules",
+    response: arrayOf("RecordingSchedule"),
+  },
+  {
+    id: "createRecordingSchedule",
+    method: "post",
+    path: "/api/recording-schedules",
+    tag: "Streams",
+    summary: "Record a source every day (or on some weekdays) between two times",
+    action: "schedule_recording",
+    body: ACTION_SCHEMAS.schedule_recording,
+    status: 201,
+    response: ref("RecordingSchedule"),
+  },
+  {
+    id: "deleteRecordingSchedule",
+    method: "delete",
+    path: "/api/recording-schedules/:scheduleId",
+    tag: "Streams",
+    summary: "Delete a schedule, closing its window if open",
+    action: "delete_recording_schedule",
+    params: s.object({ scheduleId: s.string() }),
+    response: success,
+  },
+  { id: "listStreamPresets", method: "get", path: "/api/stream-presets", tag: "Streams", summary: "Stream presets", action: "list_stream_presets", response: arrayOf("StreamPreset") },
+  {
+    id: "createStreamPreset",
+    method: "post",
+    path: "/api/stream-presets",
+    tag: "Streams",
+    summary: "Save a named stream source",
+    action: "create_stream_preset",
+    body: ACTION_SCHEMAS.create_stream_preset,
+    status: 201,
+    response: ref("StreamPreset"),
+  },
+  {
+    id: "replaceStreamPreset",
+    method: "put",
+    path: "/api/stream-presets/:presetId",
+    tag: "Streams",
+    summary: "Replace a preset's settings; its ingest key is kept",
+    action: "update_stream_preset",
+    params: s.object({ presetId: s.string() }),
+    body: ACTION_SCHEMAS.create_stream_preset,
+    response: ref("StreamPreset"),
+  },
+  {
+    id: "deleteStreamPreset",
+    method: "delete",
+    path: "/api/stream-presets/:presetId",
+    tag: "Streams",
+    summary: "Delete a preset; a stream it started keeps running",
+    action: "delete_stream_preset",
+    params: s.object({ presetId: s.string() }),
+    response: success,
+  },
+  {
+    id: "startStreamPreset",
+    method: "post",
+    path: "/api/stream-presets/:presetId/start",
+    tag: "Streams",
+    summary: "Start a preset's stream, optionally recording it into the preset's target",
+    action: "start_stream_preset",
+    params: s.object({ presetId: s.string() }),
+    body: s.object({ record: s.optional(s.boolean()) }),
+    response: { type: "object", properties: { stream: ref("StreamInfo"), recording: ref("Recording") }, required: ["stream"] },
+  },
+  {
+    id: "rotateIngestKey",
+    method: "post",
+    path: "/api/stream-presets/:presetId/ingest-key",
+    tag: "Streams",
+    summary: "Generate a new ingest key for an RTMP preset; the key is only returned here",
+    action: "rotate_ingest_key",
+    params: s.object({ presetId: s.string() }),
+    status: 201,
+    response: {
+      type: "object",
+      properties: {
+        key: { type: "string" },
+        ingestUrl: { type: "string", description: "Where OBS pushes to: the source plus the key" },
+        preset: ref("StreamPreset"),
+      },
+      required: ["key", "ingestUrl", "preset"],
+    },
+  },
+  {
+    id: "revokeIngestKey",
+    method: "delete",
+    path: "/api/stream-presets/:presetId/ingest-key",
+    tag: "Streams",
+    summary: "Remove a preset's ingest key, stopping a stream pushed with it",
+    action: "revoke_ingest_key",
+    params: s.object({ presetId: s.string() }),
+    response: ref("StreamPreset"),
+  },
+
+  // Tools
+  { id: "listTools", method: "get", path: "/api/tools", tag: "Tools", summary: "MCP tools the server offers", action: "get_tools", response: arrayOf("ToolInfo") },
+  {
+    id: "callTool",
+    method: "post",
+    path: "/api/tools/:name/call",
+    tag: "Tools",
+    summary: "Call any MCP tool; arguments are checked against its inputSchema",
+    action: "call_tool",
+    params: s.object({ name: s.string({ minLength: 1 }) }),
+    body: s.object({ arguments: s.optional(s.describe(s.unknown(), "Arguments matching the tool's inputSchema")) }),
+    response: ref("ToolCallResult"),
+  },
+];
+
+export function openApiDocument(version: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of API_ROUTES) {
+    const path = route.path.replace(/:(\w+)(\(\*\))?/g, "{$1}");
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "BRANDYFICATION Agent API",
+      version,
+      description:
+        "REST API of the BRANDYFICATION agent. Every /api/... path is also served as /api/b/{backend}/... to act on a named storage backend " +
+        "instead of the default one. Errors are JSON { error, code } with the status given per code in the README.",
+    },
+    servers: [{ url: "/" }],
+    tags: [...new Set(API_ROUTES.map((route) => route.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: COMPONENTS,
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: SESSION_COOKIE },
+        token: { type: "http", scheme: "bearer", description: "API token from POST /api/auth/tokens" },
+      },
+    },
+    security: [{ session: [] }, { token: [] }],
+  };
+}
+
+function operation(route: ApiRoute): JsonSchema {
+  const parameters = [...parametersOf(route.params, "path"), ...parametersOf(route.query, "query")];
+  const bodyTypes = route.rawBody ?? route.bodyTypes ?? ["application/json"];
+  const bodySchema = route.rawBody ? { type: "string", format: "binary" } : route.body?.json;
+  const content = route.produces
+    ? { [route.produces]: { schema: { type: "string", format: "binary" } } }
+    : { "application/json": { schema: route.response ?? { type: "object" } } };
+
+  return {
+    operationId: route.id,
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.action && { description: `Needs the \`${route.action}\` permission.` }),
+    ...(route.path === "/api/auth/login" && { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(bodySchema && {
+      requestBody: {
+        required: Boolean(route.rawBody || (route.body?.json.required as string[] | undefined)?.length),
+        content: Object.fromEntries(bodyTypes.map((type) => [type, { schema: bodySchema }])),
+      },
+    }),
+    responses: {
+      [String(route.status ?? 200)]: { description: "Success", content },
+      default: { description: "Error", content: { "application/json": { schema: ref("Error") } } },
+    },
+  };
+}
+
+function parametersOf(schema: ObjectSchema | undefined, location: "path" | "query"): JsonSchema[] {
+  if (!schema) return [];
+  const { properties = {}, required = [] } = schema.json as { properties?: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || required.includes(name),
+      schema: propertySchema,
+      ...(description !== undefined && { description }),
+    };
+  });
+}
+
+// Compiled once: each route's path as a pattern plus the names of its parameters
+const MATCHERS = API_ROUTES.map((route) => {
+  const names: string[] = [];
+  const pattern = route.path.replace(/[.]/g, "\\.").replace(/:(\w+)(\(\*\))?/g, (_, name: string, rest?: string) => {
+    names.push(name);
+    return rest ? "(.*)" : "([^/]+)";
+  });
+  return { route, names, pattern: new RegExp(`^${pattern}$`) };
+});
+
+export function findRoute(method: string, path: string): { route: ApiRoute; params: Record<string, string> } | undefined {
+  const wanted = method.toLowerCase() === "head" ? "get" : method.toLowerCase();
+  for (const { route, names, pattern } of MATCHERS) {
+    if (route.method !== wanted) continue;
+    const match = pattern.exec(path);
+    if (!match) continue;
+    try {
+      return { route, params: Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])])) };
+    } catch {
+      return undefined; // a malformed escape: left to Express, which answers 400
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a request against its route's parameter, query and body schemas.
+ * Throws SchemaError (400, "invalid_payload") naming the offending field,
+ * e.g. "query.limit". Requests to paths the document doesn't know pass
+ * through untouched and end up at Express's own 404.
+ */
+export function validateRequest(method: string, path: string, request: { query: unknown; body: unknown }): void {
+  const found = findRoute(method, path);
+  if (!found) return;
+  const { route, params } = found;
+
+  route.params?.parse(params, "params");
+  if (route.query) route.query.parse(coerceQuery(request.query as Record<string, unknown>, route.query.json), "query");
+  if (route.body && !route.rawBody) route.body.parse(request.body ?? {}, "body");
+}
+
+// Query strings only carry strings; read numbers and booleans the way the schema declares them
+function coerceQuery(query: Record<string, unknown>, json: JsonSchema): Record<string, unknown> {
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const coerced: Record<string, unknown> = { ...query };
+  for (const [name, property] of Object.entries(properties)) {
+    const value = query[name];
+    if (typeof value !== "string" || value === "") continue;
+    if ((property.type === "integer" || property.type === "number") && !Number.isNaN(Number(value))) coerced[name] = Number(value);
+    if (property.type === "boolean" && (value === "true" || value === "false")) coerced[name] = value === "true";
+  }
+  return coerced;
+}
+
+// Routes registered with Express that the document doesn't describe, and the reverse
+export function undocumentedRoutes(registered: { method: string; path: string }[]): string[] {
+  const documented = new Set(API_ROUTES.map((route) => `${route.method.toUpperCase()} ${route.path}`));
+  const actual = new Set(registered.map((route) => `${route.method.toUpperCase()} ${route.path}`));
+  return [
+    ...[...actual].filter((route) => !documented.has(route)).map((route) => `${route} is not in the OpenAPI document`),
+    ...[...documented].filter((route) => !actual.has(route)).map((route) => `${route} is documented but not registered`),
+  ];
+}
@@ -0,0 +1,57 @@
+/**
+ * A folder inside storage, relative to its root: "root" for the root itself,
+ * otherwise slash-separated segments such as "IMAGES" or "VIDEOS/shoot-1/raw".
+ * Only parseStoragePath() produces one, so anything typed StoragePath has
+ * already been checked for traversal and malformed segments.
+ */
+export type StoragePath = string & { readonly __storagePath: unique symbol };
+
+export const ROOT_PATH = "root" as StoragePath;
+
+const MAX_DEPTH = 32;
+const MAX_SEGMENT_LENGTH = 255;
+
+export class StoragePathError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_path";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StoragePathError";
+  }
+}
+
+// Accepts "", "/", "root" and "root/..." for the root; a trailing slash is ignored
+export function parseStoragePath(input: unknown): StoragePath {
+  if (input === undefined || input === null) return ROOT_PATH;
+  if (typeof input !== "string") throw new StoragePathError("Path must be a string");
+
+  const segments = input.replace(/^\/+|\/+$/g, "").split("/").filter((segment, index) => !(index === 0 && segment === "root"));
+  if (segments.length === 0 || (segments.length === 1 && segments[0] === "")) return ROOT_PATH;
+  if (segments.length > MAX_DEPTH) throw new StoragePathError(`Path is nested deeper than ${MAX_DEPTH} levels`);
+
+  for (const segment of segments) assertValidName(segment);
+  return segments.join("/") as StoragePath;
+}
+
+// A single file or directory name: no separators, no traversal, nothing the filesystem would choke on
+export function assertValidName(name: unknown): asserts name is string {
+  if (typeof name !== "string" || name === "") throw new StoragePathError("Name must not be empty");
+  if (name === "." || name === "..") throw new StoragePathError(`Invalid name: ${name}`);
+  if (/[\/\\\0]/.test(name)) throw new StoragePathError(`Name must not contain "/", "\\" or NUL: ${name}`);
+  if (name.length > MAX_SEGMENT_LENGTH) throw new StoragePathError(`Name is longer than ${MAX_SEGMENT_LENGTH} characters`);
+}
+
+export function joinPath(parent: StoragePath, name: string): StoragePath {
+  assertValidName(name);
+  return (parent === ROOT_PATH ? name : `${parent}/${name}`) as StoragePath;
+}
+
+export function parentPath(folder: StoragePath): StoragePath {
+  const index = folder.lastIndexOf("/");
+  return index === -1 ? ROOT_PATH : (folder.slice(0, index) as StoragePath);
+}
+
+export function pathSegments(folder: StoragePath): string[] {
+  return folder === ROOT_PATH ? [] : folder.split("/");
+}
@@ -0,0 +1,148 @@
+import { dataFile, readJsonFile } from "./json-store.js";
+import { parseStoragePath, pathSegments, StoragePath } from "./paths.js";
+
+export type Role = "viewer" | "uploader" | "moderator" | "admin";
+export const ROLES: Role[] = ["viewer", "uploader", "moderator", "admin"];
+
+export type Permission = "read" | "write" | "delete" | "stream" | "admin";
+
+// A role grants permissions, optionally only inside some top-level folders
+export interface Grant {
+  permissions: Permission[];
+  folders?: string[];
+}
+
+export type Policy = Record<Role, Grant[]>;
+
+export const DEFAULT_POLICY: Policy = {
+  viewer: [{ permissions: ["read"] }],
+  uploader: [{ permissions: ["read"] }, { permissions: ["write"], folders: ["IMAGES", "VIDEOS"] }],
+  moderator: [{ permissions: ["read", "write", "delete"] }],
+  admin: [{ permissions: ["read", "write", "delete", "stream", "admin"] }],
+};
+
+/**
+ * Every operation the agent exposes, named after its WebSocket action.
+ * REST routes refer to the same names, so both surfaces are checked against
+ * one table; an action missing from it is always denied.
+ */
+export const ACTION_PERMISSIONS = {
+  hello: "read",
+  connect: "read",
+  list_backends: "read",
+  list_files: "read",
+  list_images: "read",
+  list_videos: "read",
+  get_tree: "read",
+  download: "read",
+  download_archive: "read", // every file in the archive is checked as a download too
+  get_info: "read",
+  get_tools: "read",
+  call_tool: "admin", // any MCP tool, past the curated routes and their checks
+  search: "read",
+  set_tags: "write",
+  upload: "write",
+  delete: "delete",
+  move_file: "write",
+  rename_file: "write",
+  copy_file: "write",
+  batch: "read", // each operation in a batch is checked on its own
+  create_directory: "write",
+  get_queue_status: "read",
+  join_download_queue: "read",
+  check_ticket: "read",
+  get_download_queue_status: "read",
+  subscribe: "read", // each topic is checked against the action that reads it
+  unsubscribe: "read",
+  get_active_streams: "read",
+  watch_stream: "read",
+  get_stream_health: "read",
+  record_stream: "stream",
+  stop_recording: "stream",
+  list_recordings: "read",
+  list_recording_schedules: "read",
+  schedule_recording: "stream",
+  delete_recording_schedule: "stream",
+  start_stream: "stream",
+  list_stream_presets: "read",
+  create_stream_preset: "stream",
+  update_stream_preset: "stream",
+  delete_stream_preset: "stream",
+  start_stream_preset: "stream",
+  rotate_ingest_key: "stream",
+  revoke_ingest_key: "stream",
+  stop_stream: "stream",
+  manage_users: "admin",
+  view_audit: "admin",
+} satisfies Record<string, Permission>;
+
+export type AgentAction = keyof typeof ACTION_PERMISSIONS;
+
+export class ForbiddenError extends Error {
+  readonly code = "forbidden";
+  readonly status = 403;
+
+  constructor(message = "You do not have permission to do that") {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+let policy: Policy = DEFAULT_POLICY;
+
+// Optional overrides in AGENT_DATA_DIR/permissions.json, e.g. { "uploader": [{ "permissions": ["write"], "folders": ["IMAGES"] }] }
+export async function loadPolicy(file = dataFile("permissions.json")): Promise<void> {
+  const overrides = await readJsonFile<Partial<Policy>>(file, {});
+  policy = { ...DEFAULT_POLICY, ...overrides };
+}
+
+export function grantsFor(role: Role): Grant[] {
+  return policy[role] ?? [];
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * The folder a request's permission check is about, parsed the same way the
+ * handler will parse it, so "root/VIDEOS" or "/VIDEOS/" is checked as VIDEOS.
+ * undefined, "" and "all" name no folder in particular. Throws
+ * StoragePathError for a path no handler would accept either.
+ */
+export function folderScope(input: unknown): StoragePath | undefined {
+  if (input === undefined || input === null || input === "" || input === "all") return undefined;
+  return parseStoragePath(input);
+}
+
+// Top-level folder of a location ("VIDEOS/shoot-1" → "VIDEOS", the root → "root"); undefined means no specific folder
+function topFolder(folder?: StoragePath): string | undefined {
+  if (folder === undefined) return undefined;
+  return pathSegments(folder)[0] ?? folder;
+}
+
+export function isAllowed(role: Role, action: string, folder?: StoragePath): boolean {
+  const permission = (ACTION_PERMISSIONS as Record<string, Permission | undefined>)[action];
+  if (!permission) return false;
+
+  const target = topFolder(folder);
+  return grantsFor(role).some(
+    (grant) =>
+      grant.permissions.includes(permission) &&
+      // Folder-scoped grants only apply when the operation targets one of their folders
+      (!grant.folders || (target !== undefined && grant.folders.includes(target)))
+  );
+}
+
+// Whether any grant lets the role do `action` somewhere, for advertising what a client may try
+export function isAllowedAnywhere(role: Role, action: string): boolean {
+  const permission = (ACTION_PERMISSIONS as Record<string, Permission | undefined>)[action];
+  return permission !== undefined && grantsFor(role).some((grant) => grant.permissions.includes(permission));
+}
+
+export function assertAllowed(role: Role, action: string, folder?: StoragePath): void {
+  if (!isAllowed(role, action, folder)) {
+    const where = folder ? ` in ${folder}` : "";
+    throw new ForbiddenError(`Role "${role}" may not ${action.replace(/_/g, " ")}${where}`);
+  }
+}
@@ -0,0 +1,357 @@
+import * as s from "./schema.js";
+import type { Infer } from "./schema.js";
+import type {
+  ConflictPolicy,
+  ConnectionStatus,
+  DownloadQueueStatus,
+  FileInfo,
+  FileLocation,
+  FolderListing,
+  QueueStatus,
+  StreamInfo,
+  StreamType,
+  TicketResponse,
+  ToolCallResult,
+  ToolInfo,
+  TransferResult,
+} from "./mcp-client.js";
+import type { FilePage, FileKind, SortField, SortOrder } from "./listing.js";
+import type { TreeNode } from "./tree.js";
+import type { SearchResult } from "./search.js";
+import type { BatchOp, BatchResult } from "./batch.js";
+import type { TopicChanges, TopicState, WatchTopic } from "./watcher.js";
+import type { Role } from "./permissions.js";
+import type { BackendSummary } from "./backends.js";
+import type { Recording, RecordingSchedule, RecordingUpdate } from "./recordings.js";
+import type { StreamHealth, StreamHealthUpdate } from "./stream-health.js";
+import type { PresetUpdate, StreamPreset } from "./stream-presets.js";
+
+/**
+ * The WebSocket protocol, defined once. The agent validates every request
+ * against ACTION_SCHEMAS; the typed client (agent-client.ts) takes its payload,
+ * result and event types from the same definitions.
+ *
+ * Requests are `{ v?, id?, backend?, action, payload? }`. `id` (string or
+ * number) is echoed on the matching `response` or `error`, so concurrent calls
+ * can be told apart; `v` pins the protocol version and is rejected if
+ * unsupported; `backend` names the storage backend to act on (default: the
+ * agent's default backend).
+ */
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_VERSIONS = [1];
+
+// Runtime copies of server-side unions, checked against the types they mirror
+const CONFLICT_POLICIES = ["fail", "overwrite", "suffix"] as const satisfies readonly ConflictPolicy[];
+const SORT_FIELDS = ["name", "size", "modified"] as const satisfies readonly SortField[];
+const SORT_ORDERS = ["asc", "desc"] as const satisfies readonly SortOrder[];
+const FILE_KINDS = ["image", "video", "file"] as const satisfies readonly FileKind[];
+const BATCH_OPS = ["delete", "move", "copy", "tag"] as const satisfies readonly BatchOp[];
+const WATCH_TOPICS = ["queue", "downloads", "streams"] as const satisfies readonly WatchTopic[];
+const STREAM_TYPES = ["rtmp", "rtsp"] as const satisfies readonly StreamType[];
+// The scheme has to match the type as well; that is checked where the stream is started
+const STREAM_SOURCE = "^(rtmps?|rtsps?)://[^\\s/]+";
+const TIME = "^([01]\\d|2[0-3]):[0-5]\\d$";
+
+const file = { filename: s.string({ minLength: 1 }), folder: s.optional(s.string()) };
+const none = s.object({});
+
+const streamSource = s.describe(s.string({ pattern: STREAM_SOURCE }), "rtmp(s):// URL for type rtmp, rtsp(s):// for rtsp");
+const streamPreset = {
+  name: s.string({ minLength: 1, maxLength: 100 }),
+  source: s.describe(s.string({ pattern: STREAM_SOURCE }), "For an RTMP push, the ingest URL without the key"),
+  type: s.literal(STREAM_TYPES),
+  autoStart: s.optional(s.describe(s.boolean(), "Start whenever the backend (re)connects")),
+  record: s.optional(s.describe(s.object({ folder: s.string(), name: s.optional(s.string({ minLength: 1 })) }), "Default recording target")),
+};
+const presetId = { presetId: s.string({ minLength: 1 }) };
+
+const listQuery = {
+  limit: s.optional(s.number({ integer: true, minimum: 1 })),
+  cursor: s.optional(s.string()),
+  sort: s.optional(s.literal(SORT_FIELDS)),
+  order: s.optional(s.literal(SORT_ORDERS)),
+  type: s.optional(s.literal(FILE_KINDS)),
+  q: s.optional(s.string()),
+};
+
+export const ACTION_SCHEMAS = {
+  hello: s.object({ version: s.optional(s.number({ integer: true })), client: s.optional(s.string({ maxLength: 200 })) }),
+  connect: none,
+  list_backends: none,
+  list_files: s.object({ folder: s.optional(s.string()), ...listQuery }),
+  list_images: s.object(listQuery),
+  list_videos: s.object(listQuery),
+  get_tree: s.object({ path: s.optional(s.string()), depth: s.optional(s.number({ integer: true, minimum: 0 })) }),
+  upload: s.object({ filename: s.string({ minLength: 1 }), content: s.string(), type: s.optional(s.literal(["image", "video", "file"])) }),
+  download: s.object(file),
+  delete: s.object(file),
+  move_file: s.object({ ...file, to: s.string(), newName: s.optional(s.string()), onConflict: s.optional(s.literal(CONFLICT_POLICIES)) }),
+  rename_file: s.object({ ...file, newName: s.string({ minLength: 1 }), onConflict: s.optional(s.literal(CONFLICT_POLICIES)) }),
+  copy_file: s.object({
+    ...file,
+    to: s.optional(s.string()),
+    newName: s.optional(s.string()),
+    onConflict: s.optional(s.literal(CONFLICT_POLICIES)),
+    toBackend: s.optional(s.string({ minLength: 1 })),
+  }),
+  batch: s.object({
+    operations: s.array(
+      s.object({
+        op: s.literal(BATCH_OPS),
+        ...file,
+        to: s.optional(s.string()),
+        newName: s.optional(s.string()),
+        onConflict: s.optional(s.literal(CONFLICT_POLICIES)),
+        tags: s.optional(s.array(s.string())),
+      })
+    ),
+  }),
+  get_info: s.object(file),
+  get_tools: none,
+  call_tool: s.object({ name: s.string({ minLength: 1 }), arguments: s.optional(s.unknown()) }),
+  search: s.object({ q: s.string(), limit: s.optional(s.number({ integer: true, minimum: 1, maximum: 500 })) }),
+  set_tags: s.object({ ...file, tags: s.array(s.string()) }),
+  create_directory: s.object({ name: s.string({ minLength: 1 }), parentFolder: s.optional(s.string()) }),
+  get_queue_status: none,
+  join_download_queue: s.object(file),
+  check_ticket: s.object({ ticketId: s.string({ minLength: 1 }) }),
+  get_download_queue_status: none,
+  subscribe: s.object({ topics: s.array(s.literal(WATCH_TOPICS)) }),
+  unsubscribe: s.object({ topics: s.array(s.literal(WATCH_TOPICS)) }),
+  get_active_streams: none,
+  start_stream: s.object({ source: streamSource, type: s.literal(STREAM_TYPES) }),
+  stop_stream: s.object({ streamId: s.string({ minLength: 1 }) }),
+  get_stream_health: none,
+  record_stream: s.object({ streamId: s.string({ minLength: 1 }), folder: s.optional(s.string()), name: s.optional(s.string({ minLength: 1 })) }),
+  stop_recording: s.object({ streamId: s.string({ minLength: 1 }) }),
+  list_recordings: none,
+  list_recording_schedules: none,
+  schedule_recording: s.object({
+    source: s.string({ minLength: 1 }),
+    type: s.literal(STREAM_TYPES),
+    start: s.describe(s.string({ pattern: TIME }), "HH:MM, agent local time"),
+    end: s.describe(s.string({ pattern: TIME }), "HH:MM; earlier than start means the window ends the next day"),
+    days: s.optional(s.describe(s.array(s.number({ integer: true, minimum: 0, maximum: 6 }), { maxItems: 7 }), "0 = Sunday; every day when omitted")),
+    folder: s.optional(s.string()),
+    name: s.optional(s.string({ minLength: 1 })),
+  }),
+  delete_recording_schedule: s.object({ scheduleId: s.string({ minLength: 1 }) }),
+  list_stream_presets: none,
+  create_stream_preset: s.object(streamPreset),
+  update_stream_preset: s.object({ ...presetId, ...streamPreset }),
+  delete_stream_preset: s.object(presetId),
+  start_stream_preset: s.object({ ...presetId, record: s.optional(s.describe(s.boolean(), "Also record into the preset's target")) }),
+  rotate_ingest_key: s.object(presetId),
+  revoke_ingest_key: s.object(presetId),
+};
+
+export type ActionName = keyof typeof ACTION_SCHEMAS;
+export type ActionPayload<A extends ActionName> = Infer<(typeof ACTION_SCHEMAS)[A]>;
+
+// A validated request, narrowed by `action`
+export type AgentRequest = { [A in ActionName]: { action: A; payload: ActionPayload<A>; backend?: string } }[ActionName];
+
+export interface HelloResult {
+  protocol: number;
+  versions: number[];
+  server: string;
+  user: { username: string; role: Role };
+  backends: BackendSummary[];
+  actions: ActionName[]; // the ones this user may call
+  events: EventType[];
+  topics: WatchTopic[];
+}
+
+export interface ActionResults {
+  hello: HelloResult;
+  connect: { success: boolean };
+  list_backends: BackendSummary[];
+  list_files: FolderListing[] | FilePage;
+  list_images: FolderListing | FilePage;
+  list_videos: FolderListing | FilePage;
+  get_tree: TreeNode;
+  upload: string;
+  download: string;
+  delete: string;
+  move_file: TransferResult;
+  rename_file: TransferResult;
+  copy_file: TransferResult;
+  batch: BatchResult;
+  get_info: FileInfo;
+  get_tools: ToolInfo[];
+  call_tool: ToolCallResult;
+  search: SearchResult;
+  set_tags: { tags: string[] };
+  create_directory: string;
+  get_queue_status: QueueStatus;
+  join_download_queue: TicketResponse;
+  check_ticket: TicketResponse;
+  get_download_queue_status: DownloadQueueStatus;
+  subscribe: { topics: WatchTopic[] };
+  unsubscribe: { topics: WatchTopic[] };
+  get_active_streams: StreamInfo[];
+  start_stream: StreamInfo;
+  stop_stream: string;
+  get_stream_health: StreamHealth[];
+  record_stream: Recording;
+  stop_recording: Recording;
+  list_recordings: Recording[];
+  list_recording_schedules: RecordingSchedule[];
+  schedule_recording: RecordingSchedule;
+  delete_recording_schedule: { success: boolean };
+  list_stream_presets: StreamPreset[];
+  create_stream_preset: StreamPreset;
+  update_stream_preset: StreamPreset;
+  delete_stream_preset: { success: boolean };
+  start_stream_preset: { stream: StreamInfo; recording?: Recording };
+  rotate_ingest_key: { key: string; ingestUrl: string; preset: StreamPreset };
+  revoke_ingest_key: StreamPreset;
+}
+
+export type ErrorCode =
+  | "invalid_message"
+  | "unsupported_version"
+  | "unknown_action"
+  | "invalid_payload"
+  | "forbidden"
+  | "invalid_query"
+  | "invalid_path"
+  | "not_found"
+  | "conflict"
+  | "queue_full"
+  | "server_unavailable"
+  | "invalid_response"
+  | "tool_error"
+  | "ticket_expired"
+  | "internal_error";
+
+interface FileChangedEvent {
+  backend: string;
+  action: "upload" | "delete" | "create_directory" | "move" | "rename" | "copy";
+  filename: string;
+  folder: string;
+  from?: FileLocation;
+  to?: FileLocation;
+  fromBackend?: string; // a copy from another backend
+}
+
+interface TagsChangedEvent {
+  backend: string;
+  filename: string;
+  folder: string;
+  tags: string[];
+}
+
+// Unsolicited messages, by `type`; anything about storage names the backend it happened on
+export interface ServerEvents {
+  connected: { socketId: string; protocol: number };
+  status: { backend: string } & ConnectionStatus;
+  file_changed:
+    | FileChangedEvent
+    | { backend: string; action: "batch"; changes: (({ type: "file_changed" } & FileChangedEvent) | ({ type: "tags_changed" } & TagsChangedEvent))[] };
+  tags_changed: TagsChangedEvent;
+  queue_update: { backend: string; action: string; filename?: string };
+  stream_update: { backend: string } & RecordingUpdate; // streams started or stopped, recordings and schedules
+  stream_health: { backend: string } & StreamHealthUpdate;
+  stream_preset: { backend: string } & PresetUpdate;
+  download_ticket: {
+    ticketId: string;
+    filename: string;
+    folder?: string;
+    status: TicketResponse["status"] | "released";
+    position?: number;
+    waitTime?: number;
+  };
+  state_snapshot: { [T in WatchTopic]: { backend: string; topic: T; state: TopicState[T] } }[WatchTopic];
+  state_delta: { [T in WatchTopic]: { backend: string; topic: T; changes: TopicChanges[T] } }[WatchTopic];
+}
+
+export type EventType = keyof ServerEvents;
+export const EVENT_TYPES: EventType[] = [
+  "connected",
+  "status",
+  "file_changed",
+  "tags_changed",
+  "queue_update",
+  "stream_update",
+  "stream_health",
+  "stream_preset",
+  "download_ticket",
+  "state_snapshot",
+  "state_delta",
+];
+
+export type RequestId = string | number;
+
+export interface RequestMessage<A extends ActionName = ActionName> {
+  v?: number;
+  id?: RequestId;
+  backend?: string;
+  action: A;
+  payload?: ActionPayload<A>;
+}
+
+export interface ResponseMessage<A extends ActionName = ActionName> {
+  type: "response";
+  id?: RequestId;
+  action: A;
+  result: ActionResults[A];
+}
+
+export interface ErrorMessage {
+  type: "error";
+  id?: RequestId;
+  action?: string;
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+export type EventMessage<E extends EventType = EventType> = E extends EventType ? { type: E } & ServerEvents[E] : never;
+export type ServerMessage = ResponseMessage | ErrorMessage | EventMessage;
+
+export class ProtocolError extends Error {
+  readonly status = 400;
+
+  constructor(
+    readonly code: "invalid_message" | "unsupported_version" | "unknown_action",
+    message: string
+  ) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+export function isActionName(action: string): action is ActionName {
+  return Object.prototype.hasOwnProperty.call(ACTION_SCHEMAS, action);
+}
+
+// The envelope's id, if it has a usable one; read before validation so even a rejected request can be answered by id
+export function requestId(message: unknown): RequestId | undefined {
+  const id = (message as { id?: unknown } | null)?.id;
+  return typeof id === "string" || typeof id === "number" ? id : undefined;
+}
+
+/**
+ * Check a decoded message's envelope and its payload against the action's
+ * schema. Throws ProtocolError for a bad envelope or unknown action and
+ * SchemaError (code "invalid_payload") for a bad payload.
+ */
+export function parseRequest(message: unknown): AgentRequest {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    throw new ProtocolError("invalid_message", "A message must be a JSON object");
+  }
+
+  const { v, id, backend, action, payload } = message as Record<string, unknown>;
+  if (v !== undefined && !SUPPORTED_VERSIONS.includes(v as number)) {
+    throw new ProtocolError("unsupported_version", `Protocol version ${String(v)} is not supported (supported: ${SUPPORTED_VERSIONS.join(", ")})`);
+  }
+  if (id !== undefined && typeof id !== "string" && typeof id !== "number") {
+    throw new ProtocolError("invalid_message", "id must be a string or a number");
+  }
+  if (backend !== undefined && typeof backend !== "string") throw new ProtocolError("invalid_message", "backend must be a string");
+  if (typeof action !== "string") throw new ProtocolError("invalid_message", "action must be a string");
+  if (!isActionName(action)) throw new ProtocolError("unknown_action", `Unknown action: ${action}`);
+
+  return { action, payload: ACTION_SCHEMAS[action].parse(payload ?? {}, "payload"), backend } as AgentRequest;
+}
@@ -0,0 +1,527 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { ConflictError, FileLocation, MCPFileClient, NotFoundError, StreamType } from "./mcp-client.js";
+import { dataFile, readJsonFile, writeJsonFile } from "./json-store.js";
+import { readFileStream } from "./downloads.js";
+import { streamUpload } from "./uploads.js";
+import { HlsRelay, parsePlaylist } from "./hls.js";
+import { parseStreamSource, redactStreamUrl, StreamMonitor } from "./stream-health.js";
+import { assertValidName, parseStoragePath, StoragePath } from "./paths.js";
+import { SchemaError } from "./schema.js";
+
+// How often a recording checks the stream's playlist for new segments
+export const RECORDING_POLL_MS = parseInt(process.env.RECORDING_POLL_MS || "2000");
+// Failed polls in a row (stream server unreachable...) before a recording gives up and keeps what it has
+const MAX_POLL_FAILURES = 10;
+// How often schedules are checked for windows opening or closing
+const SCHEDULE_TICK_MS = 30 * 1000;
+const DEFAULT_FOLDER = "VIDEOS";
+// Finished and failed recordings kept in the list; active ones are always kept
+const MAX_KEPT_RECORDINGS = 200;
+
+export type RecordingStatus = "recording" | "finalizing" | "finished" | "failed";
+
+export interface Recording {
+  id: string;
+  streamId: string;
+  source?: string;
+  folder: StoragePath; // where the MP4 lands
+  name: string; // the MP4's name without extension
+  segmentFolder: StoragePath; // segments as they arrive, removed once the MP4 is written
+  segments: number;
+  bytes: number;
+  lastSequence?: number; // media sequence number of the newest segment written
+  variant?: string; // media playlist picked from a master playlist
+  hasInit?: boolean; // fMP4 initialization segment written
+  status: RecordingStatus;
+  scheduleId?: string;
+  startedAt: string;
+  stoppedAt?: string;
+  file?: FileLocation; // the finished MP4
+  error?: string;
+}
+
+// A daily recording window, e.g. an RTSP camera every weekday 09:00–17:00; times are HH:MM, agent local time
+export interface RecordingScheduleInput {
+  source: string; // matched against running streams' url or name, started if none matches
+  type: StreamType;
+  start: string;
+  end: string; // earlier than start: the window ends the next day
+  days?: number[]; // 0 = Sunday; every day when omitted
+  folder?: string;
+  name?: string; // recordings are named <name>-<timestamp>
+}
+
+export interface RecordingSchedule extends RecordingScheduleInput {
+  id: string;
+  createdAt: string;
+  // Set while the window is open
+  active?: { streamId: string; recordingId: string; startedStream: boolean };
+}
+
+// What changed, relayed to clients as stream_update events
+export interface RecordingUpdate {
+  action: "start" | "stop" | "record_start" | "record_stop" | "record_finished" | "record_failed" | "schedule_open" | "schedule_close";
+  streamId?: string;
+  source?: string;
+  recordingId?: string;
+  scheduleId?: string;
+  folder?: string;
+  filename?: string;
+  error?: string;
+}
+
+/**
+ * Records live streams into storage. A recording follows the stream's HLS
+ * playlist through the relay and uploads every new segment into a
+ * "<name>.segments" folder next to where the MP4 will land, so a crash loses
+ * at most the segment in flight. Stopping, or the stream ending, remuxes the
+ * segments into one MP4 with ffmpeg (no re-encode) and removes them.
+ *
+ * Schedules open and close recordings by the clock, starting the stream
+ * themselves if it isn't running. Recordings and schedules are saved after
+ * every change, so both carry on after a restart. Emits "update"
+ * (RecordingUpdate) for every transition.
+ */
+export class RecordingService extends EventEmitter {
+  private recordings = new Map<string, Recording>();
+  private schedules = new Map<string, RecordingSchedule>();
+  private loops = new Map<string, NodeJS.Timeout>();
+  private failures = new Map<string, number>();
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private client: MCPFileClient,
+    private hls: HlsRelay,
+    private streams: StreamMonitor,
+    private file = dataFile("recordings.json"),
+    private schedulesFile = dataFile("recording-schedules.json"),
+    private ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg",
+    private pollMs = RECORDING_POLL_MS
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    const recordings = await readJsonFile<Recording[]>(this.file, []);
+    const schedules = await readJsonFile<RecordingSchedule[]>(this.schedulesFile, []);
+    this.recordings = new Map(recordings.map((recording) => [recording.id, recording]));
+    this.schedules = new Map(schedules.map((schedule) => [schedule.id, schedule]));
+    console.log(`[Recordings] Restored ${recordings.length} recording(s) and ${schedules.length} schedule(s)`);
+
+    this.scheduleTimer = setInterval(() => void this.tick(), SCHEDULE_TICK_MS);
+    this.scheduleTimer.unref();
+    void this.tick();
+
+    // Pick up where the last run stopped
+    for (const recording of this.recordings.values()) {
+      if (recording.status === "recording") this.follow(recording);
+      if (recording.status === "finalizing") void this.finalize(recording);
+    }
+  }
+
+  // Stops polling; recordings stay "recording" on disk and resume on the next load()
+  stop(): void {
+    if (this.scheduleTimer) clearInterval(this.scheduleTimer);
+    this.scheduleTimer = null;
+    this.loops.forEach((timer) => clearTimeout(timer));
+    this.loops.clear();
+  }
+
+  // Newest first
+  list(): Recording[] {
+    return [...this.recordings.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  // `name` is used as given; without it the MP4 is named <prefix or stream name>-<timestamp>
+  async start(streamId: string, options: { folder?: string; name?: string; prefix?: string; scheduleId?: string } = {}): Promise<Recording> {
+    if (this.current(streamId)) throw new ConflictError(`Stream ${streamId} is already being recorded`);
+
+    const stream = (await this.client.getActiveStreams()).find((candidate) => candidate.id === streamId);
+    if (!stream) throw new NotFoundError(`Unknown stream: ${streamId}`);
+    await this.hls.playlistUrl(streamId); // fails early for a stream without HLS output
+
+    const folder = parseStoragePath(options.folder ?? DEFAULT_FOLDER);
+    const name = options.name ?? `${slug(options.prefix || stream.name || streamId)}-${timestamp(new Date())}`;
+    assertValidName(`${name}.segments`);
+    await this.client.createDirectory(`${name}.segments`, folder);
+
+    const recording: Recording = {
+      id: randomUUID(),
+      streamId,
+      source: stream.url ? redactStreamUrl(stream.url) : stream.name,
+      folder,
+      name,
+      segmentFolder: parseStoragePath(folder === "root" ? `${name}.segments` : `${folder}/${name}.segments`),
+      segments: 0,
+      bytes: 0,
+      status: "recording",
+      scheduleId: options.scheduleId,
+      startedAt: new Date().toISOString(),
+    };
+    this.recordings.set(recording.id, recording);
+    await this.save();
+
+    this.follow(recording);
+    this.update({ action: "record_start", streamId, source: recording.source, recordingId: recording.id, scheduleId: recording.scheduleId });
+    return recording;
+  }
+
+  // Stop recording a stream; the MP4 is written in the background and announced by "record_finished"
+  async stopRecording(streamId: string): Promise<Recording> {
+    const recording = this.current(streamId);
+    if (!recording) throw new NotFoundError(`Stream ${streamId} is not being recorded`);
+    await this.end(recording);
+    return recording;
+  }
+
+  schedulesList(): RecordingSchedule[] {
+    return [...this.schedules.values()];
+  }
+
+  async addSchedule(input: RecordingScheduleInput): Promise<RecordingSchedule> {
+    if (input.start === input.end) throw new SchemaError("must differ from start", "end");
+    if (input.folder !== undefined) parseStoragePath(input.folder);
+    if (input.name !== undefined) assertValidName(input.name);
+    await this.assertSource(input);
+
+    const schedule: RecordingSchedule = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.schedules.set(schedule.id, schedule);
+    await this.saveSchedules();
+    void this.tick();
+    return schedule;
+  }
+
+  // Removing a schedule whose window is open closes it first
+  async removeSchedule(id: string): Promise<void> {
+    const schedule = this.schedules.get(id);
+    if (!schedule) throw new NotFoundError(`Unknown recording schedule: ${id}`);
+    if (schedule.active) await this.close(schedule);
+    this.schedules.delete(id);
+    await this.saveSchedules();
+  }
+
+  private current(streamId: string): Recording | undefined {
+    return [...this.recordings.values()].find((recording) => recording.streamId === streamId && recording.status === "recording");
+  }
+
+  private follow(recording: Recording): void {
+    const timer = setTimeout(async () => {
+      await this.poll(recording);
+      if (recording.status === "recording" && this.scheduleTimer) this.follow(recording);
+    }, this.loops.has(recording.id) ? this.pollMs : 0);
+    timer.unref();
+    this.loops.set(recording.id, timer);
+  }
+
+  // Write every segment the playlist lists that we haven't written yet
+  private async poll(recording: Recording): Promise<void> {
+    // Waiting for the MCP server isn't the stream failing
+    if (!this.client.isConnected()) return;
+    try {
+      let playlist = await this.hls.get(recording.streamId, recording.variant ? new URL(recording.variant) : undefined);
+      let parsed = parsePlaylist(playlist.body.toString("utf8"), playlist.url);
+
+      if (parsed.variants.length > 0) {
+        // A master playlist: record its best variant
+        const best = parsed.variants.reduce((a, b) => (b.bandwidth > a.bandwidth ? b : a));
+        recording.variant = best.uri.href;
+        playlist = await this.hls.get(recording.streamId, best.uri);
+        parsed = parsePlaylist(playlist.body.toString("utf8"), playlist.url);
+      }
+
+      if (parsed.map && !recording.hasInit) {
+        const { body } = await this.hls.get(recording.streamId, parsed.map);
+        await this.writeSegment(recording, `000000-init${path.posix.extname(parsed.map.pathname) || ".mp4"}`, body, () => {
+          recording.hasInit = true;
+        });
+      }
+
+      for (const segment of parsed.segments) {
+        if (recording.lastSequence !== undefined && segment.sequence <= recording.lastSequence) continue;
+        if (recording.status !== "recording") return;
+        const { body } = await this.hls.get(recording.streamId, segment.uri);
+        const name = `${String(recording.segments + 1).padStart(6, "0")}${path.posix.extname(segment.uri.pathname) || ".ts"}`;
+        await this.writeSegment(recording, name, body, () => {
+          recording.lastSequence = segment.sequence;
+        });
+      }
+
+      this.failures.delete(recording.id);
+      if (parsed.ended) await this.end(recording);
+    } catch (error) {
+      if (recording.status !== "recording") return;
+      // A stream the monitor restarts comes back under a new id: wait for it, then carry on from that one
+      if (error instanceof NotFoundError && (await this.followRestart(recording))) return;
+      // A stream that is gone won't come back under the same id: keep what we have
+      const failures = (this.failures.get(recording.id) ?? 0) + 1;
+      this.failures.set(recording.id, failures);
+      if (error instanceof NotFoundError || failures >= MAX_POLL_FAILURES) {
+        console.log(`[Recordings] Stream ${recording.streamId} ended (${(error as Error).message}), finalizing ${recording.name}`);
+        await this.end(recording);
+      } else {
+        console.error(`[Recordings] Poll of ${recording.streamId} failed:`, (error as Error).message);
+      }
+    }
+  }
+
+  // Upload a segment, then save its count together with `written`'s mark, so a restart never re-numbers or skips one
+  private async writeSegment(recording: Recording, name: string, body: Buffer, written: () => void): Promise<void> {
+    await streamUpload(this.client, name, recording.segmentFolder, Readable.from([body]));
+    recording.segments++;
+    recording.bytes += body.length;
+    written();
+    await this.save();
+  }
+
+  /**
+   * Point a recording at the stream that replaced its own after an automatic
+   * restart (StreamHealth.replaces). Also true while that restart is still
+   * underway, so the recording waits instead of ending; false once there is
+   * nothing left to follow.
+   */
+  private async followRestart(recording: Recording): Promise<boolean> {
+    const health = this.streams.list();
+    const successor = health.find((stream) => stream.replaces === recording.streamId);
+    if (!successor) {
+      const state = health.find((stream) => stream.streamId === recording.streamId)?.state;
+      return state === "reconnecting" || (state === "stalled" && this.streams.policy.enabled);
+    }
+
+    console.log(`[Recordings] Stream ${recording.streamId} was restarted as ${successor.streamId}, ${recording.name} follows it`);
+    const previous = recording.streamId;
+    recording.streamId = successor.streamId;
+    // Sequence numbers and variant URLs belong to the old stream
+    recording.lastSequence = undefined;
+    recording.variant = undefined;
+    this.failures.delete(recording.id);
+    await this.save();
+
+    const schedule = [...this.schedules.values()].find((schedule) => schedule.active?.recordingId === recording.id);
+    if (schedule?.active?.streamId === previous) {
+      schedule.active.streamId = successor.streamId;
+      await this.saveSchedules();
+    }
+    return true;
+  }
+
+  private async end(recording: Recording): Promise<void> {
+    if (recording.status !== "recording") return;
+    clearTimeout(this.loops.get(recording.id));
+    this.loops.delete(recording.id);
+    this.failures.delete(recording.id);
+
+    recording.status = "finalizing";
+    recording.stoppedAt = new Date().toISOString();
+    await this.save();
+    this.update({ action: "record_stop", streamId: recording.streamId, source: recording.source, recordingId: recording.id, scheduleId: recording.scheduleId });
+    void this.finalize(recording);
+  }
+
+  /**
+   * Remux the segments into `<name>.mp4` in the recording's folder (a free
+   * name is picked if it's taken), then delete them. A recording without
+   * segments fails; so does one ffmpeg can't read, and its segments are kept.
+   */
+  private async finalize(recording: Recording): Promise<void> {
+    const output = path.join(os.tmpdir(), `recording-${recording.id}.mp4`);
+    try {
+      const listing = await this.client.listFiles(recording.segmentFolder);
+      const segments = listing
+        .flatMap((entry) => entry.files ?? entry.videos ?? [])
+        .filter((file) => file.type !== "directory")
+        .sort((a, b) => a.name.localeCompare(b.name));
+      if (segments.length === 0) throw new Error("No segments were recorded");
+
+      const client = this.client;
+      const folder = recording.segmentFolder;
+      await this.remux(
+        Readable.from(
+          (async function* () {
+            for (const segment of segments) yield* readFileStream(client, segment.name, folder, segment.size);
+          })()
+        ),
+        output
+      );
+
+      const { target } = await this.client.resolveDestination({ folder: recording.folder, filename: `${recording.name}.mp4` }, "suffix");
+      await streamUpload(this.client, target.filename, target.folder, fs.createReadStream(output));
+
+      for (const segment of segments) await this.client.deleteFile(segment.name, folder).catch(() => undefined);
+      await this.client.deleteFile(`${recording.name}.segments`, recording.folder).catch(() => undefined);
+
+      recording.status = "finished";
+      recording.file = target;
+      await this.save();
+      this.update({
+        action: "record_finished",
+        streamId: recording.streamId,
+        recordingId: recording.id,
+        scheduleId: recording.scheduleId,
+        folder: target.folder,
+        filename: target.filename,
+      });
+    } catch (error) {
+      console.error(`[Recordings] Could not finalize ${recording.name}:`, (error as Error).message);
+      recording.status = "failed";
+      recording.error = (error as Error).message;
+      await this.save();
+      this.update({ action: "record_failed", streamId: recording.streamId, recordingId: recording.id, scheduleId: recording.scheduleId, error: recording.error });
+    } finally {
+      await fs.promises.rm(output, { force: true });
+    }
+  }
+
+  // Concatenated segments in, a seekable MP4 out; streams are copied, not re-encoded
+  private remux(source: Readable, output: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(this.ffmpegPath, [
+        "-hide_banner", "-loglevel", "error",
+        "-i", "pipe:0",
+        "-c", "copy",
+        "-movflags", "+faststart",
+        "-f", "mp4", "-y",
+        output,
+      ]);
+
+      let stderr = "";
+      ffmpeg.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+      ffmpeg.stdin.on("error", () => undefined);
+      ffmpeg.on("error", (error) => reject(new Error(`ffmpeg unavailable: ${error.message}`)));
+      ffmpeg.on("close", (code) => {
+        source.destroy();
+        if (code === 0) resolve();
+        else reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim() || "no output"}`));
+      });
+
+      source.on("error", (error) => {
+        stderr += error.message;
+        ffmpeg.stdin.destroy();
+      });
+      source.pipe(ffmpeg.stdin);
+    });
+  }
+
+  // Open windows that should be open and close the ones that shouldn't
+  private async tick(now = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.checkSchedules(now);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async checkSchedules(now: Date): Promise<void> {
+    if (!this.client.isConnected()) return;
+    for (const schedule of this.schedules.values()) {
+      try {
+        const running = schedule.active && this.recordings.get(schedule.active.recordingId)?.status === "recording";
+        if (isOpen(schedule, now)) {
+          // Also reopens a window whose recording ended early, e.g. because the camera dropped out
+          if (!running) await this.open(schedule);
+        } else if (schedule.active) {
+          await this.close(schedule);
+        }
+      } catch (error) {
+        console.error(`[Recordings] Schedule ${schedule.id} (${schedule.source}):`, (error as Error).message);
+      }
+    }
+  }
+
+  private async open(schedule: RecordingSchedule): Promise<void> {
+    let stream = (await this.client.getActiveStreams()).find((candidate) => candidate.url === schedule.source || candidate.name === schedule.source);
+    const startedStream = !stream;
+    if (!stream) {
+      stream = await this.streams.startStream(schedule.source, schedule.type);
+      this.update({ action: "start", source: schedule.source, streamId: stream.id, scheduleId: schedule.id });
+    }
+
+    const name = schedule.name && `${schedule.name}-${timestamp(new Date())}`;
+    const recording = this.current(stream.id) ?? (await this.start(stream.id, { folder: schedule.folder, name, scheduleId: schedule.id }));
+    schedule.active = { streamId: stream.id, recordingId: recording.id, startedStream: startedStream || Boolean(schedule.active?.startedStream) };
+    await this.saveSchedules();
+    this.update({ action: "schedule_open", scheduleId: schedule.id, source: schedule.source, streamId: stream.id, recordingId: recording.id });
+  }
+
+  private async close(schedule: RecordingSchedule): Promise<void> {
+    const active = schedule.active!;
+    const recording = this.recordings.get(active.recordingId);
+    if (recording) await this.end(recording);
+    if (active.startedStream) {
+      await this.streams.stopStream(active.streamId, "recording schedule closed").catch(() => undefined);
+      this.update({ action: "stop", streamId: active.streamId, scheduleId: schedule.id });
+    }
+
+    schedule.active = undefined;
+    await this.saveSchedules();
+    this.update({ action: "schedule_close", scheduleId: schedule.id, source: schedule.source, streamId: active.streamId, recordingId: active.recordingId });
+  }
+
+  // A schedule's source is started when no running stream matches it, so it must be startable unless one does
+  private async assertSource({ source, type }: RecordingScheduleInput): Promise<void> {
+    try {
+      parseStreamSource(source, type);
+    } catch (error) {
+      const streams = await this.client.getActiveStreams();
+      if (!streams.some((stream) => stream.url === source || stream.name === source)) throw error;
+    }
+  }
+
+  private update(update: RecordingUpdate): void {
+    this.emit("update", update);
+  }
+
+  // Serialize writes so overlapping polls never interleave on disk
+  private save(): Promise<void> {
+    const done = this.list().filter((recording) => recording.status === "finished" || recording.status === "failed");
+    done.slice(MAX_KEPT_RECORDINGS).forEach((recording) => this.recordings.delete(recording.id));
+
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.file, [...this.recordings.values()]));
+    return this.saving;
+  }
+
+  private saveSchedules(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.schedulesFile, [...this.schedules.values()]));
+    return this.saving;
+  }
+}
+
+// Whether `now` falls in the schedule's window; a window past midnight belongs to the day it started
+export function isOpen(schedule: Pick<RecordingSchedule, "start" | "end" | "days">, now: Date): boolean {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(schedule.start);
+  const end = toMinutes(schedule.end);
+  const onDay = (day: number) => !schedule.days || schedule.days.includes(day);
+  const today = now.getDay();
+
+  if (start < end) return onDay(today) && minutes >= start && minutes < end;
+  return (onDay(today) && minutes >= start) || (onDay((today + 6) % 7) && minutes < end);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function slug(name: string): string {
+  return name.replace(/^[a-z]+:\/\//i, "").replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "stream";
+}
+
+// 2026-10-19T09-00: sortable and safe in a file name
+function timestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}-${pad(date.getMinutes())}`;
+}
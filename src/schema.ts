@@ -0,0 +1,292 @@
+/**
+ * Minimal runtime schemas. One definition gives a validator, the TypeScript
+ * type it guarantees (Infer<typeof schema>) and a JSON Schema description, so
+ * the WebSocket protocol, its typed client and API docs can't drift apart.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+  readonly json: JsonSchema;
+  readonly optional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  readonly status = 400;
+  readonly code = "invalid_payload";
+
+  constructor(
+    message: string,
+    readonly path: string
+  ) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "SchemaError";
+  }
+}
+
+function schema<T>(json: JsonSchema, parse: (value: unknown, path: string) => T): Schema<T> {
+  return { json, parse: (value, path = "") => parse(value, path) };
+}
+
+export function string(options: { minLength?: number; maxLength?: number; pattern?: string } = {}): Schema<string> {
+  return schema({ type: "string", ...options }, (value, path) => {
+    if (typeof value !== "string") throw new SchemaError("must be a string", path);
+    if (options.pattern !== undefined && !new RegExp(options.pattern, "u").test(value)) {
+      throw new SchemaError(`must match ${options.pattern}`, path);
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      throw new SchemaError(`must be at least ${options.minLength} characters`, path);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new SchemaError(`must be at most ${options.maxLength} characters`, path);
+    }
+    return value;
+  });
+}
+
+export function number(options: { integer?: boolean; minimum?: number; maximum?: number } = {}): Schema<number> {
+  const { integer, ...bounds } = options;
+  return schema({ type: integer ? "integer" : "number", ...bounds }, (value, path) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) throw new SchemaError("must be a number", path);
+    if (integer && !Number.isInteger(value)) throw new SchemaError("must be an integer", path);
+    if (bounds.minimum !== undefined && value < bounds.minimum) throw new SchemaError(`must be >= ${bounds.minimum}`, path);
+    if (bounds.maximum !== undefined && value > bounds.maximum) throw new SchemaError(`must be <= ${bounds.maximum}`, path);
+    return value;
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return schema({ type: "boolean" }, (value, path) => {
+    if (typeof value !== "boolean") throw new SchemaError("must be a boolean", path);
+    return value;
+  });
+}
+
+export function literal<const T extends string>(values: readonly T[]): Schema<T> {
+  return schema({ type: "string", enum: values }, (value, path) => {
+    if (!values.includes(value as T)) throw new SchemaError(`must be one of ${values.join(", ")}`, path);
+    return value as T;
+  });
+}
+
+export function array<T>(items: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+  return schema({ type: "array", items: items.json, ...options }, (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError("must be an array", path);
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      throw new SchemaError(`must have at most ${options.maxItems} items`, path);
+    }
+    return value.map((item, index) => items.parse(item, `${path}[${index}]`));
+  });
+}
+
+// An object used as a map: any keys, every value checked against `values`
+export function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return schema({ type: "object", additionalProperties: values.json }, (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw new SchemaError("must be an object", path);
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, field]) => [key, values.parse(field, path ? `${path}.${key}` : key)])
+    );
+  });
+}
+
+// Anything; the handler validates it itself
+export function unknown(): Schema<unknown> {
+  return schema({}, (value) => value);
+}
+
+// The first option that accepts the value
+export function union<T extends Schema<unknown>[]>(...options: T): Schema<Infer<T[number]>> {
+  return schema({ oneOf: options.map((option) => option.json) }, (value, path) => {
+    for (const option of options) {
+      try {
+        return option.parse(value, path) as Infer<T[number]>;
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+      }
+    }
+    throw new SchemaError("matches none of the allowed shapes", path);
+  });
+}
+
+// Adds a description to the JSON Schema; validation is unchanged
+export function describe<S extends Schema<unknown>>(inner: S, description: string): S {
+  return { ...inner, json: { ...inner.json, description } };
+}
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> & { readonly optional: true } {
+  return {
+    json: inner.json,
+    optional: true,
+    parse: (value, path = "") => (value === undefined || value === null ? undefined : inner.parse(value, path)),
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+export type ObjectOf<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+/**
+ * An object with known properties. Unknown properties are dropped rather than
+ * rejected, so older servers accept payloads from newer clients.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  const required = Object.keys(shape).filter((key) => !shape[key].optional);
+  const properties = Object.fromEntries(Object.entries(shape).map(([key, property]) => [key, property.json]));
+
+  return schema({ type: "object", properties, ...(required.length > 0 && { required }) }, (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw new SchemaError("must be an object", path);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(shape)) {
+      const field = (value as Record<string, unknown>)[key];
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (field === undefined && !property.optional) throw new SchemaError("is required", fieldPath);
+      const parsed = property.parse(field, fieldPath);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as ObjectOf<S>;
+  });
+}
+
+/**
+ * A validator for a JSON Schema that arrives at runtime, such as an MCP tool's
+ * inputSchema. Covers the keywords tools use in practice (type, enum, const,
+ * properties, required, additionalProperties, items, the length, size and
+ * range bounds, pattern, anyOf/oneOf/allOf); others are ignored. Values pass
+ * through as given, including properties the schema doesn't list. Patterns
+ * are compiled here, once; one JavaScript can't compile is skipped with a
+ * warning rather than failing every call.
+ */
+export function fromJsonSchema(json: JsonSchema): Schema<unknown> {
+  const patterns: Patterns = new Map();
+  compilePatterns(json, patterns);
+  return schema(json, (value, path) => {
+    checkJson(json, value, path, patterns);
+    return value;
+  });
+}
+
+// Each rule's compiled pattern; null when it didn't compile
+type Patterns = Map<JsonRule, RegExp | null>;
+
+function compilePatterns(json: JsonSchema, patterns: Patterns): void {
+  const rule = json as JsonRule;
+  if (typeof rule.pattern === "string" && !patterns.has(rule)) {
+    try {
+      patterns.set(rule, new RegExp(rule.pattern, "u"));
+    } catch (error) {
+      console.warn(`[Schema] Ignoring pattern ${JSON.stringify(rule.pattern)}:`, (error as Error).message);
+      patterns.set(rule, null);
+    }
+  }
+  const nested = [
+    ...(Array.isArray(rule.items) ? rule.items : rule.items ? [rule.items] : []),
+    ...Object.values(rule.properties ?? {}),
+    ...(typeof rule.additionalProperties === "object" ? [rule.additionalProperties] : []),
+    ...(rule.allOf ?? []),
+    ...(rule.anyOf ?? []),
+    ...(rule.oneOf ?? []),
+  ];
+  nested.forEach((child) => compilePatterns(child, patterns));
+}
+
+// The JSON Schema keywords fromJsonSchema() understands
+interface JsonRule {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function checkJson(json: JsonSchema, value: unknown, path: string, patterns: Patterns): void {
+  const rule = json as JsonRule;
+  const at = (key: string | number) => (typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+  if (rule.type !== undefined) {
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    const actual = typeOf(value);
+    if (!types.some((type) => type === actual || (type === "number" && actual === "integer"))) {
+      throw new SchemaError(`must be ${types.join(" or ")}`, path);
+    }
+  }
+  if (rule.const !== undefined && JSON.stringify(value) !== JSON.stringify(rule.const)) {
+    throw new SchemaError(`must be ${JSON.stringify(rule.const)}`, path);
+  }
+  if (Array.isArray(rule.enum) && !rule.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    throw new SchemaError(`must be one of ${rule.enum.map((option) => JSON.stringify(option)).join(", ")}`, path);
+  }
+
+  if (typeof value === "string") {
+    if (rule.minLength !== undefined && value.length < rule.minLength) throw new SchemaError(`must be at least ${rule.minLength} characters`, path);
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) throw new SchemaError(`must be at most ${rule.maxLength} characters`, path);
+    const pattern = patterns.get(rule);
+    if (pattern && !pattern.test(value)) throw new SchemaError(`must match ${rule.pattern}`, path);
+  }
+  if (typeof value === "number") {
+    if (rule.minimum !== undefined && value < rule.minimum) throw new SchemaError(`must be >= ${rule.minimum}`, path);
+    if (rule.maximum !== undefined && value > rule.maximum) throw new SchemaError(`must be <= ${rule.maximum}`, path);
+    if (typeof rule.exclusiveMinimum === "number" && value <= rule.exclusiveMinimum) throw new SchemaError(`must be > ${rule.exclusiveMinimum}`, path);
+    if (typeof rule.exclusiveMaximum === "number" && value >= rule.exclusiveMaximum) throw new SchemaError(`must be < ${rule.exclusiveMaximum}`, path);
+  }
+  if (Array.isArray(value)) {
+    if (rule.minItems !== undefined && value.length < rule.minItems) throw new SchemaError(`must have at least ${rule.minItems} items`, path);
+    if (rule.maxItems !== undefined && value.length > rule.maxItems) throw new SchemaError(`must have at most ${rule.maxItems} items`, path);
+    const items = rule.items;
+    if (items && !Array.isArray(items)) value.forEach((item, index) => checkJson(items, item, at(index), patterns));
+  }
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = rule.properties ?? {};
+    const additional = rule.additionalProperties;
+    for (const key of rule.required ?? []) {
+      if (object[key] === undefined) throw new SchemaError("is required", at(key));
+    }
+    for (const [key, field] of Object.entries(object)) {
+      if (properties[key]) checkJson(properties[key], field, at(key), patterns);
+      else if (additional === false) throw new SchemaError("is not allowed", at(key));
+      else if (typeof additional === "object") checkJson(additional, field, at(key), patterns);
+    }
+  }
+
+  for (const part of rule.allOf ?? []) checkJson(part, value, path, patterns);
+  const options = rule.anyOf ?? rule.oneOf;
+  if (options && !options.some((option) => matchesJson(option, value, path, patterns))) {
+    throw new SchemaError("matches none of the allowed shapes", path);
+  }
+}
+
+function matchesJson(json: JsonSchema, value: unknown, path: string, patterns: Patterns): boolean {
+  try {
+    checkJson(json, value, path, patterns);
+    return true;
+  } catch (error) {
+    if (error instanceof SchemaError) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,300 @@
+import { FileInfo, FileLocation, MCPFileClient } from "./mcp-client.js";
+import { dataFile, readJsonFile, writeJsonFile } from "./json-store.js";
+import { fileKind, ListedFile, ListQueryError } from "./listing.js";
+import { ROOT_PATH, StoragePath } from "./paths.js";
+import { walkStorage } from "./tree.js";
+
+export interface SearchHit extends ListedFile {
+  tags: string[];
+  score: number;
+}
+
+export interface SearchResult {
+  query: string;
+  total: number;
+  items: SearchHit[];
+}
+
+interface IndexedDoc {
+  file: ListedFile;
+  tokens: string[];
+}
+
+type Comparison = "=" | ">" | ">=" | "<" | "<=";
+
+interface FieldFilter {
+  field: string;
+  op: Comparison;
+  value: string;
+  amount?: number; // parsed bytes or epoch ms for size/modified/created
+}
+
+interface ParsedQuery {
+  terms: string[];
+  filters: FieldFilter[];
+}
+
+const FILTER_FIELDS = ["type", "folder", "mime", "size", "modified", "created", "tag", "name"];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+/**
+ * In-memory index over every FileInfo the MCP server reports, plus user tags.
+ * It is rebuilt from a full listing on connect and kept current from the same
+ * file_changed events the agent broadcasts, so searching never hits the server.
+ */
+export class SearchIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private tags = new Map<string, string[]>();
+  private saving: Promise<void> = Promise.resolve();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private client: MCPFileClient,
+    private tagsFile = dataFile("tags.json"),
+    private refreshMs = parseInt(process.env.SEARCH_REFRESH_MS || String(5 * 60 * 1000))
+  ) {}
+
+  async load(): Promise<void> {
+    const saved = await readJsonFile<Record<string, string[]>>(this.tagsFile, {});
+    this.tags = new Map(Object.entries(saved));
+
+    // Periodic full rebuild catches changes made behind the agent's back
+    this.refreshTimer = setInterval(() => {
+      if (this.client.isConnected()) this.rebuild().catch(() => undefined);
+    }, this.refreshMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  async rebuild(): Promise<void> {
+    const files = await walkStorage(this.client);
+    this.docs = new Map(files.map((file) => [keyOf(file.folder, file.name), this.toDoc(file)]));
+    console.log(`[Search] Indexed ${this.docs.size} file(s)`);
+  }
+
+  // Apply one file_changed event; moves and copies carry their source in `from`
+  async apply(action: string, filename: string, folder: StoragePath = ROOT_PATH, from?: FileLocation): Promise<void> {
+    const key = keyOf(folder, filename);
+
+    if (from) {
+      // Tags follow the file to its new location (and are duplicated onto copies)
+      const oldKey = keyOf(from.folder, from.filename);
+      const tags = this.tags.get(oldKey);
+      if (action !== "copy") {
+        this.docs.delete(oldKey);
+        this.tags.delete(oldKey);
+      }
+      if (tags) this.tags.set(key, tags);
+      else this.tags.delete(key);
+      await this.saveTags();
+    }
+
+    if (action === "delete") {
+      this.docs.delete(key);
+      if (this.tags.delete(key)) await this.saveTags();
+    } else if (action === "create_directory") {
+      this.upsert({ name: filename, type: "directory", folder });
+    } else {
+      const info = await this.client.getFileInfo(filename, folder);
+      this.upsert({ ...info, name: filename, folder });
+    }
+  }
+
+  upsert(file: ListedFile): void {
+    this.docs.set(keyOf(file.folder, file.name), this.toDoc(file));
+  }
+
+  remove(folder: string, filename: string): void {
+    this.docs.delete(keyOf(folder, filename));
+  }
+
+  getTags(folder: string, filename: string): string[] {
+    return this.tags.get(keyOf(folder, filename)) ?? [];
+  }
+
+  async setTags(folder: string, filename: string, tags: string[]): Promise<string[]> {
+    const key = keyOf(folder, filename);
+    const clean = [...new Set(tags.map((tag) => String(tag).trim().toLowerCase()).filter(Boolean))];
+
+    if (clean.length > 0) this.tags.set(key, clean);
+    else this.tags.delete(key);
+
+    const doc = this.docs.get(key);
+    if (doc) this.docs.set(key, this.toDoc(doc.file));
+    await this.saveTags();
+    return clean;
+  }
+
+  search(query: string, limit = 50, visible: (file: ListedFile) => boolean = () => true): SearchResult {
+    const parsed = parseQuery(query);
+    const hits: SearchHit[] = [];
+
+    for (const [key, doc] of this.docs) {
+      if (!visible(doc.file)) continue;
+      const tags = this.tags.get(key) ?? [];
+      if (!parsed.filters.every((filter) => matchesFilter(doc.file, tags, filter))) continue;
+
+      let score = 0;
+      let matchedAll = true;
+      for (const term of parsed.terms) {
+        const termScore = scoreTerm(term, doc, tags);
+        if (termScore === 0) {
+          matchedAll = false;
+          break;
+        }
+        score += termScore;
+      }
+      if (!matchedAll) continue;
+
+      hits.push({ ...doc.file, tags, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return { query, total: hits.length, items: hits.slice(0, limit) };
+  }
+
+  private toDoc(file: ListedFile): IndexedDoc {
+    const tags = this.tags.get(keyOf(file.folder, file.name)) ?? [];
+    return { file, tokens: [...tokenize(file.name), ...tags.flatMap(tokenize)] };
+  }
+
+  private saveTags(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.tagsFile, Object.fromEntries(this.tags)));
+    return this.saving;
+  }
+}
+
+function keyOf(folder: string, filename: string): string {
+  return `${folder}/${filename}`;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Split a query into free-text terms and field filters such as
+ * `type:video`, `size>100MB`, `modified:<2026-01-01`, `tag:beach` or `folder:VIDEOS`.
+ * Double quotes keep a phrase together as one term.
+ */
+function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], filters: [] };
+  const parts = query.match(/"[^"]*"|\S+/g) ?? [];
+
+  for (const part of parts) {
+    const match = /^([a-z]+)(:?)(>=|<=|>|<|=)?(.+)$/i.exec(part);
+    const field = match?.[1].toLowerCase();
+
+    if (match && field && FILTER_FIELDS.includes(field) && (match[2] || match[3])) {
+      const op = (match[3] || "=") as Comparison;
+      const value = match[4].replace(/^"|"$/g, "");
+      const amount = field === "size" ? parseSize(value) : field === "modified" || field === "created" ? parseDate(value) : undefined;
+      parsed.filters.push({ field, op, value, amount });
+    } else {
+      const term = part.replace(/^"|"$/g, "").toLowerCase().trim();
+      if (term) parsed.terms.push(term);
+    }
+  }
+
+  return parsed;
+}
+
+function matchesFilter(file: ListedFile, tags: string[], filter: FieldFilter): boolean {
+  const value = filter.value.toLowerCase();
+
+  switch (filter.field) {
+    case "type":
+      return (file.type === "directory" ? "directory" : fileKind(file)) === value;
+    case "folder":
+      // A folder filter covers everything beneath it too
+      return file.folder.toLowerCase() === value || file.folder.toLowerCase().startsWith(value + "/");
+    case "mime":
+      return (file.mimeType || "").toLowerCase().startsWith(value);
+    case "tag":
+      return tags.includes(value);
+    case "name":
+      return file.name.toLowerCase().includes(value);
+    case "size":
+      return compare(file.size, filter.amount!, filter.op);
+    case "modified":
+    case "created":
+      return compareDate(file[filter.field], filter);
+    default:
+      return false;
+  }
+}
+
+function parseSize(text: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i.exec(text.trim());
+  if (!match) throw new ListQueryError(`Invalid size: ${text} (try 500KB, 100MB or 2GB)`);
+  return parseFloat(match[1]) * SIZE_UNITS[(match[2] || "b").toLowerCase()];
+}
+
+function compare(actual: number | undefined, expected: number, op: Comparison): boolean {
+  if (actual === undefined) return false;
+  switch (op) {
+    case ">": return actual > expected;
+    case ">=": return actual >= expected;
+    case "<": return actual < expected;
+    case "<=": return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+function parseDate(text: string): number {
+  const time = Date.parse(text);
+  if (isNaN(time)) throw new ListQueryError(`Invalid date: ${text} (use YYYY-MM-DD)`);
+  return time;
+}
+
+// A bare date (`modified:2026-01-01`) means "that whole day"
+function compareDate(actual: FileInfo["modified"], filter: FieldFilter): boolean {
+  if (!actual) return false;
+
+  const time = Date.parse(actual);
+  const expected = filter.amount!;
+  if (filter.op === "=" && /^\d{4}-\d{2}-\d{2}$/.test(filter.value)) {
+    return time >= expected && time < expected + 24 * 60 * 60 * 1000;
+  }
+  return compare(time, expected, filter.op);
+}
+
+// Exact token > prefix > substring of the name > small typo
+function scoreTerm(term: string, doc: IndexedDoc, tags: string[]): number {
+  if (doc.tokens.includes(term) || tags.includes(term)) return 4;
+  if (doc.tokens.some((token) => token.startsWith(term))) return 3;
+  if (doc.file.name.toLowerCase().includes(term)) return 2;
+
+  const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (maxDistance > 0 && doc.tokens.some((token) => editDistance(term, token, maxDistance) <= maxDistance)) return 1;
+  return 0;
+}
+
+// Levenshtein distance, giving up early once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,359 @@
+import { EventEmitter } from "events";
+import { HlsRelay, parsePlaylist } from "./hls.js";
+import { MCPFileClient, StreamInfo, StreamType } from "./mcp-client.js";
+import { SchemaError } from "./schema.js";
+
+// How often streams are checked; 0 turns health checks (and automatic restarts) off
+export const STREAM_HEALTH_INTERVAL_MS = parseInt(process.env.STREAM_HEALTH_INTERVAL_MS || "5000");
+// How long stopped and failed streams stay listed, so late clients still see what happened
+const ENDED_RETENTION_MS = 10 * 60 * 1000;
+
+export type StreamState = "starting" | "live" | "stalled" | "reconnecting" | "stopped" | "failed";
+
+// Which states each state may move to; anything else is a bug in the monitor
+export const TRANSITIONS: Record<StreamState, StreamState[]> = {
+  starting: ["live", "stalled", "stopped", "failed"],
+  live: ["stalled", "stopped", "failed"],
+  stalled: ["live", "reconnecting", "stopped", "failed"],
+  reconnecting: ["starting", "stalled", "stopped", "failed"],
+  stopped: [],
+  failed: ["live", "stopped"], // a stream the agent gave up on may still come back by itself
+};
+
+/**
+ * When a stream counts as stalled and what happens then. Defaults come from
+ * the environment; a backend may override any of them with `restartPolicy`
+ * in backends.json.
+ */
+export interface RestartPolicy {
+  enabled: boolean; // restart stalled streams at all
+  stallAfterMs: number; // no new segment, or no uptime progress, for this long
+  maxRestarts: number; // automatic restarts before a stream is marked failed
+  backoffMs: number; // wait before the first restart, doubled for each one after
+}
+
+export const RESTART_POLICY: RestartPolicy = {
+  enabled: process.env.STREAM_AUTO_RESTART !== "false",
+  stallAfterMs: parseInt(process.env.STREAM_STALL_MS || "20000"),
+  maxRestarts: parseInt(process.env.STREAM_MAX_RESTARTS || "3"),
+  backoffMs: parseInt(process.env.STREAM_RESTART_BACKOFF_MS || "5000"),
+};
+
+export interface StreamHealth {
+  streamId: string;
+  source?: string; // where the stream comes from, ingest key redacted; unknown for streams the server reports without a url
+  type?: StreamType;
+  state: StreamState;
+  since: string; // when the stream entered its state
+  reason?: string; // why it did
+  serverStatus?: string; // StreamInfo.status as last reported
+  uptime?: number;
+  lastSegmentAt?: string; // when the playlist last gained a segment
+  restarts: number; // automatic restarts so far, carried over to the restarted stream
+  replaces?: string; // the stream this one was restarted from
+}
+
+// A state change, relayed to clients as stream_health events
+export interface StreamHealthUpdate {
+  streamId: string;
+  from?: StreamState; // absent for a stream seen for the first time
+  to: StreamState;
+  reason?: string;
+  health: StreamHealth;
+}
+
+interface Tracked {
+  health: StreamHealth;
+  source?: string; // what a restart starts again, ingest key included
+  startedAt: number;
+  uptimeAt: number; // when uptime last went up
+  segmentAt?: number; // when the playlist last gained a segment
+  lastSequence?: number;
+  variant?: URL; // media playlist picked from a master playlist
+  stalledAt?: number;
+  endedAt?: number;
+  restartPending?: boolean; // stopped for a restart that failed; no longer listed, retried once the backoff runs out
+}
+
+const SOURCE_SCHEMES: Record<StreamType, string[]> = { rtmp: ["rtmp:", "rtmps:"], rtsp: ["rtsp:", "rtsps:"] };
+
+// Ingest keys (stream-presets.ts) start with this, which is how they are found in stream URLs
+export const INGEST_KEY_PREFIX = "live_";
+const INGEST_KEY = new RegExp(`(/${INGEST_KEY_PREFIX}[\\w-]{4})[\\w-]+`, "g");
+
+// A stream URL fit for anyone who can read streams: an ingest key is cut to the preview presets show, credentials dropped
+export function redactStreamUrl(url: string): string {
+  return url.replace(/^([a-z][\w+.-]*:\/\/)[^/?#@]*@/i, "$1").replace(INGEST_KEY, "$1…");
+}
+
+export function publicStream<T extends { url?: string }>(stream: T): T {
+  return stream.url ? { ...stream, url: redactStreamUrl(stream.url) } : stream;
+}
+
+/**
+ * Check a stream source before it reaches the server: an rtmp(s):// URL for
+ * type rtmp, rtsp(s):// for rtsp, with a host. Returns it trimmed.
+ */
+export function parseStreamSource(source: string, type: StreamType): string {
+  const trimmed = source.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new SchemaError(`must be a URL like ${type}://host/path`, "source");
+  }
+  if (!SOURCE_SCHEMES[type].includes(url.protocol)) {
+    throw new SchemaError(`must be an ${SOURCE_SCHEMES[type].map((scheme) => scheme + "//").join(" or ")} URL for type ${type}`, "source");
+  }
+  if (!url.hostname) throw new SchemaError("must name a host", "source");
+  return trimmed;
+}
+
+// The stream type a source URL implies, if any
+export function streamTypeOf(source: string | undefined): StreamType | undefined {
+  const scheme = /^([a-z]+):\/\//i.exec(source ?? "")?.[1].toLowerCase();
+  return (Object.keys(SOURCE_SCHEMES) as StreamType[]).find((type) => SOURCE_SCHEMES[type].includes(`${scheme}:`));
+}
+
+// The server's free-form status, as far as the agent can tell
+function classify(status: string): "live" | "starting" | "ended" | "error" | undefined {
+  if (/^(live|running|active|streaming|online|publishing)$/i.test(status)) return "live";
+  if (/^(starting|connecting|pending|initializing|waiting)$/i.test(status)) return "starting";
+  if (/^(stopped|ended|finished|closed)$/i.test(status)) return "ended";
+  if (/error|fail|dead/i.test(status)) return "error";
+  return undefined;
+}
+
+/**
+ * Keeps a typed state for every stream on one backend. Each check lists the
+ * server's streams and looks for progress: uptime going up and, for streams
+ * with an HLS playlist, new segments appearing. A stream without progress for
+ * stallAfterMs is stalled; the policy then restarts it from its source (stop,
+ * start again, which gives it a new id) with growing backoff, and marks it
+ * failed once maxRestarts are used up. Emits "update" (StreamHealthUpdate)
+ * for every transition.
+ */
+export class StreamMonitor extends EventEmitter {
+  private streams = new Map<string, Tracked>();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private client: MCPFileClient,
+    private hls: HlsRelay,
+    readonly policy: RestartPolicy = RESTART_POLICY,
+    private intervalMs = STREAM_HEALTH_INTERVAL_MS
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.intervalMs <= 0 || this.timer) return;
+    this.timer = setInterval(() => void this.check(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  list(): StreamHealth[] {
+    return [...this.streams.values()].map((tracked) => tracked.health);
+  }
+
+  // Validate the source, then start the stream and watch it from "starting"
+  async startStream(source: string, type: StreamType): Promise<StreamInfo> {
+    const stream = await this.client.startStream(parseStreamSource(source, type), type);
+    this.track(stream, source.trim(), type);
+    return stream;
+  }
+
+  // A stream somebody else started, e.g. a recording schedule
+  track(stream: Pick<StreamInfo, "id" | "url">, source = stream.url, type = streamTypeOf(source), restarts = 0, replaces?: string): void {
+    const known = this.streams.get(stream.id);
+    if (known && !replaces) {
+      // Already picked up by a check that ran while the stream was being started
+      known.source ??= source;
+      known.health.source ??= source && redactStreamUrl(source);
+      known.health.type ??= type;
+      return;
+    }
+
+    const now = Date.now();
+    const health: StreamHealth = {
+      streamId: stream.id,
+      source: source && redactStreamUrl(source),
+      type,
+      state: "starting",
+      since: new Date(now).toISOString(),
+      restarts,
+      replaces,
+    };
+    this.streams.set(stream.id, { health, source, startedAt: now, uptimeAt: now });
+    this.update({ streamId: stream.id, to: "starting", reason: replaces ? `restarted from ${replaces}` : undefined, health });
+  }
+
+  // Stop a stream for good: no restart, and the relay forgets its playlist
+  async stopStream(streamId: string, reason?: string): Promise<string> {
+    const message = await this.client.stopStream(streamId);
+    this.hls.forget(streamId);
+    this.stopped(streamId, reason);
+    return message;
+  }
+
+  // A stream was stopped on request; it isn't restarted
+  stopped(streamId: string, reason = "stopped on request"): void {
+    const tracked = this.streams.get(streamId);
+    if (tracked) this.transition(tracked, "stopped", reason);
+  }
+
+  async check(): Promise<void> {
+    // A slow server shouldn't stack checks on top of each other
+    if (this.checking || !this.client.isConnected()) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const streams = await this.client.getActiveStreams();
+      const listed = new Set(streams.map((stream) => stream.id));
+
+      for (const stream of streams) {
+        let tracked = this.streams.get(stream.id);
+        if (!tracked) {
+          this.track(stream);
+          tracked = this.streams.get(stream.id)!;
+        }
+        try {
+          await this.probe(tracked, stream, now);
+        } catch (error) {
+          console.error(`[Streams] Could not check ${stream.id}:`, (error as Error).message);
+        }
+      }
+
+      for (const [streamId, tracked] of this.streams) {
+        const { state } = tracked.health;
+        // Streams (re)started since the listing was asked for aren't in it yet
+        const missing = !listed.has(streamId) && tracked.startedAt < now;
+        // A stream whose restart failed is gone from the list on purpose; it's retried, or stays failed
+        if (missing && tracked.restartPending) {
+          if (state === "stalled") await this.maybeRestart(tracked, now);
+        } else if (missing && state !== "reconnecting") this.transition(tracked, "stopped", "no longer listed by the server");
+        if (tracked.endedAt !== undefined && now - tracked.endedAt > ENDED_RETENTION_MS) this.streams.delete(streamId);
+      }
+    } catch (error) {
+      // Connection trouble is reported by the client's own status events; try again next tick
+      console.error("[Streams] Health check failed:", (error as Error).message);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async probe(tracked: Tracked, stream: StreamInfo, now: number): Promise<void> {
+    const { health } = tracked;
+    if (health.state === "stopped" || health.state === "reconnecting") return;
+
+    health.serverStatus = stream.status;
+    if (stream.uptime !== undefined && (health.uptime === undefined || stream.uptime > health.uptime)) tracked.uptimeAt = now;
+    health.uptime = stream.uptime;
+    if (!tracked.source && stream.url) {
+      tracked.source = stream.url;
+      health.source = redactStreamUrl(stream.url);
+      health.type = streamTypeOf(stream.url);
+    }
+
+    const status = classify(stream.status);
+    if (status === "ended") return this.transition(tracked, "stopped", `server reports ${stream.status}`);
+
+    let stale: string | undefined;
+    if (status === "error") stale = `server reports ${stream.status}`;
+    else if (stream.uptime !== undefined && now - tracked.uptimeAt > this.policy.stallAfterMs) stale = "uptime stopped going up";
+    if (!stale && stream.playlistUrl) stale = await this.probeSegments(tracked, stream.id, now);
+
+    if (stale) {
+      if (health.state === "starting" || health.state === "live") {
+        tracked.stalledAt = now;
+        this.transition(tracked, "stalled", stale);
+      }
+      if (health.state === "stalled") await this.maybeRestart(tracked, now);
+      return;
+    }
+
+    // Live once media flows: a segment for playlist streams, otherwise the server's word or a ticking uptime
+    const flowing = stream.playlistUrl ? tracked.segmentAt !== undefined : status === "live" || tracked.uptimeAt > tracked.startedAt;
+    if (flowing && health.state !== "live") this.transition(tracked, "live", health.state === "starting" ? undefined : "recovered");
+  }
+
+  // Whether the playlist is still growing; a reason when it isn't (or can't be read) for too long
+  private async probeSegments(tracked: Tracked, streamId: string, now: number): Promise<string | undefined> {
+    const since = tracked.segmentAt ?? tracked.startedAt;
+    let problem = "no new segments";
+    try {
+      let { body, url } = await this.hls.get(streamId, tracked.variant);
+      let parsed = parsePlaylist(body.toString("utf8"), url);
+      if (parsed.variants.length > 0) {
+        tracked.variant = parsed.variants.reduce((a, b) => (b.bandwidth > a.bandwidth ? b : a)).uri;
+        ({ body, url } = await this.hls.get(streamId, tracked.variant));
+        parsed = parsePlaylist(body.toString("utf8"), url);
+      }
+
+      const newest = parsed.segments.at(-1)?.sequence;
+      if (newest !== undefined && (tracked.lastSequence === undefined || newest > tracked.lastSequence)) {
+        tracked.lastSequence = newest;
+        tracked.segmentAt = now;
+        tracked.health.lastSegmentAt = new Date(now).toISOString();
+        return undefined;
+      }
+      if (parsed.ended) problem = "playlist ended";
+    } catch (error) {
+      tracked.variant = undefined;
+      problem = `playlist unavailable: ${(error as Error).message}`;
+    }
+    return now - since > this.policy.stallAfterMs ? problem : undefined;
+  }
+
+  private async maybeRestart(tracked: Tracked, now: number): Promise<void> {
+    const { health } = tracked;
+    const { enabled, maxRestarts, backoffMs } = this.policy;
+    if (!enabled || !tracked.source || !health.type) return;
+    if (health.restarts >= maxRestarts) return this.transition(tracked, "failed", `still stalled after ${health.restarts} restart(s)`);
+    if (now - tracked.stalledAt! < backoffMs * 2 ** health.restarts) return;
+
+    const { streamId, type } = health;
+    const source = tracked.source;
+    this.transition(tracked, "reconnecting", `restart ${health.restarts + 1} of ${maxRestarts}`);
+    if (!tracked.restartPending) {
+      await this.client.stopStream(streamId).catch(() => undefined);
+      this.hls.forget(streamId);
+    }
+
+    try {
+      const stream = await this.client.startStream(source, type);
+      this.streams.delete(streamId);
+      this.track(stream, source, type, health.restarts + 1, streamId);
+    } catch (error) {
+      health.restarts++;
+      tracked.stalledAt = Date.now();
+      tracked.restartPending = true;
+      const reason = `restart failed: ${(error as Error).message}`;
+      this.transition(tracked, health.restarts >= maxRestarts ? "failed" : "stalled", reason);
+    }
+  }
+
+  private transition(tracked: Tracked, to: StreamState, reason?: string): void {
+    const { health } = tracked;
+    const from = health.state;
+    if (from === to) return;
+    if (!TRANSITIONS[from].includes(to)) throw new Error(`Stream ${health.streamId} can't go from ${from} to ${to}`);
+
+    health.state = to;
+    health.since = new Date().toISOString();
+    health.reason = reason;
+    tracked.endedAt = to === "stopped" || to === "failed" ? Date.now() : undefined;
+    this.update({ streamId: health.streamId, from, to, reason, health });
+  }
+
+  private update(update: StreamHealthUpdate): void {
+    this.emit("update", update);
+  }
+}
@@ -0,0 +1,212 @@
+import { randomBytes, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { ConflictError, MCPFileClient, NotFoundError, StreamInfo, StreamType } from "./mcp-client.js";
+import { dataFile, readJsonFile, writeJsonFile } from "./json-store.js";
+import { assertValidName, parseStoragePath } from "./paths.js";
+import { SchemaError } from "./schema.js";
+import { INGEST_KEY_PREFIX, parseStreamSource, publicStream, StreamMonitor } from "./stream-health.js";
+import { Recording, RecordingService } from "./recordings.js";
+
+export interface StreamPresetInput {
+  name: string;
+  source: string; // for an RTMP push, the ingest URL without the key, e.g. rtmp://ingest.example.com/live
+  type: StreamType;
+  autoStart?: boolean; // started whenever the backend (re)connects, unless already running
+  record?: { folder: string; name?: string }; // default recording target; recordings are named <name>-<timestamp>
+}
+
+export interface StreamPreset extends StreamPresetInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  ingestKey?: { preview: string; createdAt: string }; // the key itself is only returned when it is rotated
+}
+
+interface StoredPreset extends StreamPreset {
+  key?: string; // sent to the server with every start, so kept as is rather than hashed
+}
+
+// What changed, relayed to clients as stream_preset events
+export interface PresetUpdate {
+  action: "create" | "update" | "delete" | "start" | "rotate_key" | "revoke_key";
+  preset: StreamPreset;
+  streamId?: string; // the stream started, or stopped because its key stopped working
+}
+
+/**
+ * Named stream sources, so operators pick a camera or an OBS ingest instead
+ * of retyping its URL. An RTMP preset may have an ingest key: the stream is
+ * started at <source>/<key>, which is what OBS pushes to (server = source,
+ * stream key = key). Rotating or revoking the key stops a stream running on
+ * the old one, so it can't be pushed to any more. Presets are saved after
+ * every change; emits "update" (PresetUpdate).
+ */
+export class StreamPresetStore extends EventEmitter {
+  private presets = new Map<string, StoredPreset>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private client: MCPFileClient,
+    private streams: StreamMonitor,
+    private recordings: RecordingService,
+    private file = dataFile("stream-presets.json")
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    const presets = await readJsonFile<StoredPreset[]>(this.file, []);
+    this.presets = new Map(presets.map((preset) => [preset.id, preset]));
+  }
+
+  list(): StreamPreset[] {
+    return [...this.presets.values()].map(publicView).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(input: StreamPresetInput): Promise<StreamPreset> {
+    this.validate(input);
+    const now = new Date().toISOString();
+    const preset: StoredPreset = { ...input, source: input.source.trim(), autoStart: input.autoStart ?? false, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.presets.set(preset.id, preset);
+    await this.save();
+    return this.update("create", preset);
+  }
+
+  // Replace a preset's settings; its key stays unless the preset stops being RTMP
+  async replace(id: string, input: StreamPresetInput): Promise<StreamPreset> {
+    const preset = this.find(id);
+    this.validate(input, id);
+    if (input.type !== "rtmp" && preset.key) await this.dropKey(preset);
+
+    const { key, ingestKey } = preset;
+    const next: StoredPreset = {
+      ...input,
+      source: input.source.trim(),
+      autoStart: input.autoStart ?? false,
+      id,
+      createdAt: preset.createdAt,
+      updatedAt: new Date().toISOString(),
+      ...(key && { key, ingestKey }),
+    };
+    this.presets.set(id, next);
+    await this.save();
+    return this.update("update", next);
+  }
+
+  async remove(id: string): Promise<void> {
+    const preset = this.find(id);
+    this.presets.delete(id);
+    await this.save();
+    this.update("delete", preset);
+  }
+
+  /**
+   * Start a preset's stream, and record it into the preset's target when
+   * asked to. A preset already running (a stream at the same source) is a
+   * conflict, so a second click or an auto-start doesn't start it twice.
+   */
+  async start(id: string, options: { record?: boolean } = {}): Promise<{ stream: StreamInfo; recording?: Recording }> {
+    const preset = this.find(id);
+    const source = sourceOf(preset);
+    const running = await this.running(preset);
+    if (running) throw new ConflictError(`Preset "${preset.name}" is already running as stream ${running.id}`);
+
+    const stream = await this.streams.startStream(source, preset.type);
+    this.update("start", preset, stream.id);
+    if (!options.record) return { stream: publicStream(stream) };
+
+    const recording = await this.recordings.start(stream.id, { folder: preset.record?.folder, prefix: preset.record?.name ?? preset.name });
+    return { stream: publicStream(stream), recording };
+  }
+
+  // Start every auto-start preset that isn't running; called whenever the backend (re)connects
+  async autoStart(): Promise<void> {
+    for (const preset of this.presets.values()) {
+      if (!preset.autoStart) continue;
+      try {
+        await this.start(preset.id);
+      } catch (error) {
+        if (error instanceof ConflictError) continue; // already running
+        console.error(`[Presets] Could not auto-start "${preset.name}":`, (error as Error).message);
+      }
+    }
+  }
+
+  // A new ingest key, returned this once; a stream pushing with the old key is stopped
+  async rotateKey(id: string): Promise<{ key: string; ingestUrl: string; preset: StreamPreset }> {
+    const preset = this.find(id);
+    if (preset.type !== "rtmp") throw new SchemaError("ingest keys are for RTMP presets", "type");
+    const stopped = await this.dropKey(preset);
+
+    const key = INGEST_KEY_PREFIX + randomBytes(18).toString("base64url");
+    preset.key = key;
+    preset.ingestKey = { preview: key.slice(0, INGEST_KEY_PREFIX.length + 4) + "…", createdAt: new Date().toISOString() };
+    preset.updatedAt = preset.ingestKey.createdAt;
+    await this.save();
+    return { key, ingestUrl: sourceOf(preset), preset: this.update("rotate_key", preset, stopped) };
+  }
+
+  async revokeKey(id: string): Promise<StreamPreset> {
+    const preset = this.find(id);
+    if (!preset.key) throw new NotFoundError(`Preset "${preset.name}" has no ingest key`);
+    const stopped = await this.dropKey(preset);
+    preset.updatedAt = new Date().toISOString();
+    await this.save();
+    return this.update("revoke_key", preset, stopped);
+  }
+
+  // Forget the key, stopping a stream that runs on it; returns that stream's id
+  private async dropKey(preset: StoredPreset): Promise<string | undefined> {
+    const running = preset.key ? await this.running(preset) : undefined;
+    if (running) await this.streams.stopStream(running.id, "ingest key changed");
+    delete preset.key;
+    delete preset.ingestKey;
+    return running?.id;
+  }
+
+  private async running(preset: StoredPreset): Promise<StreamInfo | undefined> {
+    const source = sourceOf(preset);
+    return (await this.client.getActiveStreams()).find((stream) => stream.url === source);
+  }
+
+  private find(id: string): StoredPreset {
+    const preset = this.presets.get(id);
+    if (!preset) throw new NotFoundError(`Unknown stream preset: ${id}`);
+    return preset;
+  }
+
+  private validate(input: StreamPresetInput, id?: string): void {
+    parseStreamSource(input.source, input.type);
+    const name = input.name.trim().toLowerCase();
+    if ([...this.presets.values()].some((preset) => preset.id !== id && preset.name.trim().toLowerCase() === name)) {
+      throw new ConflictError(`A preset named "${input.name}" already exists`);
+    }
+    if (input.record) {
+      parseStoragePath(input.record.folder);
+      if (input.record.name !== undefined) assertValidName(input.record.name);
+    }
+  }
+
+  private update(action: PresetUpdate["action"], preset: StoredPreset, streamId?: string): StreamPreset {
+    const view = publicView(preset);
+    this.emit("update", { action, preset: view, streamId } satisfies PresetUpdate);
+    return view;
+  }
+
+  // Serialize writes so overlapping changes never interleave on disk
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.file, [...this.presets.values()]));
+    return this.saving;
+  }
+}
+
+// Where the stream is started: the source, plus the ingest key for an RTMP push
+function sourceOf(preset: StoredPreset): string {
+  return preset.key ? `${preset.source.replace(/\/+$/, "")}/${preset.key}` : preset.source;
+}
+
+function publicView({ key, ...preset }: StoredPreset): StreamPreset {
+  return preset;
+}
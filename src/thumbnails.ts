@@ -0,0 +1,192 @@
+import { spawn } from "child_process";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import sharp from "sharp";
+import { FileInfo, MCPFileClient } from "./mcp-client.js";
+import { dataFile } from "./json-store.js";
+import { readFileStream } from "./downloads.js";
+import { StoragePath } from "./paths.js";
+
+// Widths we render; requests are rounded up to one of these so the cache stays bounded
+export const THUMBNAIL_WIDTHS = [160, 320, 480, 640, 960];
+export const DEFAULT_THUMBNAIL_WIDTH = 320;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|bmp|webp|svg|tiff?|avif|heic|heif)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v|webm|mkv)$/i;
+
+export interface Thumbnail {
+  file: string;
+  etag: string;
+}
+
+export class ThumbnailError extends Error {
+  constructor(message: string, readonly status = 415) {
+    super(message);
+    this.name = "ThumbnailError";
+  }
+}
+
+export function thumbnailWidth(requested?: number): number {
+  if (!requested || !Number.isFinite(requested)) return DEFAULT_THUMBNAIL_WIDTH;
+  return THUMBNAIL_WIDTHS.find((width) => width >= requested) ?? THUMBNAIL_WIDTHS[THUMBNAIL_WIDTHS.length - 1];
+}
+
+export function canThumbnail(filename: string): boolean {
+  return IMAGE_EXTENSIONS.test(filename) || VIDEO_EXTENSIONS.test(filename);
+}
+
+/**
+ * Resized WebP previews cached on disk. Cache entries are keyed on the file's
+ * size and modified time, so a re-upload naturally misses the old entry;
+ * stale variants are removed whenever a new one is written.
+ */
+export class ThumbnailService {
+  private inFlight = new Map<string, Promise<Thumbnail>>();
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(
+    private client: MCPFileClient,
+    private cacheDir = dataFile("thumbnails"),
+    private ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg",
+    private concurrency = parseInt(process.env.THUMBNAIL_CONCURRENCY || "2")
+  ) {}
+
+  async get(folder: StoragePath, filename: string, width = DEFAULT_THUMBNAIL_WIDTH): Promise<Thumbnail> {
+    if (!canThumbnail(filename)) {
+      throw new ThumbnailError(`No thumbnail available for ${filename}`);
+    }
+
+    const info = await this.client.getFileInfo(filename, folder);
+    const dir = this.entryDir(folder, filename);
+    const variant = `${width}-${versionOf(info)}`;
+    const file = path.join(dir, `${variant}.webp`);
+    const thumbnail = { file, etag: `"${variant}"` };
+
+    if (fs.existsSync(file)) return thumbnail;
+
+    // Concurrent requests for the same thumbnail share one render
+    let pending = this.inFlight.get(file);
+    if (!pending) {
+      pending = this.withSlot(() => this.render(folder, filename, info, width, dir, file))
+        .then(() => thumbnail)
+        .finally(() => this.inFlight.delete(file));
+      this.inFlight.set(file, pending);
+    }
+    return pending;
+  }
+
+  // Pre-render the default size after an upload; failures only matter when someone asks for it
+  warm(folder: StoragePath, filename: string): void {
+    if (!canThumbnail(filename)) return;
+    this.get(folder, filename).catch((error) => {
+      console.error(`[Thumbnails] Could not warm ${folder}/${filename}:`, (error as Error).message);
+    });
+  }
+
+  async purge(folder: StoragePath, filename: string): Promise<void> {
+    await fs.promises.rm(this.entryDir(folder, filename), { recursive: true, force: true });
+  }
+
+  private entryDir(folder: string, filename: string): string {
+    const key = createHash("sha1").update(`${folder}/${filename}`).digest("hex");
+    return path.join(this.cacheDir, key.slice(0, 2), key);
+  }
+
+  private async render(folder: StoragePath, filename: string, info: FileInfo, width: number, dir: string, file: string): Promise<void> {
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const source = readFileStream(this.client, filename, folder, info.size);
+    const frame = VIDEO_EXTENSIONS.test(filename) ? await this.posterFrame(source) : source;
+
+    const tmp = `${file}.${process.pid}.tmp`;
+    const resize = sharp({ animated: false, failOn: "none" })
+      .rotate()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: 75 });
+
+    try {
+      if (Buffer.isBuffer(frame)) {
+        await resize.end(frame).toFile(tmp);
+      } else {
+        await new Promise<void>((resolve, reject) => {
+          frame.on("error", reject);
+          resize.toFile(tmp).then(() => resolve(), reject);
+          frame.pipe(resize);
+        });
+      }
+    } catch (error) {
+      await fs.promises.rm(tmp, { force: true });
+      throw new ThumbnailError(`Could not render thumbnail: ${(error as Error).message}`);
+    }
+
+    await fs.promises.rename(tmp, file);
+    await this.removeStaleVariants(dir, versionOf(info));
+  }
+
+  /**
+   * Pick a representative frame from the opening of the video with ffmpeg's
+   * thumbnail filter, reading from stdin. MP4s need their index up front ("faststart") for this
+   * to work from a pipe; others fail and the UI falls back to a placeholder.
+   */
+  private posterFrame(source: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(this.ffmpegPath, [
+        "-hide_banner", "-loglevel", "error",
+        "-i", "pipe:0",
+        "-vf", "thumbnail=25",
+        "-frames:v", "1",
+        "-f", "image2pipe", "-vcodec", "png",
+        "pipe:1",
+      ]);
+
+      const output: Buffer[] = [];
+      let stderr = "";
+      ffmpeg.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+      ffmpeg.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+      // ffmpeg closes stdin as soon as it has its frame; that is not an error
+      ffmpeg.stdin.on("error", () => undefined);
+      ffmpeg.on("error", (error) => reject(new ThumbnailError(`ffmpeg unavailable: ${error.message}`, 501)));
+      ffmpeg.on("close", (code) => {
+        source.destroy();
+        if (output.length > 0) resolve(Buffer.concat(output));
+        else reject(new ThumbnailError(`ffmpeg exited with ${code}: ${stderr.trim() || "no frame produced"}`));
+      });
+
+      source.on("error", () => ffmpeg.stdin.destroy());
+      source.pipe(ffmpeg.stdin);
+    });
+  }
+
+  // Drop every size rendered from an older version of the file
+  private async removeStaleVariants(dir: string, version: string): Promise<void> {
+    for (const name of await fs.promises.readdir(dir)) {
+      if (name.endsWith(".webp") && !name.endsWith(`-${version}.webp`)) {
+        await fs.promises.rm(path.join(dir, name), { force: true });
+      }
+    }
+  }
+
+  // A finished render hands its slot straight to the next waiter, so nobody arriving meanwhile can take it too
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+function versionOf(info: FileInfo): string {
+  const modified = info.modified ? Date.parse(info.modified).toString(16) : "0";
+  return `${modified}-${(info.size ?? 0).toString(16)}`;
+}
@@ -0,0 +1,83 @@
+import { MCPFileClient } from "./mcp-client.js";
+import { flattenListings, ListedFile } from "./listing.js";
+import { joinPath, pathSegments, StoragePath } from "./paths.js";
+
+export const MAX_TREE_DEPTH = 5;
+const MAX_WALK_DEPTH = parseInt(process.env.TREE_WALK_MAX_DEPTH || "16");
+
+export interface TreeNode {
+  name: string;
+  path: StoragePath;
+  files: number;
+  directories: number;
+  children?: TreeNode[]; // omitted below the requested depth; fetch that node's path to expand it
+}
+
+/**
+ * Directory tree under `start`, `depth` levels deep. Only directories become
+ * nodes; files are counted, so the frontend can draw a folder sidebar without
+ * pulling whole listings.
+ */
+export async function readTree(client: MCPFileClient, start: StoragePath, depth = 1): Promise<TreeNode> {
+  const entries = flattenListings(await client.listFiles(start), start);
+  const directories = entries.filter(isDirectory);
+  const segments = pathSegments(start);
+
+  const node: TreeNode = {
+    name: segments[segments.length - 1] ?? "root",
+    path: start,
+    files: entries.length - directories.length,
+    directories: directories.length,
+  };
+
+  if (depth > 0) {
+    node.children = [];
+    for (const directory of directories) {
+      node.children.push(await readTree(client, joinPath(start, directory.name), depth - 1));
+    }
+  }
+  return node;
+}
+
+/**
+ * Every file and directory in storage. Starts from the server's "all" listing
+ * (the well-known top-level folders) and descends into any directory it finds,
+ * one listing per directory.
+ */
+export async function walkStorage(client: MCPFileClient, maxDepth = MAX_WALK_DEPTH): Promise<ListedFile[]> {
+  const found = flattenListings(await client.listFiles("all"));
+  return descend(client, found, new Set(found.map((entry) => entry.folder)), maxDepth);
+}
+
+// Every file and directory below `start`, at any depth up to the walk limit
+export async function walkFolder(client: MCPFileClient, start: StoragePath, maxDepth = MAX_WALK_DEPTH): Promise<ListedFile[]> {
+  const found = flattenListings(await client.listFiles(start), start);
+  return descend(client, found, new Set([start as string]), maxDepth);
+}
+
+async function descend(client: MCPFileClient, found: ListedFile[], listed: Set<string>, maxDepth: number): Promise<ListedFile[]> {
+  const pending = found.filter(isDirectory).map((entry) => joinPath(entry.folder, entry.name));
+
+  while (pending.length > 0) {
+    const folder = pending.shift()!;
+    if (listed.has(folder) || pathSegments(folder).length > maxDepth) continue;
+    listed.add(folder);
+
+    const entries = flattenListings(await client.listFiles(folder), folder);
+    found.push(...entries);
+    pending.push(...entries.filter(isDirectory).map((entry) => joinPath(folder, entry.name)));
+  }
+
+  // Top-level folders can show up both as entries of root and as listings of their own
+  const seen = new Set<string>();
+  return found.filter((entry) => {
+    const key = `${entry.folder}/${entry.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function isDirectory(entry: ListedFile): boolean {
+  return entry.type === "directory";
+}
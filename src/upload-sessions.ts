@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import { MCPFileClient } from "./mcp-client.js";
+import { dataFile, readJsonFile, writeJsonFile } from "./json-store.js";
+import { StoragePath } from "./paths.js";
+import { pipeChunks } from "./uploads.js";
+
+export interface UploadSession {
+  id: string;
+  uploadId: string; // MCP-side chunked upload handle
+  filename: string;
+  folder: StoragePath;
+  owner?: string; // user id that opened the session; only they may append or complete it
+  size?: number;
+  offset: number; // bytes acknowledged by the MCP server
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export type UploadSessionErrorCode = "session_not_found" | "offset_mismatch" | "session_busy" | "size_exceeded";
+
+export class UploadSessionError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: UploadSessionErrorCode, message: string, readonly offset?: number) {
+    super(message);
+    this.name = "UploadSessionError";
+    this.status = code === "session_not_found" ? 404 : 409;
+  }
+}
+
+/**
+ * Resumable upload sessions on top of the MCP chunked upload tools.
+ * Session state is persisted after every acknowledged chunk, so a client can
+ * resume from `offset` even after the agent restarts.
+ */
+export class UploadSessionStore {
+  private sessions = new Map<string, UploadSession>();
+  private busy = new Set<string>();
+  private saving: Promise<void> = Promise.resolve();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private client: MCPFileClient,
+    private ttlMs = parseInt(process.env.UPLOAD_SESSION_TTL_MS || String(24 * 60 * 60 * 1000)),
+    private file = dataFile("upload-sessions.json")
+  ) {}
+
+  async load(): Promise<void> {
+    const saved = await readJsonFile<UploadSession[]>(this.file, []);
+    this.sessions = new Map(saved.map((session) => [session.id, session]));
+    console.log(`[Uploads] Restored ${this.sessions.size} upload session(s)`);
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch((error) => console.error("[Uploads] Sweep failed:", error));
+    }, 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  async open(filename: string, folder: StoragePath, size?: number, owner?: string): Promise<UploadSession> {
+    const handle = await this.client.beginUpload(filename, folder);
+    const now = new Date();
+    const session: UploadSession = {
+      id: randomUUID(),
+      uploadId: handle.uploadId,
+      filename,
+      folder,
+      owner,
+      size,
+      offset: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+    };
+
+    this.sessions.set(session.id, session);
+    await this.save();
+    return session;
+  }
+
+  get(id: string, owner?: string): UploadSession {
+    const session = this.sessions.get(id);
+    // Someone else's session looks exactly like a missing one
+    if (!session || Date.parse(session.expiresAt) <= Date.now() || (session.owner && session.owner !== owner)) {
+      throw new UploadSessionError("session_not_found", `Upload session not found: ${id}`);
+    }
+    return session;
+  }
+
+  /**
+   * Append a byte stream at `offset`, which must match the last acknowledged
+   * offset. Progress is saved per chunk, so a dropped connection only loses
+   * the chunk that was in flight.
+   */
+  async append(
+    id: string,
+    owner: string | undefined,
+    offset: number,
+    source: AsyncIterable<Buffer>,
+    length?: number
+  ): Promise<UploadSession> {
+    const session = this.get(id, owner);
+    if (offset !== session.offset) {
+      throw new UploadSessionError(
+        "offset_mismatch",
+        `Expected offset ${session.offset}, got ${offset}`,
+        session.offset
+      );
+    }
+    if (this.busy.has(id)) {
+      throw new UploadSessionError("session_busy", "Another chunk is already being written to this session");
+    }
+    if (session.size !== undefined && length !== undefined && offset + length > session.size) {
+      throw new UploadSessionError("size_exceeded", `Chunk would exceed declared size of ${session.size} bytes`);
+    }
+
+    this.busy.add(id);
+    try {
+      const capped = session.size === undefined ? source : capSize(source, session.size - offset, session.size);
+      await pipeChunks(this.client, session.uploadId, capped, offset, async (acknowledged) => {
+        session.offset = acknowledged;
+        this.touch(session);
+        await this.save();
+      });
+      return session;
+    } finally {
+      this.busy.delete(id);
+    }
+  }
+
+  async complete(id: string, owner: string | undefined, checksum?: string): Promise<{ session: UploadSession; message: string }> {
+    const session = this.get(id, owner);
+    if (this.busy.has(id)) {
+      throw new UploadSessionError("session_busy", "A chunk is still being written to this session");
+    }
+    if (session.size !== undefined && session.offset !== session.size) {
+      throw new UploadSessionError(
+        "offset_mismatch",
+        `Upload incomplete: ${session.offset} of ${session.size} bytes received`,
+        session.offset
+      );
+    }
+
+    const message = await this.client.finishUpload(session.uploadId, checksum);
+    this.sessions.delete(id);
+    await this.save();
+    return { session, message };
+  }
+
+  async abort(id: string, owner?: string): Promise<void> {
+    const session = this.get(id, owner);
+    await this.client.abortUpload(session.uploadId).catch(() => undefined);
+    this.sessions.delete(id);
+    await this.save();
+  }
+
+  private touch(session: UploadSession): void {
+    const now = Date.now();
+    session.updatedAt = new Date(now).toISOString();
+    session.expiresAt = new Date(now + this.ttlMs).toISOString();
+  }
+
+  private async sweepExpired(): Promise<void> {
+    const now = Date.now();
+    const expired = [...this.sessions.values()].filter(
+      (session) => Date.parse(session.expiresAt) <= now && !this.busy.has(session.id)
+    );
+    if (expired.length === 0) return;
+
+    for (const session of expired) {
+      console.log(`[Uploads] Expiring session ${session.id} (${session.filename})`);
+      this.sessions.delete(session.id);
+      if (this.client.isConnected()) {
+        await this.client.abortUpload(session.uploadId).catch(() => undefined);
+      }
+    }
+    await this.save();
+  }
+
+  // Serialize writes so concurrent chunk acknowledgements never interleave on disk
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.file, [...this.sessions.values()]));
+    return this.saving;
+  }
+}
+
+// Content-Length is only checked up front when there is one; count the bytes themselves too
+async function* capSize(source: AsyncIterable<Buffer>, remaining: number, size: number): AsyncIterable<Buffer> {
+  let received = 0;
+  for await (const piece of source) {
+    received += piece.length;
+    if (received > remaining) throw new UploadSessionError("size_exceeded", `Chunk would exceed declared size of ${size} bytes`);
+    yield piece;
+  }
+}
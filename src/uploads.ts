@@ -0,0 +1,178 @@
+import busboy from "busboy";
+import { IncomingMessage } from "http";
+import { Readable } from "stream";
+import { MCPFileClient } from "./mcp-client.js";
+import { parseStoragePath, StoragePath } from "./paths.js";
+
+// Raw bytes per upload_chunk call (base64 inflates this by ~33% on the wire)
+export const UPLOAD_CHUNK_SIZE = parseInt(process.env.UPLOAD_CHUNK_SIZE || String(4 * 1024 * 1024));
+
+export interface StreamUploadResult {
+  filename: string;
+  folder: StoragePath;
+  bytes: number;
+  message: string;
+}
+
+/**
+ * Where an upload lands: an explicit `folder` path wins, otherwise the same routing
+ * the frontend uses — images → IMAGES, videos/MP4 → VIDEOS, anything else → root.
+ */
+export function folderForUpload(filename: string, type?: string, mimeType?: string, folder?: unknown): StoragePath {
+  if (folder !== undefined && folder !== "") return parseStoragePath(folder);
+  if (type === "image") return parseStoragePath("IMAGES");
+  if (type === "video") return parseStoragePath("VIDEOS");
+  if (type === "file") return parseStoragePath("root");
+  if (mimeType?.startsWith("image/")) return parseStoragePath("IMAGES");
+  if (mimeType?.startsWith("video/") || filename.toLowerCase().endsWith(".mp4")) return parseStoragePath("VIDEOS");
+  return parseStoragePath("root");
+}
+
+/**
+ * Send a byte stream to an open MCP upload starting at `offset`.
+ * Chunks are sent one at a time and the source is only read as fast as the
+ * server acknowledges them, so memory use stays at roughly one chunk.
+ * Returns the offset after the last acknowledged chunk.
+ */
+export async function pipeChunks(
+  client: MCPFileClient,
+  uploadId: string,
+  source: AsyncIterable<Buffer>,
+  offset = 0,
+  onChunk?: (offset: number) => void | Promise<void>,
+  chunkSize = UPLOAD_CHUNK_SIZE
+): Promise<number> {
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  const flush = async (size: number) => {
+    const data = Buffer.concat(pending, pendingBytes);
+    const chunk = data.subarray(0, size);
+    await client.uploadChunk(uploadId, chunk.toString("base64"), offset);
+    offset += chunk.length;
+    pending = [data.subarray(size)];
+    pendingBytes = data.length - size;
+    await onChunk?.(offset);
+  };
+
+  for await (const piece of source) {
+    pending.push(piece);
+    pendingBytes += piece.length;
+    while (pendingBytes >= chunkSize) {
+      await flush(chunkSize);
+    }
+  }
+  if (pendingBytes > 0) {
+    await flush(pendingBytes);
+  }
+
+  return offset;
+}
+
+// One-shot streamed upload: begin, pipe every chunk, finish (or abort on failure)
+export async function streamUpload(
+  client: MCPFileClient,
+  filename: string,
+  folder: StoragePath,
+  source: AsyncIterable<Buffer>,
+  chunkSize = UPLOAD_CHUNK_SIZE
+): Promise<StreamUploadResult> {
+  const { uploadId } = await client.beginUpload(filename, folder);
+
+  try {
+    const bytes = await pipeChunks(client, uploadId, source, 0, undefined, chunkSize);
+    const message = await client.finishUpload(uploadId);
+    return { filename, folder, bytes, message };
+  } catch (error) {
+    await client.abortUpload(uploadId).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * A multipart upload that failed after some of its files were already stored.
+ * Those files stay in place; `completed` lists them so the caller can report them.
+ */
+export class PartialUploadError extends Error {
+  constructor(readonly error: unknown, readonly completed: StreamUploadResult[]) {
+    super((error as Error).message);
+    this.name = "PartialUploadError";
+  }
+}
+
+/**
+ * Stream every file part of a multipart/form-data request to the MCP server.
+ * A `folder` path or `type` field (image | video | file) sent before the file
+ * parts overrides the MIME-based folder routing. `authorize` may throw to reject a part.
+ * If the client disconnects or the body is malformed, the part in flight is aborted
+ * on the server; a failure after earlier files were stored rejects with PartialUploadError.
+ */
+export function receiveMultipartUpload(
+  req: IncomingMessage,
+  client: MCPFileClient,
+  authorize?: (folder: StoragePath) => void
+): Promise<StreamUploadResult[]> {
+  return new Promise((resolve, reject) => {
+    const parser = busboy({ headers: req.headers });
+    const fields: Record<string, string> = {};
+    const uploads: Promise<StreamUploadResult>[] = [];
+    const parts = new Set<Readable>();
+    let settled = false;
+
+    // Wait for every part to finish or abort, then report what was stored alongside the first failure
+    const settle = async (failure?: Error) => {
+      if (settled) return;
+      settled = true;
+      const outcomes = await Promise.allSettled(uploads);
+      const completed = outcomes.flatMap((outcome) => (outcome.status === "fulfilled" ? [outcome.value] : []));
+      const rejected = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === "rejected");
+      const error: unknown = failure ?? rejected?.reason;
+      if (!failure && !rejected) resolve(completed);
+      else reject(completed.length > 0 ? new PartialUploadError(error, completed) : error);
+    };
+
+    // Stop reading the body and fail the part in flight, so streamUpload aborts its MCP upload
+    const abort = (error: Error) => {
+      if (settled) return;
+      req.unpipe(parser);
+      parts.forEach((part) => part.destroy(error));
+      parser.destroy();
+      void settle(error);
+    };
+
+    parser.on("field", (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on("file", (_field, file: Readable, info) => {
+      const filename = info.filename;
+      // Read the fields now: later fields in the same chunk are parsed before the promise below runs
+      const { type, folder: folderField } = fields;
+      parts.add(file);
+      file.on("close", () => parts.delete(file));
+      const upload = Promise.resolve()
+        .then(() => folderForUpload(filename, type, info.mimeType, folderField))
+        .then((folder) => {
+          authorize?.(folder);
+          return streamUpload(client, filename, folder, file);
+        })
+        .catch((error) => {
+          // Drain the rest of the part so busboy can move on to the next one
+          file.resume();
+          throw error;
+        });
+      // Rejections are collected by settle; don't let them surface as unhandled first
+      upload.catch(() => undefined);
+      uploads.push(upload);
+    });
+
+    parser.on("error", (error: Error) => abort(error));
+    parser.on("close", () => void settle());
+    req.on("error", abort);
+    req.on("close", () => {
+      if (!req.complete) abort(new Error("Client disconnected before the upload finished"));
+    });
+
+    req.pipe(parser);
+  });
+}
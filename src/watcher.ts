@@ -0,0 +1,235 @@
+import { EventEmitter } from "events";
+import { DownloadQueueStatus, MCPFileClient, QueueStatus, StreamInfo } from "./mcp-client.js";
+import { ListQueryError } from "./listing.js";
+import { publicStream } from "./stream-health.js";
+
+export type WatchTopic = "queue" | "downloads" | "streams";
+export const WATCH_TOPICS: WatchTopic[] = ["queue", "downloads", "streams"];
+
+export interface TopicState {
+  queue: QueueStatus;
+  downloads: DownloadQueueStatus;
+  streams: StreamInfo[];
+}
+
+export type QueueChange =
+  | { kind: "stats"; active: number; waiting: number; maxConcurrent: number }
+  | { kind: "ticket_joined"; ticketId: string; position: number; estimatedWait: number }
+  | { kind: "ticket_moved"; ticketId: string; from: number; to: number; estimatedWait: number }
+  | { kind: "ticket_granted" | "ticket_expired" | "ticket_left"; ticketId: string };
+
+export type DownloadChange =
+  | { kind: "stats"; activeCount: number; waitingCount: number; maxConcurrent: number }
+  | { kind: "download_waiting"; sessionId: string; filename: string; position: number }
+  | { kind: "download_moved"; sessionId: string; from: number; to: number }
+  | { kind: "download_left_queue"; sessionId: string } // gone from the waiting list without being seen active
+  | { kind: "download_started"; sessionId: string; filename: string; ip: string }
+  | { kind: "download_finished"; sessionId: string; filename: string; duration: number };
+
+export type StreamChange =
+  | { kind: "stream_added"; stream: StreamInfo }
+  | { kind: "stream_status"; id: string; from: string; to: string }
+  | { kind: "stream_uptime"; id: string; uptime: number }
+  | { kind: "stream_removed"; id: string };
+
+export interface TopicChanges {
+  queue: QueueChange[];
+  downloads: DownloadChange[];
+  streams: StreamChange[];
+}
+
+export function parseTopics(value: unknown): WatchTopic[] {
+  const topics = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(topics) || topics.length === 0) throw new ListQueryError("topics must be a non-empty array");
+  for (const topic of topics) {
+    if (!WATCH_TOPICS.includes(topic)) throw new ListQueryError(`topics must be some of ${WATCH_TOPICS.join(", ")}`);
+  }
+  return [...new Set(topics as WatchTopic[])];
+}
+
+/**
+ * Polls queue, download and stream state from the MCP server and emits
+ * "delta" (topic, changes) whenever a poll differs from the last one. Only
+ * topics somebody has retained are polled, so an idle agent makes no calls;
+ * every socket shares one poll per topic however many are watching.
+ */
+export class StateWatcher extends EventEmitter {
+  private watchers = new Map<WatchTopic, number>();
+  private snapshots = new Map<WatchTopic, TopicState[WatchTopic]>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private client: MCPFileClient,
+    private intervalMs = parseInt(process.env.WATCH_INTERVAL_MS || "3000")
+  ) {
+    super();
+  }
+
+  // One more watcher of `topic`; resolves with the current state as its baseline for the deltas that follow
+  async retain<T extends WatchTopic>(topic: T): Promise<TopicState[T]> {
+    this.watchers.set(topic, (this.watchers.get(topic) ?? 0) + 1);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+
+    const known = this.snapshots.get(topic);
+    if (known) return known as TopicState[T];
+    try {
+      const state = await this.fetch(topic);
+      this.snapshots.set(topic, state);
+      return state;
+    } catch (error) {
+      this.release(topic);
+      throw error;
+    }
+  }
+
+  release(topic: WatchTopic): void {
+    const count = (this.watchers.get(topic) ?? 0) - 1;
+    if (count > 0) {
+      this.watchers.set(topic, count);
+      return;
+    }
+    // Nobody to keep it current for, so a later retain starts from a fresh read
+    this.watchers.delete(topic);
+    this.snapshots.delete(topic);
+    if (this.watchers.size === 0) this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async poll(): Promise<void> {
+    // A slow server shouldn't stack polls on top of each other
+    if (this.polling || !this.client.isConnected()) return;
+    this.polling = true;
+
+    try {
+      for (const topic of [...this.watchers.keys()]) {
+        try {
+          const next = await this.fetch(topic);
+          const previous = this.snapshots.get(topic);
+          if (!this.watchers.has(topic)) continue;
+          this.snapshots.set(topic, next);
+          if (!previous) continue;
+
+          const changes = await this.diff(topic, previous, next);
+          if (changes.length > 0) this.emit("delta", topic, changes);
+        } catch (error) {
+          // Connection trouble is reported by the client's own status events; try again next tick
+          console.error(`[Watcher] Could not poll ${topic}:`, (error as Error).message);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async fetch<T extends WatchTopic>(topic: T): Promise<TopicState[T]> {
+    const state: TopicState[WatchTopic] =
+      topic === "queue"
+        ? await this.client.getQueueStatus()
+        : topic === "downloads"
+          ? await this.client.getDownloadQueueStatus()
+          : (await this.client.getActiveStreams()).map(publicStream);
+    return state as TopicState[T];
+  }
+
+  private async diff(topic: WatchTopic, previous: TopicState[WatchTopic], next: TopicState[WatchTopic]): Promise<TopicChanges[WatchTopic]> {
+    if (topic === "queue") return this.settleTickets(diffQueue(previous as QueueStatus, next as QueueStatus));
+    if (topic === "downloads") return diffDownloads(previous as DownloadQueueStatus, next as DownloadQueueStatus);
+    return diffStreams(previous as StreamInfo[], next as StreamInfo[]);
+  }
+
+  // The waiting list can't say why a ticket left it, so ask the queue
+  private async settleTickets(changes: QueueChange[]): Promise<QueueChange[]> {
+    return Promise.all(
+      changes.map(async (change) => {
+        if (change.kind !== "ticket_left") return change;
+        try {
+          const { status } = await this.client.checkTicket(change.ticketId);
+          if (status === "granted" || status === "active") return { kind: "ticket_granted" as const, ticketId: change.ticketId };
+          if (status === "expired") return { kind: "ticket_expired" as const, ticketId: change.ticketId };
+        } catch {
+          // Unknown ticket: report that it left and nothing more
+        }
+        return change;
+      })
+    );
+  }
+}
+
+export function diffQueue(previous: QueueStatus, next: QueueStatus): QueueChange[] {
+  const changes: QueueChange[] = [];
+  if (previous.active !== next.active || previous.waiting !== next.waiting || previous.maxConcurrent !== next.maxConcurrent) {
+    changes.push({ kind: "stats", active: next.active, waiting: next.waiting, maxConcurrent: next.maxConcurrent });
+  }
+
+  const before = new Map((previous.waitingTickets ?? []).map((ticket) => [ticket.ticketId, ticket]));
+  const after = new Map((next.waitingTickets ?? []).map((ticket) => [ticket.ticketId, ticket]));
+  for (const [ticketId, ticket] of after) {
+    const old = before.get(ticketId);
+    if (!old) {
+      changes.push({ kind: "ticket_joined", ticketId, position: ticket.position, estimatedWait: ticket.estimatedWait });
+    } else if (old.position !== ticket.position || old.estimatedWait !== ticket.estimatedWait) {
+      changes.push({ kind: "ticket_moved", ticketId, from: old.position, to: ticket.position, estimatedWait: ticket.estimatedWait });
+    }
+  }
+  for (const ticketId of before.keys()) {
+    if (!after.has(ticketId)) changes.push({ kind: "ticket_left", ticketId });
+  }
+  return changes;
+}
+
+export function diffDownloads(previous: DownloadQueueStatus, next: DownloadQueueStatus): DownloadChange[] {
+  const changes: DownloadChange[] = [];
+  const { stats } = next;
+  if (JSON.stringify(previous.stats) !== JSON.stringify(stats)) {
+    changes.push({ kind: "stats", activeCount: stats.activeCount, waitingCount: stats.waitingCount, maxConcurrent: stats.maxConcurrent });
+  }
+
+  const wasWaiting = new Map(previous.waiting.map((entry) => [entry.sessionId, entry]));
+  const wasActive = new Map(previous.active.map((entry) => [entry.sessionId, entry]));
+  const isActive = new Map(next.active.map((entry) => [entry.sessionId, entry]));
+  const isWaiting = new Map(next.waiting.map((entry) => [entry.sessionId, entry]));
+
+  for (const [sessionId, entry] of isWaiting) {
+    const old = wasWaiting.get(sessionId);
+    if (!old) changes.push({ kind: "download_waiting", sessionId, filename: entry.filename, position: entry.position });
+    else if (old.position !== entry.position) changes.push({ kind: "download_moved", sessionId, from: old.position, to: entry.position });
+  }
+  for (const sessionId of wasWaiting.keys()) {
+    if (!isWaiting.has(sessionId) && !isActive.has(sessionId)) changes.push({ kind: "download_left_queue", sessionId });
+  }
+  for (const [sessionId, entry] of isActive) {
+    if (!wasActive.has(sessionId)) changes.push({ kind: "download_started", sessionId, filename: entry.filename, ip: entry.ip });
+  }
+  for (const [sessionId, entry] of wasActive) {
+    if (!isActive.has(sessionId)) changes.push({ kind: "download_finished", sessionId, filename: entry.filename, duration: entry.duration });
+  }
+  return changes;
+}
+
+export function diffStreams(previous: StreamInfo[], next: StreamInfo[]): StreamChange[] {
+  const changes: StreamChange[] = [];
+  const before = new Map(previous.map((stream) => [stream.id, stream]));
+  const after = new Map(next.map((stream) => [stream.id, stream]));
+
+  for (const [id, stream] of after) {
+    const old = before.get(id);
+    if (!old) {
+      changes.push({ kind: "stream_added", stream });
+      continue;
+    }
+    if (old.status !== stream.status) changes.push({ kind: "stream_status", id, from: old.status, to: stream.status });
+    if (stream.uptime !== undefined && old.uptime !== stream.uptime) changes.push({ kind: "stream_uptime", id, uptime: stream.uptime });
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) changes.push({ kind: "stream_removed", id });
+  }
+  return changes;
+}
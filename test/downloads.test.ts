@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isNotModified, parseRange } from "../src/downloads.js";
+
+describe("parseRange", () => {
+  it("ignores a missing, multi-range or non-byte header", () => {
+    assert.equal(parseRange(undefined, 100), undefined);
+    assert.equal(parseRange("bytes=0-1,5-6", 100), undefined);
+    assert.equal(parseRange("items=0-1", 100), undefined);
+    assert.equal(parseRange("bytes=-", 100), undefined);
+  });
+
+  it("reads a closed and an open-ended range", () => {
+    assert.deepEqual(parseRange("bytes=10-19", 100), { start: 10, end: 19 });
+    assert.deepEqual(parseRange("bytes=90-", 100), { start: 90, end: 99 });
+  });
+
+  it("clamps the end to the last byte", () => {
+    assert.deepEqual(parseRange("bytes=50-500", 100), { start: 50, end: 99 });
+  });
+
+  it("reads a suffix range as the last N bytes", () => {
+    assert.deepEqual(parseRange("bytes=-10", 100), { start: 90, end: 99 });
+    assert.deepEqual(parseRange("bytes=-500", 100), { start: 0, end: 99 });
+  });
+
+  it("rejects ranges past the end, backwards or empty", () => {
+    assert.equal(parseRange("bytes=100-", 100), "unsatisfiable");
+    assert.equal(parseRange("bytes=20-10", 100), "unsatisfiable");
+    assert.equal(parseRange("bytes=-0", 100), "unsatisfiable");
+    assert.equal(parseRange("bytes=0-", 0), "unsatisfiable");
+  });
+});
+
+describe("isNotModified", () => {
+  const etag = '"18f-2a"';
+  const modified = "2026-10-19T09:00:00.500Z";
+
+  it("matches If-None-Match against the ETag, weak or strong", () => {
+    assert.equal(isNotModified({ "if-none-match": etag }, etag), true);
+    assert.equal(isNotModified({ "if-none-match": `"other", W/${etag}` }, etag), true);
+    assert.equal(isNotModified({ "if-none-match": "*" }, etag), true);
+    assert.equal(isNotModified({ "if-none-match": '"other"' }, etag), false);
+    assert.equal(isNotModified({ "if-none-match": etag }, undefined), false);
+  });
+
+  it("lets If-None-Match win over If-Modified-Since", () => {
+    const headers = { "if-none-match": '"other"', "if-modified-since": "Mon, 19 Oct 2026 10:00:00 GMT" };
+    assert.equal(isNotModified(headers, etag, modified), false);
+  });
+
+  it("compares If-Modified-Since to the second", () => {
+    assert.equal(isNotModified({ "if-modified-since": "Mon, 19 Oct 2026 09:00:00 GMT" }, etag, modified), true);
+    assert.equal(isNotModified({ "if-modified-since": "Mon, 19 Oct 2026 08:59:59 GMT" }, etag, modified), false);
+    assert.equal(isNotModified({ "if-modified-since": "yesterday" }, etag, modified), false);
+  });
+
+  it("is false without conditional headers", () => {
+    assert.equal(isNotModified({}, etag, modified), false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { flattenListings, folderName } from "../src/listing.js";
+import { parseStoragePath, ROOT_PATH } from "../src/paths.js";
+
+describe("folderName", () => {
+  it("answers with the requested folder", () => {
+    const requested = parseStoragePath("DOCS/2026");
+    assert.equal(folderName("/srv/storage/DOCS/2026", requested), "DOCS/2026");
+    assert.equal(folderName("/srv/storage/IMAGES", parseStoragePath("IMAGES")), "IMAGES");
+  });
+
+  it("names any top-level folder of the all listing, not just IMAGES and VIDEOS", () => {
+    const listed = ["/srv/storage", "/srv/storage/IMAGES", "/srv/storage/DOCS"];
+    assert.equal(folderName("/srv/storage/DOCS", "all", listed), "DOCS");
+    assert.equal(folderName("/srv/storage/IMAGES/", "all", listed), "IMAGES");
+    assert.equal(folderName("/srv/storage", "all", listed), ROOT_PATH);
+  });
+
+  it("reads Windows separators and relative names", () => {
+    assert.equal(folderName("C:\\storage\\VIDEOS", "all", ["C:\\storage", "C:\\storage\\VIDEOS"]), "VIDEOS");
+    assert.equal(folderName("C:\\storage", "all", ["C:\\storage", "C:\\storage\\VIDEOS"]), ROOT_PATH);
+    assert.equal(folderName("root", "all"), ROOT_PATH);
+    assert.equal(folderName("IMAGES", "all"), "IMAGES");
+  });
+});
+
+describe("flattenListings", () => {
+  it("tags every file with its listing's storage path", () => {
+    const files = flattenListings(
+      [
+        { folder: "/srv/storage", files: [{ name: "readme.txt" }] },
+        { folder: "/srv/storage/DOCS", files: [{ name: "a.pdf" }] },
+      ],
+      "all"
+    );
+    assert.deepEqual(
+      files.map((file) => `${file.folder}/${file.name}`),
+      ["root/readme.txt", "DOCS/a.pdf"]
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseStoragePath, ROOT_PATH, StoragePathError } from "../src/paths.js";
+
+describe("parseStoragePath", () => {
+  it("reads missing, empty and root spellings as the root", () => {
+    for (const input of [undefined, null, "", "/", "root", "/root/"]) {
+      assert.equal(parseStoragePath(input), ROOT_PATH);
+    }
+  });
+
+  it("normalizes slashes and a leading root segment", () => {
+    assert.equal(parseStoragePath("VIDEOS"), "VIDEOS");
+    assert.equal(parseStoragePath("/VIDEOS/shoot-1/"), "VIDEOS/shoot-1");
+    assert.equal(parseStoragePath("root/VIDEOS"), "VIDEOS");
+  });
+
+  it("only drops root as the first segment", () => {
+    assert.equal(parseStoragePath("VIDEOS/root"), "VIDEOS/root");
+  });
+
+  it("rejects traversal, empty segments and non-strings", () => {
+    for (const input of ["..", "VIDEOS/../etc", "VIDEOS/.", "VIDEOS//x", "a\\b", "a\0b", 42, {}]) {
+      assert.throws(() => parseStoragePath(input), StoragePathError, String(input));
+    }
+  });
+
+  it("rejects paths nested too deep or with overlong names", () => {
+    assert.throws(() => parseStoragePath(Array(33).fill("a").join("/")), StoragePathError);
+    assert.throws(() => parseStoragePath("a".repeat(256)), StoragePathError);
+    assert.equal(parseStoragePath(Array(32).fill("a").join("/")).split("/").length, 32);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertAllowed, folderScope, ForbiddenError, isAllowed } from "../src/permissions.js";
+import { parseStoragePath } from "../src/paths.js";
+
+describe("isAllowed", () => {
+  it("grants actions by the permission they need", () => {
+    assert.equal(isAllowed("viewer", "list_files"), true);
+    assert.equal(isAllowed("viewer", "delete"), false);
+    assert.equal(isAllowed("moderator", "delete"), true);
+    assert.equal(isAllowed("moderator", "start_stream"), false);
+    assert.equal(isAllowed("admin", "manage_users"), true);
+  });
+
+  it("denies actions missing from the table", () => {
+    assert.equal(isAllowed("admin", "format_disk"), false);
+  });
+
+  it("applies folder-scoped grants to their top-level folders only", () => {
+    assert.equal(isAllowed("uploader", "upload", parseStoragePath("IMAGES")), true);
+    assert.equal(isAllowed("uploader", "upload", parseStoragePath("VIDEOS/shoot-1")), true);
+    assert.equal(isAllowed("uploader", "upload", parseStoragePath("root")), false);
+    assert.equal(isAllowed("uploader", "upload", parseStoragePath("DOCS")), false);
+  });
+
+  it("does not apply folder-scoped grants without a folder", () => {
+    assert.equal(isAllowed("uploader", "upload"), false);
+  });
+
+  it("checks alternate spellings of a path as the folder they name", () => {
+    assert.equal(isAllowed("uploader", "upload", folderScope("root/VIDEOS")), true);
+    assert.equal(isAllowed("uploader", "upload", folderScope("/DOCS/")), false);
+  });
+});
+
+describe("assertAllowed", () => {
+  it("throws ForbiddenError naming the folder", () => {
+    assert.throws(() => assertAllowed("viewer", "upload", parseStoragePath("IMAGES")), (error: unknown) => {
+      assert.ok(error instanceof ForbiddenError);
+      assert.match(error.message, /may not upload in IMAGES/);
+      return true;
+    });
+    assert.doesNotThrow(() => assertAllowed("uploader", "upload", parseStoragePath("IMAGES")));
+  });
+});
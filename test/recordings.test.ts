@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isOpen } from "../src/recordings.js";
+
+// 2026-10-19 is a Monday (day 1)
+const at = (day: number, time: string) => new Date(`2026-10-${String(18 + day).padStart(2, "0")}T${time}:00`);
+
+describe("isOpen", () => {
+  it("is open from start up to, not including, end", () => {
+    const schedule = { start: "09:00", end: "17:00" };
+    assert.equal(isOpen(schedule, at(1, "08:59")), false);
+    assert.equal(isOpen(schedule, at(1, "09:00")), true);
+    assert.equal(isOpen(schedule, at(1, "16:59")), true);
+    assert.equal(isOpen(schedule, at(1, "17:00")), false);
+  });
+
+  it("only opens on the listed days", () => {
+    const schedule = { start: "09:00", end: "17:00", days: [1, 3] };
+    assert.equal(isOpen(schedule, at(1, "12:00")), true);
+    assert.equal(isOpen(schedule, at(2, "12:00")), false);
+  });
+
+  it("runs a window across midnight into the next day", () => {
+    const schedule = { start: "22:00", end: "02:00", days: [1] };
+    assert.equal(isOpen(schedule, at(1, "23:30")), true);
+    assert.equal(isOpen(schedule, at(2, "01:30")), true); // Monday's window, still open on Tuesday
+    assert.equal(isOpen(schedule, at(2, "02:00")), false);
+    assert.equal(isOpen(schedule, at(2, "23:30")), false);
+    assert.equal(isOpen(schedule, at(1, "01:30")), false); // Sunday's window, and Sunday isn't listed
+  });
+});